@@ -36,4 +36,20 @@ describe("GitHub Action", () => {
     expect(actionYml.runs).toHaveProperty("main");
     expect(actionYml.runs.main).toBe("dist/index.js");
   });
+
+  test("examples only compare the status output against real statuses", () => {
+    const fs = require("fs");
+    const { VERIFICATION_STATUSES } = require("../src/esbmc/status");
+
+    for (const example of fs.readdirSync("./examples")) {
+      const content = fs.readFileSync(`./examples/${example}`, "utf8");
+      const compared = Array.from(
+        content.matchAll(/verification_status \}\}" == "([^"]*)"/g),
+        (match) => match[1]
+      );
+      for (const status of compared) {
+        expect([...VERIFICATION_STATUSES, "no_changes"]).toContain(status);
+      }
+    }
+  });
 });
@@ -0,0 +1,128 @@
+const fs = require("fs");
+const path = require("path");
+const { buildClarast } = require("../src/ast/builder");
+
+const ROOT = path.join(__dirname, "..");
+
+/**
+ * Drop source spans, which depend on the indentation of the source
+ */
+const withoutSpans = (value) =>
+  JSON.parse(
+    JSON.stringify(value, (key, v) => (key === "span" ? undefined : v))
+  );
+
+describe("buildClarast", () => {
+  describe("with the sample contract", () => {
+    const built = buildClarast(
+      fs.readFileSync(path.join(ROOT, "sample.clar"), "utf8"),
+      { name: "counter", path: "sample.clar" }
+    );
+    const reference = JSON.parse(
+      fs.readFileSync(path.join(ROOT, "sample.clarast"), "utf8")
+    );
+
+    test("matches the reference identifier, types and globals", () => {
+      expect(built.identifier).toEqual(reference.identifier);
+      expect(built.types).toEqual(reference.types);
+      expect(built.globals).toEqual(reference.globals);
+    });
+
+    test("lists the same public and private functions", () => {
+      expect(built.exported_functions).toEqual(reference.exported_functions);
+      expect(built.private_functions).toEqual(reference.private_functions);
+      expect(built.vars.function_declaration.sort()).toEqual(
+        reference.vars.function_declaration.sort()
+      );
+    });
+
+    test("builds the same expression trees", () => {
+      expect(withoutSpans(built.expressions)).toEqual(
+        withoutSpans(reference.expressions)
+      );
+      expect(withoutSpans(built.const_values)).toEqual(
+        withoutSpans(reference.const_values)
+      );
+    });
+
+    test("uses the reference chain state", () => {
+      expect(built.previous_block).toEqual(reference.previous_block);
+      expect(built.stacks_keywords).toEqual(reference.stacks_keywords);
+    });
+
+    test("records source spans", () => {
+      const [, map] = built.expressions[0];
+      expect(map.span).toEqual({
+        start_line: 4,
+        start_column: 1,
+        end_line: 4,
+        end_column: 59,
+      });
+    });
+  });
+
+  describe("with traits and maps", () => {
+    const ast = buildClarast(
+      [
+        "(define-trait transferable ((transfer (uint principal) (response bool uint))))",
+        "(use-trait ft-trait 'SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE.sip-010-trait-ft-standard.sip-010-trait)",
+        "(define-map balances { owner: principal } uint)",
+        "(define-public (move (token <ft-trait>) (amount uint))",
+        "  (begin",
+        "    (map-set balances { owner: tx-sender } amount)",
+        "    (ok (map-get? balances { owner: tx-sender }))))",
+      ].join("\n"),
+      { name: "vault", path: "contracts/vault.clar" }
+    );
+
+    test("skips trait definitions but keeps numbering expressions", () => {
+      expect(ast.expressions.map(([kind]) => kind)).toEqual(["map", "public"]);
+      expect(ast.globals).toEqual({ balances: 20, move: 30 });
+    });
+
+    test("declares maps with their key and value types", () => {
+      const key = ["tuple", "tuple", "1", [["principal", "owner", "149"]]];
+      const value = ["uint", "uint_128", "128"];
+
+      expect(ast.vars.map_declaration).toEqual(["balances"]);
+      expect(ast.expressions[0][1].objtype).toEqual([
+        "map",
+        "map",
+        "1",
+        key,
+        value,
+      ]);
+      expect(ast.const_values.balances).toEqual({
+        type: { keytype: key, valtype: value },
+        value: null,
+      });
+    });
+
+    test("types trait arguments as principals and map reads as optionals", () => {
+      const [, move] = ast.expressions[1];
+
+      expect(move.args.map((arg) => [arg.identifier, arg.objtype[0]])).toEqual([
+        ["token", "principal"],
+        ["amount", "uint"],
+      ]);
+      expect(move.return_type).toEqual([
+        "response",
+        "response",
+        "2",
+        [
+          ["optional", "optional", "1", [["uint", "uint_128", "128"]]],
+          ["none", "none", "1"],
+        ],
+      ]);
+    });
+  });
+
+  test("rejects top-level expressions that are not definitions", () => {
+    expect(() =>
+      buildClarast('(define-constant OWNER tx-sender)\n\n(print "deployed")', {
+        name: "c",
+        path: "c.clar",
+      })
+    ).toThrow("Unsupported top-level expression at line 3 (print)");
+  });
+});
@@ -0,0 +1,130 @@
+jest.mock("@actions/cache", () => ({
+  isFeatureAvailable: jest.fn(() => true),
+  restoreCache: jest.fn(),
+  saveCache: jest.fn(),
+}));
+
+const cache = require("@actions/cache");
+const {
+  getASTCacheKey,
+  getASTWorkDir,
+  restoreCachedAST,
+  saveCachedAST,
+} = require("../src/ast/cache");
+const { resolveChainContext } = require("../src/ast/chain-context");
+const { decodePrincipal, DEFAULT_DEPLOYER } = require("../src/ast/principal");
+
+describe("getASTCacheKey", () => {
+  const inputs = {
+    content: "(define-constant A u1)",
+    backend: "builtin",
+    generatorVersion: "3",
+    contract: { name: "a", path: "contracts/a.clar" },
+    chain: resolveChainContext(),
+    deployer: decodePrincipal(DEFAULT_DEPLOYER),
+  };
+  const keyOf = (changes = {}) => {
+    const i = { ...inputs, ...changes };
+    return getASTCacheKey(
+      i.content,
+      i.backend,
+      i.generatorVersion,
+      i.contract,
+      i.chain,
+      i.deployer
+    );
+  };
+
+  test("is a stable SHA-256 of the inputs", () => {
+    expect(keyOf()).toMatch(/^[0-9a-f]{64}$/);
+    expect(keyOf()).toBe(keyOf());
+  });
+
+  test("ignores the contract path", () => {
+    expect(keyOf({ contract: { name: "a", path: "moved/a.clar" } })).toBe(
+      keyOf()
+    );
+  });
+
+  test.each([
+    ["content", { content: "(define-constant A u2)" }],
+    ["backend", { backend: "container" }],
+    ["generator version", { generatorVersion: "4" }],
+    ["contract name", { contract: { name: "b", path: "contracts/a.clar" } }],
+    [
+      "epoch",
+      { contract: { name: "a", path: "contracts/a.clar", epoch: "2.5" } },
+    ],
+    ["chain context", { chain: resolveChainContext("mainnet") }],
+    [
+      "block height setting",
+      { chain: resolveChainContext("devnet", {}, true) },
+    ],
+    [
+      "deployer",
+      { deployer: decodePrincipal("SP000000000000000000002Q6VF78") },
+    ],
+  ])("changes with the %s", (_, changes) => {
+    expect(keyOf(changes)).not.toBe(keyOf());
+  });
+});
+
+describe("getASTWorkDir", () => {
+  const runnerTemp = process.env.RUNNER_TEMP;
+
+  afterEach(() => {
+    process.env.RUNNER_TEMP = runnerTemp;
+  });
+
+  test("lives under RUNNER_TEMP", () => {
+    process.env.RUNNER_TEMP = "/runner/_temp";
+    expect(getASTWorkDir()).toBe("/runner/_temp/clarity-verify/ast");
+  });
+});
+
+describe("restoreCachedAST and saveCachedAST", () => {
+  const astFile = "/runner/_temp/clarity-verify/ast/a-1.clarast";
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test("does nothing when the cache service is unavailable", async () => {
+    cache.isFeatureAvailable.mockReturnValue(false);
+
+    await expect(restoreCachedAST(astFile, "1")).resolves.toBe(false);
+    await saveCachedAST(astFile, "1");
+    expect(cache.restoreCache).not.toHaveBeenCalled();
+    expect(cache.saveCache).not.toHaveBeenCalled();
+    cache.isFeatureAvailable.mockReturnValue(true);
+  });
+
+  test("restores only the AST saved under exactly its key", async () => {
+    cache.restoreCache.mockResolvedValueOnce(undefined);
+    cache.restoreCache.mockImplementationOnce(async (paths, key) => key);
+
+    await expect(restoreCachedAST(astFile, "1")).resolves.toBe(false);
+    await expect(restoreCachedAST(astFile, "1")).resolves.toBe(true);
+    expect(cache.restoreCache.mock.calls[0]).toEqual([
+      [astFile],
+      "clarity-verify-ast-1",
+    ]);
+  });
+
+  test("saves only the AST under its key", async () => {
+    await saveCachedAST(astFile, "1");
+
+    expect(cache.saveCache).toHaveBeenCalledWith(
+      [astFile],
+      "clarity-verify-ast-1"
+    );
+  });
+
+  test("treats cache failures as a cache miss", async () => {
+    cache.restoreCache.mockRejectedValueOnce(new Error("service down"));
+    cache.saveCache.mockRejectedValueOnce(new Error("already saved"));
+
+    await expect(restoreCachedAST(astFile, "1")).resolves.toBe(false);
+    await expect(saveCachedAST(astFile, "1")).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,169 @@
+const {
+  buildCallGraph,
+  collectStateAccesses,
+  findImpactedFunctions,
+} = require("../src/parser/call-graph");
+const {
+  findChangedStateDefinitions,
+  parseClarityContract,
+} = require("../src/parser/function-detector");
+
+const math = parseClarityContract(
+  [
+    "(define-private (double (n uint)) (* n u2))",
+    "(define-private (sum (items (list 10 uint))) (fold + (map double items) u0))",
+    "(define-public (total (items (list 10 uint))) (ok (sum items)))",
+    "(define-public (loop (n uint)) (if (is-eq n u0) (ok u0) (loop (- n u1))))",
+    '(define-read-only (label) (ok "double"))',
+  ].join("\n"),
+  "contracts/math.clar"
+);
+
+describe("buildCallGraph", () => {
+  test("records direct calls and functions passed to map", () => {
+    const graph = buildCallGraph(math.functions);
+
+    expect([...graph.get("sum")]).toEqual(["double"]);
+    expect([...graph.get("total")]).toEqual(["sum"]);
+    expect([...graph.get("double")]).toEqual([]);
+  });
+
+  test("ignores self-recursion and names inside strings", () => {
+    const graph = buildCallGraph(math.functions);
+
+    expect([...graph.get("loop")]).toEqual([]);
+    expect([...graph.get("label")]).toEqual([]);
+  });
+});
+
+const vault = (fee) =>
+  parseClarityContract(
+    [
+      `(define-constant FEE ${fee})`,
+      "(define-data-var total uint u0)",
+      "(define-map balances principal uint)",
+      "(define-public (deposit (amount uint))",
+      "  (begin",
+      "    (map-set balances tx-sender (+ amount (default-to u0 (map-get? balances tx-sender))))",
+      "    (ok (var-set total (+ (var-get total) amount)))))",
+      "(define-read-only (get-total) (var-get total))",
+      "(define-read-only (quote (amount uint)) (- amount FEE))",
+      "(define-public (quote-twice (amount uint)) (ok (+ (quote amount) (quote amount))))",
+    ].join("\n"),
+    "contracts/vault.clar"
+  );
+
+describe("collectStateAccesses", () => {
+  test("separates reads from writes and merges both into read-write", () => {
+    const contract = vault("u1");
+    const deposit = contract.functions.find((f) => f.name === "deposit");
+
+    expect(
+      Object.fromEntries(collectStateAccesses(deposit, contract.definitions))
+    ).toEqual({
+      balances: {
+        name: "balances",
+        type: "define-map",
+        access: "read-write",
+      },
+      total: { name: "total", type: "define-data-var", access: "read-write" },
+    });
+  });
+});
+
+describe("findChangedStateDefinitions", () => {
+  test("reports definitions whose text changed", () => {
+    expect(
+      findChangedStateDefinitions(
+        vault("u1").definitions,
+        vault("u2").definitions
+      ).map((d) => d.name)
+    ).toEqual(["FEE"]);
+  });
+});
+
+describe("findImpactedFunctions", () => {
+  const changed = (name) => ({
+    ...math.functions.find((f) => f.name === name),
+    changeType: "modified",
+  });
+
+  test("adds transitive callers with the chain that reaches the change", () => {
+    const impacted = findImpactedFunctions([changed("double")], math);
+
+    expect(impacted.map((f) => [f.name, f.changeType, f.impactedBy])).toEqual([
+      ["sum", "impacted", ["double"]],
+      ["total", "impacted", ["sum", "double"]],
+    ]);
+  });
+
+  test("leaves out callers that changed themselves", () => {
+    const impacted = findImpactedFunctions(
+      [changed("double"), changed("sum")],
+      math
+    );
+
+    expect(impacted.map((f) => [f.name, f.impactedBy])).toEqual([
+      ["total", ["sum"]],
+    ]);
+  });
+
+  test("queues functions that use a changed definition and their callers", () => {
+    const head = vault("u2");
+    const changedState = findChangedStateDefinitions(
+      vault("u1").definitions,
+      head.definitions
+    );
+
+    const impacted = findImpactedFunctions([], head, changedState);
+
+    expect(impacted.map((f) => [f.name, f.impactedBy])).toEqual([
+      ["quote", ["FEE"]],
+      ["quote-twice", ["quote", "FEE"]],
+    ]);
+    expect(impacted[1].changedState).toEqual({
+      name: "FEE",
+      type: "define-constant",
+      access: "read",
+    });
+  });
+
+  test("follows changed state through the definitions derived from it", () => {
+    const contract = (a) =>
+      parseClarityContract(
+        [
+          `(define-constant A ${a})`,
+          "(define-constant B (+ A u1))",
+          "(define-constant C (* B u2))",
+          "(define-data-var v uint A)",
+          "(define-read-only (f) (ok B))",
+          "(define-read-only (g) (ok (var-get v)))",
+          "(define-read-only (h) (ok C))",
+          "(define-read-only (k) (f))",
+          "(define-read-only (unrelated) (ok u1))",
+        ].join("\n"),
+        "c.clar"
+      );
+    const head = contract("u2");
+    const changedState = findChangedStateDefinitions(
+      contract("u1").definitions,
+      head.definitions
+    );
+
+    const impacted = findImpactedFunctions([], head, changedState);
+
+    expect(
+      Object.fromEntries(impacted.map((f) => [f.name, f.impactedBy]))
+    ).toEqual({
+      f: ["B", "A"],
+      g: ["v", "A"],
+      h: ["C", "B", "A"],
+      k: ["f", "B", "A"],
+    });
+    expect(impacted.find((f) => f.name === "g").changedState).toEqual({
+      name: "v",
+      type: "define-data-var",
+      access: "read",
+    });
+  });
+});
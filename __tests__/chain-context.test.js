@@ -0,0 +1,180 @@
+const { buildClarast } = require("../src/ast/builder");
+const {
+  getPreviousBlock,
+  NETWORK_PRESETS,
+  resolveChainContext,
+} = require("../src/ast/chain-context");
+const { validateClarast } = require("../src/ast/validator");
+const { parseConfigFile } = require("../src/config/config-file");
+const { parseKeyValueInput } = require("../src/utils");
+
+describe("resolveChainContext", () => {
+  test("defaults to the devnet preset", () => {
+    const chain = resolveChainContext();
+
+    expect(chain.network).toBe("devnet");
+    expect(chain.stacksKeywords).toEqual(NETWORK_PRESETS.devnet);
+  });
+
+  test.each([
+    ["mainnet", "u1", "true", "false"],
+    ["testnet", "u2147483648", "false", "false"],
+    ["devnet", "u2147483648", "false", "true"],
+  ])("sets the network keywords for %s", (network, chainId, main, regtest) => {
+    expect(resolveChainContext(network).stacksKeywords).toMatchObject({
+      "chain-id": chainId,
+      "is-in-mainnet": main,
+      "is-in-regtest": regtest,
+    });
+  });
+
+  test("applies overrides on top of the preset", () => {
+    const chain = resolveChainContext("mainnet", {
+      "block-height": "u100",
+      "is-in-mainnet": "false",
+    });
+
+    expect(chain.stacksKeywords).toEqual({
+      ...NETWORK_PRESETS.mainnet,
+      "block-height": "u100",
+      "is-in-mainnet": "false",
+    });
+  });
+
+  test("rejects unknown keywords and values that are not literals", () => {
+    expect(() => resolveChainContext("devnet", { "block-time": "u1" })).toThrow(
+      "Unknown chain context keyword 'block-time'"
+    );
+    expect(() =>
+      resolveChainContext("devnet", { "block-height": "100" })
+    ).toThrow("Invalid value '100' for block-height");
+  });
+
+  test("rejects nondet as a keyword value", () => {
+    expect(() =>
+      resolveChainContext("devnet", { "block-height": "nondet" })
+    ).toThrow("Invalid value 'nondet' for block-height");
+  });
+
+  test("keeps literal heights when block height is nondeterministic", () => {
+    const chain = resolveChainContext("testnet", {}, true);
+
+    expect(chain.nondeterministicBlockHeight).toBe(true);
+    expect(chain.stacksKeywords).toEqual(NETWORK_PRESETS.testnet);
+  });
+});
+
+describe("getPreviousBlock", () => {
+  test("lowers the Stacks block height by one", () => {
+    expect(getPreviousBlock(NETWORK_PRESETS.devnet)).toEqual({
+      "block-height": "u928575",
+      "burn-block-height": "u891469",
+      "stacks-block-height": "u928575",
+      "stx-liquid-supply": "u1520566748414280",
+    });
+  });
+
+  test("keeps a height that cannot be lowered", () => {
+    expect(
+      getPreviousBlock({ "block-height": "u0", "stacks-block-height": "u7" })
+    ).toEqual({ "block-height": "u0", "stacks-block-height": "u6" });
+  });
+});
+
+describe("buildClarast", () => {
+  test("writes the chain context into the AST", () => {
+    const chain = resolveChainContext("mainnet", { "block-height": "u50" });
+    const ast = buildClarast(
+      "(define-read-only (main) (ok is-in-mainnet))",
+      { name: "c", path: "c.clar" },
+      chain
+    );
+
+    expect(ast.stacks_keywords).toEqual(chain.stacksKeywords);
+    expect(ast.previous_block["block-height"]).toBe("u49");
+  });
+
+  const content = [
+    "(define-constant start block-height)",
+    "(define-private (elapsed) (- block-height start))",
+    "(define-read-only (expired) (> (elapsed) u10))",
+    "(define-read-only (burn) (ok burn-block-height))",
+  ].join("\n");
+  const findNode = (ast, name) =>
+    ast.expressions.find(([, node]) => node.identifier === name)[1];
+  const argumentNames = (ast, name) =>
+    (findNode(ast, name).args ?? []).map((arg) => arg.identifier);
+
+  test("reads heights from the chain context by default", () => {
+    const ast = buildClarast(content, { name: "c", path: "c.clar" });
+
+    expect(argumentNames(ast, "elapsed")).toEqual([]);
+    expect(findNode(ast, "elapsed").body[0].args[0]).toMatchObject({
+      type: "keyword",
+      identifier: "block-height",
+    });
+  });
+
+  test("turns heights read in functions into arguments when nondeterministic", () => {
+    const chain = resolveChainContext("devnet", {}, true);
+    const ast = buildClarast(content, { name: "c", path: "c.clar" }, chain);
+    const elapsed = findNode(ast, "elapsed");
+
+    expect(argumentNames(ast, "elapsed")).toEqual(["nondet-block-height"]);
+    expect(argumentNames(ast, "expired")).toEqual(["nondet-block-height"]);
+    expect(argumentNames(ast, "burn")).toEqual(["nondet-burn-block-height"]);
+    expect(elapsed.args[0].objtype).toEqual(["uint", "uint_128", "128"]);
+    expect(elapsed.body[0].args[0]).toMatchObject({
+      type: "variable",
+      identifier: "nondet-block-height",
+      cid: elapsed.args[0].id,
+      span: { start_line: 2, start_column: 30 },
+    });
+    expect(findNode(ast, "expired").body[0].args[0].args).toMatchObject([
+      { type: "variable", cid: findNode(ast, "expired").args[0].id },
+    ]);
+    expect(findNode(ast, "start").value).toMatchObject({
+      type: "keyword",
+      identifier: "block-height",
+    });
+    expect(ast.stacks_keywords).toEqual(NETWORK_PRESETS.devnet);
+    expect(validateClarast(ast)).toEqual([]);
+  });
+});
+
+describe("chain overrides from inputs and the config file", () => {
+  test("parses key=value inputs", () => {
+    expect(
+      parseKeyValueInput("block-height = u5,\nis-in-mainnet=true")
+    ).toEqual({ "block-height": "u5", "is-in-mainnet": "true" });
+    expect(() => parseKeyValueInput("block-height")).toThrow(
+      "Invalid entry 'block-height', expected key=value"
+    );
+  });
+
+  test("reads YAML booleans and numbers as strings", () => {
+    const config = parseConfigFile(
+      [
+        "chain:",
+        "  network: mainnet",
+        "  nondeterministic_block_height: true",
+        "  overrides:",
+        "    is-in-regtest: true",
+        "    block-height: u10",
+      ].join("\n"),
+      ".clarity-verify.yml"
+    );
+
+    expect(config.chain).toEqual({
+      network: "mainnet",
+      nondeterministic_block_height: true,
+      overrides: { "is-in-regtest": "true", "block-height": "u10" },
+    });
+  });
+
+  test("rejects a config file that is not a mapping", () => {
+    expect(() => parseConfigFile("- mainnet", "c.yml")).toThrow(
+      "c.yml must contain a YAML mapping"
+    );
+  });
+});
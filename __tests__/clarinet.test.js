@@ -0,0 +1,213 @@
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const {
+  discoverClarinetProject,
+  discoverClarinetProjects,
+  findProjectForFile,
+  getContractDirectories,
+  getContractInfo,
+  getRequirementFiles,
+  parseClarinetManifest,
+  parseDeploymentPlan,
+} = require("../src/clarinet/project");
+
+const MANIFEST = `
+[project]
+name = "vault"
+
+[contracts.vault-core]
+path = "contracts/vault.clar"
+clarity_version = 2
+epoch = 2.4
+
+[contracts.token]
+path = "./contracts/tokens/token.clar"
+clarity_version = "3"
+epoch = "latest"
+
+[contracts.broken]
+clarity_version = 2
+`;
+
+const PLAN = `
+id: 0
+name: Devnet deployment
+plan:
+  batches:
+    - id: 0
+      epoch: "2.1"
+      transactions:
+        - contract-publish:
+            contract-name: token
+            path: contracts/tokens/token.clar
+            clarity-version: 3
+        - contract-publish:
+            contract-name: oracle
+            path: contracts/oracle.clar
+            clarity-version: 2
+        - emulated-contract-publish:
+            contract-name: sip-010-trait
+            emulated-sender: SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE
+            path: ./.cache/requirements/SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE.sip-010-trait.clar
+            clarity-version: 1
+        - stx-transfer:
+            amount: 100
+`;
+
+const SIP_010 = "SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE.sip-010-trait";
+
+describe("parseClarinetManifest", () => {
+  const project = parseClarinetManifest(MANIFEST, "app");
+
+  test("reads contract names, paths and language settings", () => {
+    expect(project).toMatchObject({
+      name: "vault",
+      root: "app",
+      manifestPath: "app/Clarinet.toml",
+    });
+    expect(project.contracts).toEqual([
+      {
+        name: "vault-core",
+        path: "app/contracts/vault.clar",
+        clarityVersion: 2,
+        epoch: "2.4",
+      },
+      {
+        name: "token",
+        path: "app/contracts/tokens/token.clar",
+        clarityVersion: 3,
+        epoch: "latest",
+      },
+    ]);
+  });
+
+  test("lists each contract directory once", () => {
+    expect(getContractDirectories(project)).toEqual([
+      "app/contracts",
+      "app/contracts/tokens",
+    ]);
+  });
+
+  test("uses the declared name and falls back to the file name", () => {
+    expect(getContractInfo("app/contracts/vault.clar", project).name).toBe(
+      "vault-core"
+    );
+    expect(getContractInfo("other/counter.clar", project)).toEqual({
+      name: "counter",
+      path: "other/counter.clar",
+    });
+  });
+});
+
+describe("parseDeploymentPlan", () => {
+  test("reads published contracts with the epoch of their batch", () => {
+    expect(parseDeploymentPlan(PLAN, ".").contracts).toEqual([
+      {
+        name: "token",
+        path: "contracts/tokens/token.clar",
+        clarityVersion: 3,
+        epoch: "2.1",
+      },
+      {
+        name: "oracle",
+        path: "contracts/oracle.clar",
+        clarityVersion: 2,
+        epoch: "2.1",
+      },
+    ]);
+  });
+
+  test("keeps emulated requirements apart from the project contracts", () => {
+    expect(parseDeploymentPlan(PLAN, "app").requirements).toEqual({
+      [SIP_010]: `app/.cache/requirements/${SIP_010}.clar`,
+    });
+  });
+});
+
+describe("discoverClarinetProject", () => {
+  let root;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "clarinet-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test("returns undefined without a manifest", () => {
+    expect(discoverClarinetProject(root)).toBeUndefined();
+  });
+
+  test("fills in contracts from deployment plans, keeping the manifest settings", () => {
+    fs.writeFileSync(path.join(root, "Clarinet.toml"), MANIFEST);
+    fs.mkdirSync(path.join(root, "deployments"));
+    fs.writeFileSync(
+      path.join(root, "deployments", "default.devnet-plan.yaml"),
+      PLAN
+    );
+
+    const project = discoverClarinetProject(root);
+    const rel = (file) => path.posix.join(root, file);
+
+    expect(
+      project.contracts.map((c) => [c.name, c.path, c.clarityVersion, c.epoch])
+    ).toEqual([
+      ["vault-core", rel("contracts/vault.clar"), 2, "2.4"],
+      ["token", rel("contracts/tokens/token.clar"), 3, "latest"],
+      ["oracle", rel("contracts/oracle.clar"), 2, "2.1"],
+    ]);
+    expect(getContractDirectories(project)).toEqual([
+      rel("contracts"),
+      rel("contracts/tokens"),
+    ]);
+    expect(Array.from(getRequirementFiles(project))).toEqual([
+      [SIP_010, rel(`.cache/requirements/${SIP_010}.clar`)],
+    ]);
+  });
+});
+
+describe("discoverClarinetProjects", () => {
+  let root;
+
+  const writeProject = (dir, name) => {
+    fs.mkdirSync(path.join(root, dir), { recursive: true });
+    fs.writeFileSync(
+      path.join(root, dir, "Clarinet.toml"),
+      `[project]\nname = "${name}"\n\n[contracts.${name}]\npath = "contracts/${name}.clar"\n`
+    );
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "monorepo-"));
+    writeProject("projects/vault", "vault");
+    writeProject("projects/vault/examples/demo", "demo");
+    writeProject("token", "token");
+    writeProject(".cache/requirements/sip", "sip");
+    writeProject("node_modules/pkg", "pkg");
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test("finds nested projects and skips hidden and dependency folders", () => {
+    expect(discoverClarinetProjects(root).map((p) => p.name)).toEqual([
+      "vault",
+      "demo",
+      "token",
+    ]);
+  });
+
+  test("assigns files to the innermost project containing them", () => {
+    const projects = discoverClarinetProjects(root);
+    const owner = (file) =>
+      findProjectForFile(path.posix.join(root, file), projects)?.name;
+
+    expect(owner("projects/vault/contracts/vault.clar")).toBe("vault");
+    expect(owner("projects/vault/contracts/helper.clar")).toBe("vault");
+    expect(owner("projects/vault/examples/demo/contracts/x.clar")).toBe("demo");
+    expect(owner("scripts/loose.clar")).toBeUndefined();
+  });
+});
@@ -0,0 +1,105 @@
+const {
+  findKeywordDiagnostics,
+  isKeywordAvailable,
+  resolveContractLanguage,
+} = require("../src/parser/clarity-version");
+const {
+  getContractKeywords,
+  NETWORK_PRESETS,
+} = require("../src/ast/chain-context");
+
+describe("resolveContractLanguage", () => {
+  const contract = { name: "c", path: "c.clar" };
+
+  test("keeps settings from Clarinet.toml over the defaults", () => {
+    expect(
+      resolveContractLanguage(
+        { ...contract, clarityVersion: 2, epoch: "2.4" },
+        3,
+        "3.0"
+      )
+    ).toMatchObject({ clarityVersion: 2, epoch: "2.4" });
+  });
+
+  test("derives the newest version of an epoch and the epoch of a version", () => {
+    expect(resolveContractLanguage(contract, undefined, "2.5")).toMatchObject({
+      clarityVersion: 2,
+      epoch: "2.5",
+    });
+    expect(resolveContractLanguage(contract, 3)).toMatchObject({
+      clarityVersion: 3,
+      epoch: "3.0",
+    });
+  });
+
+  test("leaves contracts without any setting unversioned", () => {
+    expect(resolveContractLanguage(contract)).toEqual(contract);
+  });
+});
+
+describe("isKeywordAvailable", () => {
+  test.each([
+    ["block-height", 2, true],
+    ["block-height", 3, false],
+    ["tenure-height", 2, false],
+    ["tenure-height", 3, true],
+    ["chain-id", 1, false],
+    ["my-variable", 1, true],
+  ])("%s in Clarity %d: %s", (keyword, version, available) => {
+    expect(isKeywordAvailable(keyword, version)).toBe(available);
+  });
+});
+
+describe("findKeywordDiagnostics", () => {
+  test("reports keywords the version does not have", () => {
+    const diagnostics = findKeywordDiagnostics(
+      "(define-read-only (now)\n  (ok block-height))",
+      3
+    );
+
+    expect(diagnostics).toEqual([
+      {
+        keyword: "block-height",
+        line: 2,
+        column: 7,
+        message:
+          "block-height is not available in Clarity 3; use stacks-block-height or tenure-height",
+      },
+    ]);
+  });
+
+  test("allows names declared before they became keywords", () => {
+    const content = [
+      "(define-constant chain-id u1)",
+      "(define-read-only (f (tenure-height uint))",
+      "  (let ((is-in-mainnet true)) (ok { stacks-block-height: chain-id })))",
+    ].join("\n");
+
+    expect(findKeywordDiagnostics(content, 1)).toEqual([]);
+  });
+});
+
+describe("getContractKeywords", () => {
+  const keywords = NETWORK_PRESETS.devnet;
+
+  test("gives each version only its own keywords", () => {
+    const contract = { name: "c", path: "c.clar", clarityVersion: 2 };
+
+    expect(Object.keys(getContractKeywords(keywords, contract))).toEqual(
+      expect.not.arrayContaining(["stacks-block-height", "tenure-height"])
+    );
+  });
+
+  test("maps block-height to the tenure height from epoch 3.0", () => {
+    const contract = {
+      name: "c",
+      path: "c.clar",
+      clarityVersion: 2,
+      epoch: "3.0",
+    };
+
+    expect(getContractKeywords(keywords, contract)["block-height"]).toBe(
+      keywords["tenure-height"]
+    );
+  });
+});
@@ -0,0 +1,90 @@
+const {
+  findContractDependencies,
+  resolveDependencyClosure,
+} = require("../src/parser/dependencies");
+const { getContractFiles } = require("../src/clarinet/project");
+
+const DEPLOYER = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+
+describe("findContractDependencies", () => {
+  test("finds local call targets and trait contracts", () => {
+    const content = [
+      `(impl-trait '${DEPLOYER}.traits.vault-trait)`,
+      "(use-trait ft-trait .sip-010.sip-010-trait)",
+      "(define-public (deposit (amount uint))",
+      "  (begin",
+      "    (try! (contract-call? .token transfer amount tx-sender .vault none))",
+      `    (contract-call? '${DEPLOYER}.oracle get-price)))`,
+    ].join("\n");
+
+    expect(findContractDependencies(content, DEPLOYER)).toEqual([
+      "traits",
+      "sip-010",
+      "token",
+      "oracle",
+    ]);
+  });
+
+  test("leaves out other deployers and calls through trait references", () => {
+    const content = [
+      "(use-trait ft-trait 'SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE.sip-010-trait-ft-standard.sip-010-trait)",
+      "(define-public (pay (token <ft-trait>))",
+      "  (contract-call? token transfer u1 tx-sender tx-sender none))",
+      "(define-read-only (price)",
+      "  (contract-call? 'SP000000000000000000002Q6VF78.pox-4 get-pox-info))",
+    ].join("\n");
+
+    expect(findContractDependencies(content, DEPLOYER)).toEqual([]);
+  });
+});
+
+describe("resolveDependencyClosure", () => {
+  const sources = {
+    "contracts/vault.clar":
+      "(contract-call? .token f)\n(contract-call? .oracle g)",
+    "contracts/token.clar":
+      "(contract-call? .math h)\n(contract-call? .vault i)",
+    "contracts/oracle.clar": "(contract-call? .remote-requirement j)",
+    "contracts/math.clar": "(define-read-only (h) (ok u1))",
+  };
+  const contractFiles = new Map(
+    Object.keys(sources).map((file) => [
+      file.replace(/^contracts\/(.*)\.clar$/, "$1"),
+      file,
+    ])
+  );
+
+  test("collects transitive dependencies breadth-first, once each", () => {
+    expect(
+      resolveDependencyClosure(
+        "contracts/vault.clar",
+        contractFiles,
+        (file) => sources[file],
+        DEPLOYER
+      )
+    ).toEqual([
+      "contracts/token.clar",
+      "contracts/oracle.clar",
+      "contracts/math.clar",
+    ]);
+  });
+});
+
+describe("getContractFiles", () => {
+  test("indexes the contracts of a Clarinet project by their names", () => {
+    const project = {
+      name: "app",
+      root: ".",
+      manifestPath: "Clarinet.toml",
+      contracts: [
+        { name: "vault-core", path: "contracts/vault.clar" },
+        { name: "token", path: "contracts/token.clar" },
+      ],
+    };
+
+    expect(Object.fromEntries(getContractFiles(project, []))).toEqual({
+      "vault-core": "contracts/vault.clar",
+      token: "contracts/token.clar",
+    });
+  });
+});
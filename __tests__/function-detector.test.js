@@ -0,0 +1,264 @@
+const {
+  compareAndIdentifyChanges,
+  mapHunksToFunctions,
+  matchRenamedFunctions,
+  parseClarityContract,
+  parseClarityFunctions,
+  parseDiffHunks,
+  parseNameStatus,
+} = require("../src/parser/function-detector");
+
+describe("parseClarityContract", () => {
+  const contract = parseClarityContract(
+    [
+      "(use-trait ft-trait 'SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE.sip-010-trait-ft-standard.sip-010-trait)",
+      "(define-constant OWNER tx-sender)",
+      "(define-data-var counter uint u0)",
+      "(define-map balances principal uint)",
+      "(define-fungible-token token)",
+      ";; (define-public (commented-out) (ok true))",
+      "(define-public (increment)",
+      '  (begin (print "(not a list")',
+      "    (ok (var-set counter (+ (var-get counter) u1)))))",
+      "(define-read-only (get-counter) (ok (var-get counter)))",
+      "(define-private (helper (amount uint)) amount)",
+    ].join("\n"),
+    "contracts/counter.clar"
+  );
+
+  test("models every top-level definition in source order", () => {
+    expect(contract.definitions.map((d) => [d.type, d.name])).toEqual([
+      ["use-trait", "ft-trait"],
+      ["define-constant", "OWNER"],
+      ["define-data-var", "counter"],
+      ["define-map", "balances"],
+      ["define-fungible-token", "token"],
+      ["define-public", "increment"],
+      ["define-read-only", "get-counter"],
+      ["define-private", "helper"],
+    ]);
+  });
+
+  test("lists public, read-only and private functions as functions", () => {
+    expect(contract.functions.map((f) => f.name)).toEqual([
+      "increment",
+      "get-counter",
+      "helper",
+    ]);
+  });
+
+  test("records the span and source of a multi-line definition", () => {
+    const increment = contract.functions[0];
+
+    expect(increment).toMatchObject({
+      startLine: 7,
+      startColumn: 1,
+      endLine: 9,
+      file: "contracts/counter.clar",
+    });
+    expect(increment.content.startsWith("(define-public (increment)")).toBe(
+      true
+    );
+    expect(increment.content.endsWith("u1)))))")).toBe(true);
+  });
+});
+
+describe("compareAndIdentifyChanges", () => {
+  const base = parseClarityFunctions(
+    "(define-public (inc) (ok u1))\n(define-public (dec) (ok u0))",
+    "c.clar"
+  );
+  const head = parseClarityFunctions(
+    [
+      ";; Increment",
+      "(define-public (inc)",
+      "  (ok u1))",
+      "(define-public (dec) (ok u2))",
+    ].join("\n"),
+    "c.clar"
+  );
+
+  test("ignores comment and formatting changes by default", () => {
+    expect(
+      compareAndIdentifyChanges(base, head).map((f) => [f.name, f.changeType])
+    ).toEqual([["dec", "modified"]]);
+  });
+
+  test("compares text exactly when formatting is not ignored", () => {
+    expect(
+      compareAndIdentifyChanges(base, head, { ignoreFormatting: false }).map(
+        (f) => [f.name, f.changeType]
+      )
+    ).toEqual([
+      ["inc", "modified"],
+      ["dec", "modified"],
+    ]);
+  });
+});
+
+describe("parseNameStatus", () => {
+  test("reads added, modified, deleted, renamed and copied files", () => {
+    const output = [
+      "A\tcontracts/new.clar",
+      "M\tcontracts/changed.clar",
+      "D\tcontracts/old.clar",
+      "R087\tcontracts/before.clar\tcontracts/after.clar",
+      "C100\tcontracts/source.clar\tcontracts/copy.clar",
+      "",
+    ].join("\n");
+
+    expect(parseNameStatus(output)).toEqual([
+      { path: "contracts/new.clar", status: "added" },
+      { path: "contracts/changed.clar", status: "modified" },
+      { path: "contracts/old.clar", status: "deleted" },
+      {
+        path: "contracts/after.clar",
+        status: "renamed",
+        previousPath: "contracts/before.clar",
+      },
+      { path: "contracts/copy.clar", status: "added" },
+    ]);
+  });
+
+  test("ignores blank lines and CRLF line endings", () => {
+    expect(parseNameStatus("M\ta.clar\r\n\r\nD\tb.clar\r\n")).toEqual([
+      { path: "a.clar", status: "modified" },
+      { path: "b.clar", status: "deleted" },
+    ]);
+  });
+});
+
+describe("matchRenamedFunctions", () => {
+  const functions = (content) => parseClarityFunctions(content, "c.clar");
+
+  test("pairs a function with an identical body under a new name", () => {
+    const [deleted] = functions(
+      "(define-public (transfer (amount uint)) (ok (+ amount u1)))"
+    );
+    const [added] = functions(
+      "(define-public (send (amount uint)) (ok (+ amount u1)))"
+    );
+
+    expect(matchRenamedFunctions([deleted], [added]).get(deleted)).toBe(added);
+  });
+
+  test("masks recursive calls to the function's own name", () => {
+    const [deleted] = functions(
+      "(define-private (count-down (n uint)) (if (is-eq n u0) n (count-down (- n u1))))"
+    );
+    const [added] = functions(
+      "(define-private (countdown (n uint)) (if (is-eq n u0) n (countdown (- n u1))))"
+    );
+
+    expect(matchRenamedFunctions([deleted], [added]).get(deleted)).toBe(added);
+  });
+
+  test("does not pair functions of different kinds or unrelated bodies", () => {
+    const [deleted] = functions("(define-public (get-a) (ok u1))");
+    const added = functions(
+      [
+        "(define-read-only (get-b) (ok u1))",
+        '(define-public (get-c) (begin (print "something else") (err u42)))',
+      ].join("\n")
+    );
+
+    expect(matchRenamedFunctions([deleted], added).size).toBe(0);
+  });
+
+  test("matches the most similar candidates first", () => {
+    const deleted = functions(
+      [
+        "(define-public (a1) (ok (+ u1 u2 u3 u4 u5 u6 u7 u8 u9 u10)))",
+        "(define-public (b1) (ok (+ u1 u2 u3 u4 u5 u6 u7 u8 u9 u11)))",
+      ].join("\n")
+    );
+    const added = functions(
+      "(define-public (a2) (ok (+ u1 u2 u3 u4 u5 u6 u7 u8 u9 u11)))"
+    );
+
+    const renames = matchRenamedFunctions(deleted, added);
+    expect(renames.get(deleted[1])).toBe(added[0]);
+    expect(renames.has(deleted[0])).toBe(false);
+  });
+});
+
+describe("parseDiffHunks", () => {
+  test("reads hunk ranges, defaulting omitted counts to one", () => {
+    const output = [
+      "diff --git a/c.clar b/c.clar",
+      "--- a/c.clar",
+      "+++ b/c.clar",
+      "@@ -3 +3 @@ (define-public (f)",
+      "-  (ok u1))",
+      "+  (ok u2))",
+      "@@ -10,2 +9,0 @@",
+      "-  (print 1)",
+      "-  (print 2)",
+      "@@ -20,0 +19,3 @@",
+    ].join("\n");
+
+    expect(parseDiffHunks(output)).toEqual([
+      { baseStart: 3, baseCount: 1, headStart: 3, headCount: 1 },
+      { baseStart: 10, baseCount: 2, headStart: 9, headCount: 0 },
+      { baseStart: 20, baseCount: 0, headStart: 19, headCount: 3 },
+    ]);
+  });
+
+  test("does not mistake removed lines starting with @@ for headers", () => {
+    expect(parseDiffHunks("-@@ -1 +1 @@\n")).toEqual([]);
+  });
+});
+
+describe("mapHunksToFunctions", () => {
+  // Lines 1-3 and 5-7
+  const [first, second] = parseClarityFunctions(
+    [
+      "(define-public (first)",
+      "  (begin (print u1)",
+      "    (ok true)))",
+      "",
+      "(define-public (second)",
+      "  (begin (print u2)",
+      "    (ok true)))",
+    ].join("\n"),
+    "c.clar"
+  );
+  const hunk = (headStart, headCount) => ({
+    baseStart: headStart,
+    baseCount: 1,
+    headStart,
+    headCount,
+  });
+
+  test("maps changed lines onto the functions they fall in", () => {
+    const touched = mapHunksToFunctions(
+      [hunk(2, 1), hunk(3, 3)],
+      [first, second]
+    );
+
+    expect(touched.get(first)).toEqual([2, 3]);
+    expect(touched.get(second)).toEqual([5]);
+  });
+
+  test("attributes a pure deletion inside a function to the next line", () => {
+    const touched = mapHunksToFunctions([hunk(5, 0)], [first, second]);
+
+    expect(touched.get(second)).toEqual([6]);
+    expect(touched.has(first)).toBe(false);
+  });
+
+  test("ignores pure deletions at function boundaries", () => {
+    // After the last line of the first function, and before the first
+    // line of the second
+    const touched = mapHunksToFunctions(
+      [hunk(3, 0), hunk(4, 0)],
+      [first, second]
+    );
+
+    expect(touched.size).toBe(0);
+  });
+
+  test("ignores a pure deletion before the first line of the file", () => {
+    expect(mapHunksToFunctions([hunk(0, 0)], [first, second]).size).toBe(0);
+  });
+});
@@ -0,0 +1,231 @@
+// Jest gives tests a copy of process.env; pass it on so child processes
+// find the fake docker on PATH. Registered before the modules that use it.
+jest.mock("@actions/exec", () => {
+  const actual = jest.requireActual("@actions/exec");
+  return {
+    ...actual,
+    exec: (command, args, options = {}) =>
+      actual.exec(command, args, { env: { ...process.env }, ...options }),
+  };
+});
+
+jest.mock("@actions/cache", () => ({
+  isFeatureAvailable: jest.fn(() => true),
+  restoreCache: jest.fn(),
+  saveCache: jest.fn(),
+}));
+
+const cache = require("@actions/cache");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { resolveChainContext } = require("../src/ast/chain-context");
+const { generateAST } = require("../src/ast/generator");
+const { decodePrincipal } = require("../src/ast/principal");
+
+const ROOT = path.join(__dirname, "..");
+
+describe("generateAST", () => {
+  const cwd = process.cwd();
+  const env = { ...process.env };
+  let workspace;
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), "generator-"));
+    fs.mkdirSync(path.join(workspace, "bin"));
+    fs.symlinkSync(
+      path.join(__dirname, "fixtures", "docker"),
+      path.join(workspace, "bin", "docker")
+    );
+    fs.mkdirSync(path.join(workspace, "contracts"));
+    fs.copyFileSync(
+      path.join(ROOT, "sample.clar"),
+      path.join(workspace, "contracts", "vault.clar")
+    );
+
+    process.env.PATH = `${path.join(workspace, "bin")}:${env.PATH}`;
+    process.env.FAKE_DOCKER_AST = path.join(ROOT, "sample.clarast");
+    process.env.FAKE_DOCKER_LOG = path.join(workspace, "docker.log");
+    process.env.RUNNER_TEMP = path.join(workspace, "tmp");
+    process.chdir(workspace);
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    process.env = { ...env };
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  const chain = resolveChainContext("mainnet");
+  const deployer = decodePrincipal("SP000000000000000000002Q6VF78");
+  const stubs = {
+    config: { strategy: "nondet", contracts: {} },
+    localContracts: ["vault"],
+    traits: {},
+    implementedTraits: {},
+  };
+
+  const generate = (backend, options = {}) =>
+    generateAST("contracts/vault.clar", {
+      backend,
+      containerRepo: "ast-generator",
+      containerVersion: "latest",
+      chain,
+      deployer,
+      stubs,
+      limits: { memory: "1g" },
+      ...options,
+    });
+
+  const readAST = (astFile) => JSON.parse(fs.readFileSync(astFile, "utf8"));
+
+  const contractName = (astFile) => readAST(astFile).identifier.contract_name;
+
+  // The image is checked before its first run; only runs count here
+  const dockerRuns = () =>
+    fs
+      .readFileSync("docker.log", "utf8")
+      .split("\n")
+      .filter((line) => line.startsWith("run "));
+
+  test("uses the container output with the contract's own identity", async () => {
+    process.env.FAKE_DOCKER_MODE = "copy";
+
+    const ast = await generate("container");
+
+    expect(ast.backend).toBe("container");
+    expect(path.dirname(ast.astFile)).toBe(
+      path.join(workspace, "tmp", "clarity-verify", "ast")
+    );
+    expect(readAST(ast.astFile).identifier).toEqual({
+      contract_name: "vault",
+      issuer_principal: "SP000000000000000000002Q6VF78",
+      issuer_raw: [22, Array(20).fill(0)],
+    });
+    expect(readAST(ast.astFile).stacks_keywords).toEqual(chain.stacksKeywords);
+  });
+
+  test("runs the generator container within its memory limit", async () => {
+    process.env.FAKE_DOCKER_MODE = "copy";
+
+    await generate("container");
+
+    expect(dockerRuns()[0]).toMatch(/^run .*--memory 1g --memory-swap 1g /);
+  });
+
+  test.each(["fail", "empty"])(
+    "falls back to the builtin backend when the container run ends with '%s'",
+    async (mode) => {
+      process.env.FAKE_DOCKER_MODE = mode;
+
+      const ast = await generate("container");
+
+      expect(ast.backend).toBe("builtin");
+      expect(contractName(ast.astFile)).toBe("vault");
+    }
+  );
+
+  test("falls back to the builtin backend when the container's AST is invalid", async () => {
+    process.env.FAKE_DOCKER_MODE = "copy";
+    const invalid = readAST(process.env.FAKE_DOCKER_AST);
+    delete invalid.vars.map_declaration;
+    process.env.FAKE_DOCKER_AST = path.join(workspace, "invalid.clarast");
+    fs.writeFileSync(process.env.FAKE_DOCKER_AST, JSON.stringify(invalid));
+
+    const ast = await generate("container");
+
+    expect(ast.backend).toBe("builtin");
+    expect(
+      fs.readdirSync(path.join(workspace, "tmp", "clarity-verify", "ast"))
+    ).toEqual([path.basename(ast.astFile)]);
+  });
+
+  test("reuses an AST generated earlier for the same input", async () => {
+    process.env.FAKE_DOCKER_MODE = "copy";
+
+    const first = await generate("container");
+    const second = await generate("container");
+
+    expect(second).toEqual(first);
+    expect(dockerRuns()).toHaveLength(1);
+  });
+
+  test("restores an AST saved to the Actions cache by an earlier run", async () => {
+    process.env.FAKE_DOCKER_MODE = "copy";
+    const saved = new Map();
+    cache.saveCache.mockImplementation(async ([file], key) => {
+      saved.set(key, fs.readFileSync(file));
+    });
+    cache.restoreCache.mockImplementation(async ([file], key) => {
+      if (!saved.has(key)) return undefined;
+      fs.writeFileSync(file, saved.get(key));
+      return key;
+    });
+
+    const first = await generate("container", { cache: true });
+    fs.rmSync(first.astFile);
+    const second = await generate("container", { cache: true });
+
+    expect(second).toEqual(first);
+    expect(Array.from(saved.keys())).toEqual([
+      `clarity-verify-ast-${path.basename(first.astFile, ".clarast").slice(6)}`,
+    ]);
+    expect(cache.saveCache).toHaveBeenCalledWith(
+      [first.astFile],
+      expect.any(String)
+    );
+    expect(dockerRuns()).toHaveLength(1);
+  });
+
+  test("reuses the fallback's AST before running the failing backend again", async () => {
+    process.env.FAKE_DOCKER_MODE = "fail";
+
+    const first = await generate("container");
+    const second = await generate("container");
+
+    expect(second).toEqual(first);
+    expect(first.backend).toBe("builtin");
+    expect(dockerRuns()).toHaveLength(1);
+  });
+
+  test("generates a new AST when the contract changes", async () => {
+    process.env.FAKE_DOCKER_MODE = "copy";
+
+    const first = await generate("container");
+    fs.appendFileSync(
+      "contracts/vault.clar",
+      "\n(define-data-var x uint u1)\n"
+    );
+    const second = await generate("container");
+
+    expect(second.astFile).not.toBe(first.astFile);
+  });
+
+  test("leaves no partial AST behind when a backend fails", async () => {
+    process.env.FAKE_DOCKER_MODE = "fail";
+    fs.appendFileSync("contracts/vault.clar", '\n(print "deployed")\n');
+
+    await expect(generate("container")).rejects.toThrow();
+    expect(
+      fs.readdirSync(path.join(workspace, "tmp", "clarity-verify", "ast"))
+    ).toEqual([]);
+  });
+
+  test("falls back to the container when the builtin backend fails", async () => {
+    process.env.FAKE_DOCKER_MODE = "copy";
+    fs.appendFileSync("contracts/vault.clar", '\n(print "deployed")\n');
+
+    await expect(generate("builtin")).resolves.toMatchObject({
+      backend: "container",
+    });
+  });
+
+  test("reports both errors when every backend fails", async () => {
+    process.env.FAKE_DOCKER_MODE = "fail";
+    fs.appendFileSync("contracts/vault.clar", '\n(print "deployed")\n');
+
+    await expect(generate("builtin")).rejects.toThrow(
+      /builtin: Error: Unsupported top-level expression.*; container: ContainerError: Failed to run command in container/
+    );
+  });
+});
@@ -0,0 +1,132 @@
+const { execSync } = require("child_process");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { resolveComparison } = require("../src/parser/function-detector");
+
+const IDENTITY = {
+  GIT_AUTHOR_NAME: "Test",
+  GIT_AUTHOR_EMAIL: "test@example.com",
+  GIT_COMMITTER_NAME: "Test",
+  GIT_COMMITTER_EMAIL: "test@example.com",
+};
+
+/**
+ * Run git in a directory and return its trimmed output
+ */
+const git = (cwd, command) =>
+  execSync(`git ${command}`, {
+    cwd,
+    env: { ...process.env, ...IDENTITY },
+    stdio: ["ignore", "pipe", "ignore"],
+  })
+    .toString()
+    .trim();
+
+/**
+ * Commit a file change and return the new commit
+ */
+const commit = (cwd, file, content) => {
+  fs.writeFileSync(path.join(cwd, file), content);
+  git(cwd, `add ${file}`);
+  git(cwd, `commit -q -m "${file}"`);
+  return git(cwd, "rev-parse HEAD");
+};
+
+describe("resolveComparison", () => {
+  const cwd = process.cwd();
+  let repo;
+  let shas;
+
+  beforeAll(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), "merge-base-"));
+    git(repo, "init -q -b main");
+    const fork = commit(repo, "a.clar", "(define-constant A u1)");
+    git(repo, "checkout -q -b feature");
+    const feature = commit(repo, "b.clar", "(define-constant B u1)");
+    git(repo, "checkout -q main");
+    const main = commit(repo, "a.clar", "(define-constant A u2)");
+    git(repo, "checkout -q --orphan unrelated");
+    commit(repo, "c.clar", "(define-constant C u1)");
+    git(repo, "checkout -q main");
+    shas = { fork, feature, main };
+    process.chdir(repo);
+  });
+
+  afterAll(() => {
+    process.chdir(cwd);
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  test("diffs from the merge base when the base branch moved on", async () => {
+    await expect(resolveComparison("main", "feature")).resolves.toEqual({
+      baseSha: shas.main,
+      headSha: shas.feature,
+      mergeBaseSha: shas.fork,
+    });
+  });
+
+  test("uses the base itself when it is an ancestor of the head", async () => {
+    const comparison = await resolveComparison(shas.fork, "feature");
+
+    expect(comparison.mergeBaseSha).toBe(shas.fork);
+  });
+
+  test("reports unrelated histories as having no common ancestor", async () => {
+    await expect(resolveComparison("unrelated", "feature")).rejects.toThrow(
+      "unrelated and feature have no common ancestor"
+    );
+  });
+
+  test("fails clearly when a reference does not exist", async () => {
+    await expect(resolveComparison("missing", "feature")).rejects.toThrow(
+      "Could not resolve base reference 'missing'"
+    );
+  });
+});
+
+describe("resolveComparison in a shallow clone", () => {
+  const cwd = process.cwd();
+  let upstream;
+  let clone;
+  let fork;
+
+  beforeAll(() => {
+    upstream = fs.mkdtempSync(path.join(os.tmpdir(), "upstream-"));
+    git(upstream, "init -q -b main");
+    fork = commit(upstream, "a.clar", "(define-constant A u0)");
+    git(upstream, "checkout -q -b feature");
+    for (let i = 1; i <= 3; i++) {
+      commit(upstream, "b.clar", `(define-constant B u${i})`);
+    }
+    git(upstream, "checkout -q main");
+    for (let i = 1; i <= 3; i++) {
+      commit(upstream, "a.clar", `(define-constant A u${i})`);
+    }
+
+    clone = fs.mkdtempSync(path.join(os.tmpdir(), "shallow-"));
+    git(clone, `clone -q --depth 1 --no-single-branch file://${upstream} .`);
+  });
+
+  beforeEach(() => {
+    process.chdir(clone);
+  });
+
+  afterAll(() => {
+    process.chdir(cwd);
+    fs.rmSync(upstream, { recursive: true, force: true });
+    fs.rmSync(clone, { recursive: true, force: true });
+  });
+
+  test("reports an actionable error when the depth limit is reached", async () => {
+    await expect(resolveComparison("main", "feature", 1)).rejects.toThrow(
+      "Set 'fetch-depth: 0' in actions/checkout or raise the 'max_fetch_depth' input."
+    );
+  });
+
+  test("deepens the clone until the merge base is reachable", async () => {
+    const comparison = await resolveComparison("main", "feature");
+
+    expect(comparison.mergeBaseSha).toBe(fork);
+  });
+});
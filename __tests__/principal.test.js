@@ -0,0 +1,62 @@
+const { decodePrincipal, DEFAULT_DEPLOYER } = require("../src/ast/principal");
+
+describe("decodePrincipal", () => {
+  test("decodes the version and hash160 of a standard principal", () => {
+    const principal = decodePrincipal(DEFAULT_DEPLOYER);
+
+    expect(principal.address).toBe(DEFAULT_DEPLOYER);
+    expect(principal.version).toBe(26);
+    expect(Buffer.from(principal.hash160).toString("hex")).toBe(
+      "6d78de7b0625dfbfc16c3a8a5735f6dc3dc3f2ce"
+    );
+    expect(principal).not.toHaveProperty("contractName");
+  });
+
+  test("decodes a contract principal", () => {
+    const principal = decodePrincipal("SP000000000000000000002Q6VF78.pox-4");
+
+    expect(principal).toEqual({
+      address: "SP000000000000000000002Q6VF78",
+      version: 22,
+      hash160: new Array(20).fill(0),
+      contractName: "pox-4",
+    });
+  });
+
+  test("accepts lower case and c32 look-alike characters", () => {
+    const principal = decodePrincipal("sp0ooooooooooooooooooo2q6vf78");
+
+    expect(principal.address).toBe("SP000000000000000000002Q6VF78");
+  });
+
+  test("rejects an address whose checksum does not match", () => {
+    const tampered = `${DEFAULT_DEPLOYER.slice(0, -1)}N`;
+
+    expect(() => decodePrincipal(tampered)).toThrow(
+      "the checksum does not match"
+    );
+  });
+
+  test("rejects an address with a different version", () => {
+    const mainnet = `SP${DEFAULT_DEPLOYER.slice(2)}`;
+
+    expect(() => decodePrincipal(mainnet)).toThrow(
+      "the checksum does not match"
+    );
+  });
+
+  test("rejects characters outside the c32 alphabet", () => {
+    expect(() => decodePrincipal("SP00000000000000000000UQ6VF78")).toThrow(
+      "'U' is not a c32 character"
+    );
+  });
+
+  test("rejects malformed contract names and extra parts", () => {
+    expect(() => decodePrincipal(`${DEFAULT_DEPLOYER}.1token`)).toThrow(
+      "'1token' is not a valid contract name"
+    );
+    expect(() => decodePrincipal(`${DEFAULT_DEPLOYER}.a.b`)).toThrow(
+      "it has more than one '.'"
+    );
+  });
+});
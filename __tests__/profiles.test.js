@@ -0,0 +1,108 @@
+const {
+  ESBMC_PROFILES,
+  formatESBMCOptions,
+  getEscalationSteps,
+  parseESBMCFlags,
+  resolveESBMCOptions,
+} = require("../src/esbmc/profiles");
+
+describe("resolveESBMCOptions", () => {
+  test("returns a copy of the profile's options without overrides", () => {
+    const options = resolveESBMCOptions("k-induction");
+
+    expect(options).toEqual(ESBMC_PROFILES["k-induction"]);
+    options.unwind = "1";
+    expect(ESBMC_PROFILES["k-induction"].unwind).toBe("200");
+  });
+
+  test("removes a profile flag overridden with false", () => {
+    const options = resolveESBMCOptions("k-induction", {
+      "no-unwinding-assertions": false,
+    });
+
+    expect(options).not.toHaveProperty("no-unwinding-assertions");
+    expect(formatESBMCOptions(options)).not.toContain(
+      "--no-unwinding-assertions"
+    );
+  });
+
+  test("replaces values and adds switches", () => {
+    const options = resolveESBMCOptions("quick-bmc", {
+      unwind: "25",
+      "--verbose": true,
+    });
+
+    expect(options.unwind).toBe("25");
+    expect(options.verbose).toBe(true);
+  });
+
+  test("applies overrides in order, so later ones win", () => {
+    const options = resolveESBMCOptions(
+      "quick-bmc",
+      { unwind: "25" },
+      { unwind: false },
+      { "no-bounds-check": false, unwind: "40" }
+    );
+
+    expect(options.unwind).toBe("40");
+    expect(options).not.toHaveProperty("no-bounds-check");
+  });
+
+  test("rejects overriding options set for each function", () => {
+    expect(() =>
+      resolveESBMCOptions("quick-bmc", { "--function": "f" })
+    ).toThrow(
+      "ESBMC option 'function' is set for each function and cannot be overridden"
+    );
+    expect(() =>
+      resolveESBMCOptions("quick-bmc", { clar_contract: "c" })
+    ).toThrow("cannot be overridden");
+  });
+});
+
+describe("parseESBMCFlags", () => {
+  test("reads switches and flags with values", () => {
+    expect(parseESBMCFlags(" --unwind 10  --verbose -k-induction ")).toEqual({
+      unwind: "10",
+      verbose: true,
+      "k-induction": true,
+    });
+  });
+
+  test("rejects a value without a flag", () => {
+    expect(() => parseESBMCFlags("10 --unwind")).toThrow(
+      "Invalid ESBMC flag '10', expected --option"
+    );
+  });
+});
+
+describe("formatESBMCOptions", () => {
+  test("writes switches alone and values after their flag", () => {
+    expect(formatESBMCOptions({ "k-induction": true, unwind: "8" })).toEqual([
+      "--k-induction",
+      "--unwind 8",
+    ]);
+  });
+});
+
+describe("getEscalationSteps", () => {
+  test("raises bounds, then tries incremental BMC for k-induction", () => {
+    const steps = getEscalationSteps(ESBMC_PROFILES["k-induction"]);
+
+    expect(steps.map((s) => s.description)).toEqual([
+      "bounds x2",
+      "bounds x4",
+      "incremental BMC",
+    ]);
+    expect(steps[1].options).toMatchObject({
+      "max-k-step": "24",
+      unwind: "800",
+    });
+    expect(steps[2].options).not.toHaveProperty("k-induction");
+    expect(steps[2].options["incremental-bmc"]).toBe(true);
+  });
+
+  test("has nothing to escalate without bounds or k-induction", () => {
+    expect(getEscalationSteps({ "multi-property": true })).toEqual([]);
+  });
+});
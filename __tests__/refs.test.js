@@ -0,0 +1,81 @@
+const github = require("@actions/github");
+const { resolveRefs } = require("../src/github/refs");
+
+describe("resolveRefs", () => {
+  const original = { ...github.context };
+
+  const setContext = (eventName, payload, sha = "runsha") => {
+    github.context.eventName = eventName;
+    github.context.payload = payload;
+    github.context.sha = sha;
+  };
+
+  afterEach(() => {
+    Object.assign(github.context, original);
+  });
+
+  test("uses the pull request base and head commits", () => {
+    setContext("pull_request_target", {
+      pull_request: {
+        base: { sha: "basesha", ref: "main" },
+        head: { sha: "headsha", ref: "feature" },
+      },
+    });
+
+    expect(resolveRefs("", "")).toEqual({
+      baseRef: "basesha",
+      headRef: "headsha",
+    });
+  });
+
+  test("uses the merge queue base and head commits", () => {
+    setContext("merge_group", {
+      merge_group: { base_sha: "queuebase", head_sha: "queuehead" },
+    });
+
+    expect(resolveRefs("", "")).toEqual({
+      baseRef: "queuebase",
+      headRef: "queuehead",
+    });
+  });
+
+  test("compares a push with the commit before it", () => {
+    setContext("push", { before: "beforesha", after: "aftersha" });
+
+    expect(resolveRefs("", "")).toEqual({
+      baseRef: "beforesha",
+      headRef: "aftersha",
+    });
+  });
+
+  test("compares a push that creates a branch with the default branch", () => {
+    setContext("push", {
+      before: "0000000000000000000000000000000000000000",
+      after: "aftersha",
+      repository: { default_branch: "develop" },
+    });
+
+    expect(resolveRefs("", "")).toEqual({
+      baseRef: "develop",
+      headRef: "aftersha",
+    });
+  });
+
+  test("compares a manual run against the default branch", () => {
+    setContext("workflow_dispatch", {}, "dispatchsha");
+
+    expect(resolveRefs("", "")).toEqual({
+      baseRef: "main",
+      headRef: "dispatchsha",
+    });
+  });
+
+  test("prefers explicit inputs over the event", () => {
+    setContext("push", { before: "beforesha", after: "aftersha" });
+
+    expect(resolveRefs("v1.0.0", "release")).toEqual({
+      baseRef: "v1.0.0",
+      headRef: "release",
+    });
+  });
+});
@@ -0,0 +1,153 @@
+// Jest gives tests a copy of process.env; pass it on so child processes
+// find the fake docker on PATH. Registered before the modules that use it.
+jest.mock("@actions/exec", () => {
+  const actual = jest.requireActual("@actions/exec");
+  return {
+    ...actual,
+    exec: (command, args, options = {}) =>
+      actual.exec(command, args, { env: { ...process.env }, ...options }),
+  };
+});
+
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { ESBMC_PROFILES } = require("../src/esbmc/profiles");
+const { runESBMC, runESBMCWithEscalation } = require("../src/esbmc/runner");
+
+describe("runESBMC", () => {
+  const env = { ...process.env };
+  let workspace;
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), "runner-"));
+    fs.mkdirSync(path.join(workspace, "bin"));
+    fs.symlinkSync(
+      path.join(__dirname, "fixtures", "docker"),
+      path.join(workspace, "bin", "docker")
+    );
+    process.env.PATH = `${path.join(workspace, "bin")}:${env.PATH}`;
+    process.env.FAKE_DOCKER_STATE = workspace;
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  const verify = (limits, options = ESBMC_PROFILES["k-induction"]) =>
+    runESBMC(
+      "contracts/vault.clar",
+      path.join(workspace, "vault.clarast"),
+      "deposit",
+      options,
+      "esbmc",
+      "latest",
+      undefined,
+      [],
+      limits
+    );
+
+  test("reports a run stopped at its time limit as a timeout", async () => {
+    process.env.FAKE_DOCKER_MODE = "sleep";
+
+    const result = await verify({ timeoutSeconds: 0.2 });
+
+    expect(result.status).toBe("timeout");
+  });
+
+  test("reports a run stopped at its memory limit as an error", async () => {
+    process.env.FAKE_DOCKER_MODE = "oom";
+
+    const result = await verify({ memory: "2g" });
+
+    expect(result.status).toBe("error");
+    expect(result.failures[0].failingCode).toMatch(/the 2g memory limit/);
+  });
+
+  test("proves a function with k-induction", async () => {
+    process.env.FAKE_DOCKER_MODE = "verified";
+
+    expect((await verify({})).status).toBe("verified");
+  });
+
+  test.each(["quick-bmc", "incremental-bmc"])(
+    "reports a %s run without a counterexample as unknown",
+    async (profile) => {
+      process.env.FAKE_DOCKER_MODE = "verified";
+
+      const result = await verify({}, ESBMC_PROFILES[profile]);
+
+      expect(result.status).toBe("unknown");
+      expect(result.failures[0].failingCode).toMatch(/up to the bound/);
+    }
+  );
+});
+
+describe("runESBMCWithEscalation", () => {
+  const env = { ...process.env };
+  let workspace;
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), "escalation-"));
+    fs.mkdirSync(path.join(workspace, "bin"));
+    fs.symlinkSync(
+      path.join(__dirname, "fixtures", "docker"),
+      path.join(workspace, "bin", "docker")
+    );
+    process.env.PATH = `${path.join(workspace, "bin")}:${env.PATH}`;
+    process.env.FAKE_DOCKER_STATE = workspace;
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  // One fake docker mode per attempt: the profile, bounds x2 and x4, then
+  // incremental BMC
+  const escalate = (modes) => {
+    process.env.FAKE_DOCKER_MODES = modes;
+    return runESBMCWithEscalation(
+      "contracts/vault.clar",
+      path.join(workspace, "vault.clarast"),
+      "deposit",
+      ESBMC_PROFILES["k-induction"],
+      "esbmc",
+      "latest",
+      undefined,
+      [],
+      { memory: "2g" },
+      { budgetSeconds: 60 }
+    );
+  };
+  const statuses = (result) => result.attempts.map((a) => a.status);
+
+  test("stops at the first verdict", async () => {
+    const result = await escalate("empty falsified verified");
+
+    expect(result.status).toBe("falsified");
+    expect(statuses(result)).toEqual(["unknown", "falsified"]);
+  });
+
+  test("keeps an inconclusive result over a later crash", async () => {
+    const result = await escalate("empty oom");
+
+    expect(result.status).toBe("unknown");
+    expect(result.failures[0].title).toBe("unknown-result");
+    expect(statuses(result)).toEqual(["unknown", "error"]);
+  });
+
+  test("does not count a bounded run without a counterexample as a proof", async () => {
+    const result = await escalate("empty empty empty verified");
+
+    expect(result.status).toBe("unknown");
+    expect(result.failures[0].failingCode).toMatch(/clear verification/);
+    expect(statuses(result)).toEqual([
+      "unknown",
+      "unknown",
+      "unknown",
+      "unknown",
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+const { generateSARIF } = require("../src/sarif/converter");
+
+const failedResult = (file, functionName, status = "falsified") => ({
+  status,
+  failures: [
+    {
+      functionName,
+      lineNumber: 4,
+      title: "arithmetic overflow",
+      failingCode: "(+ a b)",
+    },
+  ],
+  rawOutput: "",
+  clarityFile: file,
+  functionName,
+});
+
+describe("generateSARIF", () => {
+  test("writes one run per project with its own category", () => {
+    const report = generateSARIF([
+      {
+        project: { name: "vault", root: "vault", contracts: [] },
+        changedFunctions: [],
+        esbmcResults: [failedResult("vault/contracts/vault.clar", "deposit")],
+      },
+      {
+        changedFunctions: [],
+        esbmcResults: [failedResult("loose.clar", "add")],
+      },
+    ]);
+
+    expect(report.runs).toHaveLength(2);
+    expect(report.runs[0].automationDetails).toEqual({
+      id: "clarity-verify/vault/",
+    });
+    expect(report.runs[1].automationDetails).toBeUndefined();
+    expect(
+      report.runs.map((run) =>
+        run.results.map((r) => [
+          r.ruleId,
+          r.locations[0].physicalLocation.artifactLocation.uri,
+        ])
+      )
+    ).toEqual([
+      [["clarity-verify-overflow", "vault/contracts/vault.clar"]],
+      [["clarity-verify-overflow", "loose.clar"]],
+    ]);
+  });
+
+  test("marks only falsified results as failures", () => {
+    const report = generateSARIF([
+      {
+        changedFunctions: [],
+        esbmcResults: [
+          failedResult("c.clar", "deposit"),
+          failedResult("c.clar", "withdraw", "timeout"),
+          { ...failedResult("c.clar", "get-balance"), status: "verified" },
+        ],
+      },
+    ]);
+
+    expect(
+      report.runs[0].results.map((r) => [r.properties.status, r.kind, r.level])
+    ).toEqual([
+      ["falsified", undefined, undefined],
+      ["timeout", "open", "none"],
+    ]);
+  });
+});
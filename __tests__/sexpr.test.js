@@ -0,0 +1,94 @@
+const {
+  normalizeClarity,
+  parseSExpressions,
+  tokenizeClarity,
+} = require("../src/parser/sexpr");
+
+describe("tokenizeClarity", () => {
+  test("keeps parentheses inside strings in one token", () => {
+    const tokens = tokenizeClarity('(print "a) (b")');
+
+    expect(tokens.map((t) => t.kind)).toEqual([
+      "lparen",
+      "atom",
+      "string",
+      "rparen",
+    ]);
+    expect(tokens[2].text).toBe('"a) (b"');
+  });
+
+  test("keeps escaped quotes and UTF-8 strings in one token", () => {
+    const tokens = tokenizeClarity('(print u"say \\"(hi\\"")');
+
+    expect(tokens[2]).toMatchObject({
+      kind: "string",
+      text: 'u"say \\"(hi\\""',
+    });
+    expect(tokens[3].kind).toBe("rparen");
+  });
+
+  test("keeps parentheses inside comments in one token", () => {
+    const tokens = tokenizeClarity(";; (define-public (f)\n(ok u1)");
+
+    expect(tokens[0]).toMatchObject({
+      kind: "comment",
+      text: ";; (define-public (f)",
+    });
+    expect(tokens.filter((t) => t.kind === "lparen")).toHaveLength(1);
+  });
+
+  test("gives CRLF and LF sources the same positions", () => {
+    const lf = tokenizeClarity(";; note\n(define-constant A u1)\n");
+    const crlf = tokenizeClarity(";; note\r\n(define-constant A u1)\r\n");
+
+    const positions = (tokens) =>
+      tokens.map(({ text, startLine, startColumn, endLine, endColumn }) => ({
+        text,
+        startLine,
+        startColumn,
+        endLine,
+        endColumn,
+      }));
+    expect(positions(crlf)).toEqual(positions(lf));
+    expect(crlf[0].text).toBe(";; note");
+  });
+
+  test("records offsets into the original content", () => {
+    const content = "(ok\r\n  u1)";
+    const [, , literal] = tokenizeClarity(content);
+
+    expect(content.slice(literal.startOffset, literal.endOffset)).toBe("u1");
+    expect(literal).toMatchObject({ startLine: 2, startColumn: 3 });
+  });
+});
+
+describe("parseSExpressions", () => {
+  test("nests lists without counting parentheses in strings and comments", () => {
+    const [definition] = parseSExpressions(
+      '(define-public (f) ;; (unbalanced\n  (ok ")"))'
+    );
+
+    expect(definition.kind).toBe("list");
+    expect(definition.items).toHaveLength(3);
+    expect(definition.items[2].items[1]).toMatchObject({
+      kind: "string",
+      text: '")"',
+    });
+  });
+});
+
+describe("normalizeClarity", () => {
+  test("ignores comments, indentation and line breaks", () => {
+    expect(
+      normalizeClarity(
+        ";; Adds one\n(define-public (inc)\n    (ok (+ u1 u1))) ;; done"
+      )
+    ).toBe(normalizeClarity("(define-public (inc) (ok (+ u1 u1)))"));
+  });
+
+  test("keeps whitespace that is part of a string", () => {
+    expect(normalizeClarity('(print "a  b")')).not.toBe(
+      normalizeClarity('(print "a b")')
+    );
+  });
+});
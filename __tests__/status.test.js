@@ -0,0 +1,42 @@
+const {
+  countStatuses,
+  getOverallStatus,
+  isInconclusive,
+  isVerificationStatus,
+} = require("../src/esbmc/status");
+
+const results = (...statuses) => statuses.map((status) => ({ status }));
+
+describe("verification statuses", () => {
+  test("recognises only known statuses", () => {
+    expect(isVerificationStatus("timeout")).toBe(true);
+    expect(isVerificationStatus("success")).toBe(false);
+  });
+
+  test("treats unknown and timeout as inconclusive", () => {
+    expect(isInconclusive("unknown")).toBe(true);
+    expect(isInconclusive("timeout")).toBe(true);
+    expect(isInconclusive("error")).toBe(false);
+  });
+
+  test("counts every status, including absent ones", () => {
+    expect(countStatuses(results("verified", "falsified", "verified"))).toEqual(
+      {
+        falsified: 1,
+        error: 0,
+        timeout: 0,
+        unknown: 0,
+        verified: 2,
+        skipped: 0,
+      }
+    );
+  });
+
+  test("reports the most severe status overall", () => {
+    expect(getOverallStatus(results("verified", "timeout", "error"))).toBe(
+      "error"
+    );
+    expect(getOverallStatus(results("skipped", "verified"))).toBe("verified");
+    expect(getOverallStatus([])).toBeUndefined();
+  });
+});
@@ -0,0 +1,272 @@
+const { buildClarast } = require("../src/ast/builder");
+const {
+  applyExternalCallStubs,
+  findMockedContracts,
+  findUntypedExternalCalls,
+  parseImplementedTraits,
+  parseTraitDefinitions,
+  resolveExternalCallConfig,
+  toContractPrincipal,
+} = require("../src/ast/stubs");
+const { validateClarast } = require("../src/ast/validator");
+
+const DEPLOYER = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+const TOKEN = "SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE.token";
+
+describe("toContractPrincipal", () => {
+  test("qualifies contract-relative principals with the deployer", () => {
+    expect(toContractPrincipal(".vault", DEPLOYER)).toBe(`${DEPLOYER}.vault`);
+    expect(toContractPrincipal(".traits.t", DEPLOYER)).toBe(
+      `${DEPLOYER}.traits.t`
+    );
+    expect(toContractPrincipal(`'${TOKEN}`, DEPLOYER)).toBe(TOKEN);
+    expect(toContractPrincipal("tx-sender", DEPLOYER)).toBeUndefined();
+  });
+});
+
+describe("resolveExternalCallConfig", () => {
+  test("parses per-contract strategies and return types", () => {
+    const config = resolveExternalCallConfig("nondet", {
+      [TOKEN]: {
+        strategy: "always-ok",
+        functions: { transfer: "(response bool uint)" },
+      },
+    });
+
+    expect(config).toEqual({
+      strategy: "nondet",
+      contracts: {
+        [TOKEN]: {
+          strategy: "always-ok",
+          functions: {
+            transfer: [
+              "response",
+              "response",
+              "2",
+              [
+                ["bool", "bool", "1"],
+                ["uint", "uint_128", "128"],
+              ],
+            ],
+          },
+        },
+      },
+    });
+  });
+
+  test.each([
+    [["random", {}], "Invalid stub strategy 'random' for external calls"],
+    [["mock", {}], "Mocks are set per contract, not as the default strategy"],
+    [["nondet", { [DEPLOYER]: {} }], "is not a contract principal"],
+    [
+      ["nondet", { [TOKEN]: { strategy: "mock" } }],
+      `The mock strategy for ${TOKEN} needs a mock file`,
+    ],
+    [
+      ["nondet", { [TOKEN]: { functions: { f: "uint" } } }],
+      `The return type of ${TOKEN}.f must be a response type`,
+    ],
+  ])("rejects invalid settings %#", (args, message) => {
+    expect(() => resolveExternalCallConfig(...args)).toThrow(message);
+  });
+});
+
+describe("parseTraitDefinitions", () => {
+  test("reads the return types of trait functions", () => {
+    const traits = parseTraitDefinitions(
+      "(define-trait oracle ((get-price () (response uint uint))))",
+      `${DEPLOYER}.traits`
+    );
+
+    expect(Object.keys(traits)).toEqual([`${DEPLOYER}.traits.oracle`]);
+    expect(traits[`${DEPLOYER}.traits.oracle`]["get-price"][0]).toBe(
+      "response"
+    );
+  });
+});
+
+/**
+ * Render an expression node back into Clarity-like source
+ */
+const render = (node) =>
+  node.args
+    ? `(${[node.identifier, ...node.args.map(render)].join(" ")})`
+    : node.identifier;
+
+const findFunction = (ast, name) =>
+  ast.expressions.find(([, node]) => node.identifier === name)[1];
+
+describe("applyExternalCallStubs", () => {
+  const content = [
+    `(use-trait oracle-trait '${DEPLOYER}.traits.oracle)`,
+    "(define-public (run (oracle <oracle-trait>))",
+    "  (begin",
+    `    (try! (contract-call? '${TOKEN} transfer u1 tx-sender tx-sender none))`,
+    "    (try! (contract-call? .vault deposit u1))",
+    "    (contract-call? oracle get-price)))",
+  ].join("\n");
+  const stubs = (contracts = {}, implementedTraits = {}) => ({
+    config: resolveExternalCallConfig("nondet", contracts),
+    localContracts: ["vault"],
+    traits: parseTraitDefinitions(
+      "(define-trait oracle ((get-price () (response uint uint))))",
+      `${DEPLOYER}.traits`
+    ),
+    implementedTraits,
+  });
+
+  const findCalls = (ast) => {
+    const calls = [];
+    const visit = (node) => {
+      if (node.identifier === "contract-call?") calls.push(node);
+      [...(node.args ?? []), ...(node.body ?? [])].forEach(visit);
+      if (node.value) visit(node.value);
+    };
+    ast.expressions.forEach(([, node]) => visit(node));
+    return calls;
+  };
+
+  test("rewrites external and trait calls into responses over free inputs", () => {
+    const ast = buildClarast(content, { name: "app", path: "app.clar" });
+
+    const count = applyExternalCallStubs(
+      ast,
+      content,
+      stubs({
+        [TOKEN]: {
+          strategy: "always-ok",
+          functions: { transfer: "(response bool uint)" },
+        },
+      }),
+      DEPLOYER
+    );
+
+    expect(count).toBe(2);
+    const run = findFunction(ast, "run");
+    expect(run.args.map((arg) => [arg.identifier, arg.objtype?.[0]])).toEqual([
+      ["oracle", "principal"],
+      ["stub-1-ok", "bool"],
+      ["stub-2-is-ok", "bool"],
+      ["stub-2-ok", "uint"],
+      ["stub-2-err", "uint"],
+    ]);
+    expect(render(run.body[0])).toBe(
+      "(begin (try! (ok stub-1-ok)) (try! (contract-call? .vault deposit u1)) (if stub-2-is-ok (ok stub-2-ok) (err stub-2-err)))"
+    );
+    expect(validateClarast(ast)).toEqual([]);
+  });
+
+  test("passes the inputs of a stub on through the functions calling it", () => {
+    const content = [
+      `(define-private (pay) (contract-call? '${TOKEN} transfer u1))`,
+      "(define-public (checkout) (begin (try! (pay)) (pay)))",
+    ].join("\n");
+    const ast = buildClarast(content, { name: "app", path: "app.clar" });
+
+    applyExternalCallStubs(
+      ast,
+      content,
+      stubs({
+        [TOKEN]: {
+          strategy: "always-ok",
+          functions: { transfer: "(response bool uint)" },
+        },
+      }),
+      DEPLOYER
+    );
+
+    const checkout = findFunction(ast, "checkout");
+    expect(checkout.args.map((arg) => arg.identifier)).toEqual(["stub-1-ok"]);
+    expect(render(checkout.body[0])).toBe(
+      "(begin (try! (pay stub-1-ok)) (pay stub-1-ok))"
+    );
+    expect(render(findFunction(ast, "pay").body[0])).toBe("(ok stub-1-ok)");
+    expect(validateClarast(ast)).toEqual([]);
+  });
+
+  test("fails when a stubbed function is passed by name", () => {
+    const content = [
+      `(define-private (pay (n uint)) (contract-call? '${TOKEN} transfer n))`,
+      "(define-public (pay-all) (ok (map pay (list u1 u2))))",
+    ].join("\n");
+    const ast = buildClarast(content, { name: "app", path: "app.clar" });
+    const settings = stubs({
+      [TOKEN]: { functions: { transfer: "(response bool uint)" } },
+    });
+
+    expect(() =>
+      applyExternalCallStubs(ast, content, settings, DEPLOYER)
+    ).toThrow("Cannot pass stub-1-is-ok to pay, which is passed by name");
+  });
+
+  test("types calls from the traits the called contract implements", () => {
+    const ast = buildClarast(content, { name: "app", path: "app.clar" });
+    const settings = stubs({}, { [TOKEN]: [`${DEPLOYER}.traits.oracle`] });
+    settings.traits[`${DEPLOYER}.traits.oracle`].transfer =
+      settings.traits[`${DEPLOYER}.traits.oracle`]["get-price"];
+
+    expect(applyExternalCallStubs(ast, content, settings, DEPLOYER)).toBe(2);
+    expect(findCalls(ast)).toHaveLength(1);
+  });
+
+  test("leaves calls without a known return type unstubbed", () => {
+    const ast = buildClarast(content, { name: "app", path: "app.clar" });
+
+    expect(applyExternalCallStubs(ast, content, stubs(), DEPLOYER)).toBe(1);
+    expect(findCalls(ast).map((call) => render(call.args[0]))).toEqual([
+      `'${TOKEN}`,
+      ".vault",
+    ]);
+  });
+
+  test("lists mocked contracts and leaves their calls alone", () => {
+    const settings = stubs({
+      [TOKEN]: { strategy: "mock", mock: "mocks/token.clar" },
+    });
+    const ast = buildClarast(content, { name: "app", path: "app.clar" });
+
+    expect(findMockedContracts(content, settings, DEPLOYER)).toEqual([
+      { principal: TOKEN, mock: "mocks/token.clar" },
+    ]);
+    expect(applyExternalCallStubs(ast, content, settings, DEPLOYER)).toBe(1);
+  });
+});
+
+describe("parseImplementedTraits", () => {
+  test("qualifies contract-relative trait references", () => {
+    expect(
+      parseImplementedTraits(
+        `(impl-trait .traits.oracle)\n(impl-trait '${TOKEN}.sip-010)`,
+        `${DEPLOYER}.feed`
+      )
+    ).toEqual([`${DEPLOYER}.traits.oracle`, `${TOKEN}.sip-010`]);
+  });
+});
+
+describe("findUntypedExternalCalls", () => {
+  test("reports functions reaching an untyped call through their callees", () => {
+    const content = [
+      `(define-private (pay) (contract-call? '${TOKEN} transfer u1))`,
+      "(define-public (checkout) (pay))",
+      "(define-read-only (price) (ok u1))",
+    ].join("\n");
+    const stubs = {
+      config: resolveExternalCallConfig("nondet", {}),
+      localContracts: [],
+      traits: {},
+      implementedTraits: {},
+    };
+
+    const untyped = findUntypedExternalCalls(
+      content,
+      "app.clar",
+      stubs,
+      DEPLOYER
+    );
+
+    expect(Object.fromEntries(untyped)).toEqual({
+      pay: [`${TOKEN}.transfer`],
+      checkout: [`${TOKEN}.transfer`],
+    });
+  });
+});
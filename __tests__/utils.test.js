@@ -0,0 +1,174 @@
+// Jest gives tests a copy of process.env; pass it on so child processes
+// find the fake docker on PATH. Registered before the modules that use it.
+jest.mock("@actions/exec", () => {
+  const actual = jest.requireActual("@actions/exec");
+  return {
+    ...actual,
+    exec: (command, args, options = {}) =>
+      actual.exec(command, args, { env: { ...process.env }, ...options }),
+  };
+});
+
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const {
+  ContainerError,
+  runInContainer,
+  runWithConcurrency,
+} = require("../src/utils");
+
+describe("runWithConcurrency", () => {
+  const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  test("returns results in item order whatever order tasks finish in", async () => {
+    const results = await runWithConcurrency([30, 10, 20], 3, async (ms) => {
+      await delay(ms);
+      return ms;
+    });
+
+    expect(results).toEqual([
+      { ok: true, value: 30 },
+      { ok: true, value: 10 },
+      { ok: true, value: 20 },
+    ]);
+  });
+
+  test("never runs more than the limit at once", async () => {
+    let running = 0;
+    let peak = 0;
+
+    await runWithConcurrency(Array.from({ length: 8 }), 3, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await delay(5);
+      running--;
+    });
+
+    expect(peak).toBe(3);
+  });
+
+  test("keeps running the other tasks when one fails", async () => {
+    const error = new Error("boom");
+    const results = await runWithConcurrency([1, 2, 3], 1, async (n) => {
+      if (n === 2) throw error;
+      return n * 10;
+    });
+
+    expect(results).toEqual([
+      { ok: true, value: 10 },
+      { ok: false, error },
+      { ok: true, value: 30 },
+    ]);
+  });
+
+  test("passes each task its item index", async () => {
+    const results = await runWithConcurrency(
+      ["a", "b"],
+      2,
+      async (item, i) => `${item}${i}`
+    );
+
+    expect(results.map((r) => r.value)).toEqual(["a0", "b1"]);
+  });
+
+  test("runs tasks one at a time with a limit below one", async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await runWithConcurrency([1, 2], 0, async (n) => {
+      running++;
+      peak = Math.max(peak, running);
+      await delay(1);
+      running--;
+      return n;
+    });
+
+    expect(peak).toBe(1);
+    expect(results).toHaveLength(2);
+  });
+
+  test("returns no results for no items", async () => {
+    expect(await runWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
+
+describe("runInContainer", () => {
+  const env = { ...process.env };
+  let workspace;
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), "container-"));
+    fs.mkdirSync(path.join(workspace, "bin"));
+    fs.symlinkSync(
+      path.join(__dirname, "fixtures", "docker"),
+      path.join(workspace, "bin", "docker")
+    );
+    process.env.PATH = `${path.join(workspace, "bin")}:${env.PATH}`;
+    process.env.FAKE_DOCKER_LOG = path.join(workspace, "docker.log");
+    process.env.FAKE_DOCKER_STATE = workspace;
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  const run = (limits) =>
+    runInContainer("esbmc", "latest", "esbmc --help", workspace, [], limits);
+  const dockerCalls = () =>
+    fs.readFileSync(path.join(workspace, "docker.log"), "utf8").split("\n");
+
+  test("passes the memory limit to docker run", async () => {
+    await run({ memory: "2g" });
+
+    expect(dockerCalls()).toContainEqual(
+      expect.stringMatching(/^run .*--memory 2g --memory-swap 2g /)
+    );
+  });
+
+  test("kills a container that runs past its time limit", async () => {
+    process.env.FAKE_DOCKER_MODE = "sleep";
+
+    const error = await run({ timeoutSeconds: 0.2 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ContainerError);
+    expect(error.reason).toBe("timeout");
+    expect(dockerCalls()).toContainEqual(
+      expect.stringMatching(/^kill clarity-verify-/)
+    );
+  });
+
+  test("pulls a missing image before running it", async () => {
+    process.env.FAKE_DOCKER_NO_IMAGE = "1";
+
+    // Images are checked once per run, so use one no other test has
+    await runInContainer("esbmc", "7.6", "esbmc --help", workspace);
+
+    expect(dockerCalls().slice(0, 3)).toEqual([
+      "image inspect esbmc:7.6",
+      "pull esbmc:7.6",
+      expect.stringMatching(/^run /),
+    ]);
+  });
+
+  test("reports a container killed at its memory limit", async () => {
+    process.env.FAKE_DOCKER_MODE = "oom";
+
+    const error = await run({ memory: "2g" }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ContainerError);
+    expect(error.reason).toBe("memory");
+    expect(error.message).toMatch(/2g memory limit/);
+  });
+
+  test("reports other failures by exit code", async () => {
+    process.env.FAKE_DOCKER_MODE = "fail";
+
+    const error = await run({ timeoutSeconds: 5 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ContainerError);
+    expect(error.reason).toBe("exit-code");
+    expect(error.message).toMatch(/exit code 1/);
+  });
+});
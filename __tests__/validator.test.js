@@ -0,0 +1,139 @@
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { buildClarast } = require("../src/ast/builder");
+const {
+  createASTInvalidResult,
+  validateASTFile,
+  validateClarast,
+} = require("../src/ast/validator");
+
+const SAMPLE_AST = path.join(__dirname, "..", "sample.clarast");
+const sample = JSON.parse(fs.readFileSync(SAMPLE_AST, "utf8"));
+
+/**
+ * Validate a copy of the sample AST after applying a change to it
+ */
+const validateChanged = (change) => {
+  const ast = JSON.parse(JSON.stringify(sample));
+  change(ast);
+  return validateClarast(ast);
+};
+
+describe("validateClarast", () => {
+  test("accepts the reference AST", () => {
+    expect(validateClarast(sample)).toEqual([]);
+  });
+
+  test("accepts ASTs from the builtin builder", () => {
+    const content = fs.readFileSync(
+      path.join(__dirname, "..", "sample.clar"),
+      "utf8"
+    );
+    expect(
+      validateClarast(buildClarast(content, { name: "c", path: "c.clar" }))
+    ).toEqual([]);
+  });
+
+  test("rejects anything but an object", () => {
+    expect(validateClarast([])).toEqual(["the AST must be a JSON object"]);
+  });
+
+  test.each([
+    [
+      "a missing vars category",
+      (ast) => delete ast.vars.map_declaration,
+      "vars.map_declaration is missing",
+    ],
+    [
+      "a malformed issuer",
+      (ast) => ast.identifier.issuer_raw[1].pop(),
+      "identifier.issuer_raw must be [version, 20 hash bytes] with a version below 32",
+    ],
+    [
+      "a malformed type",
+      (ast) => (ast.types[0] = ["uint"]),
+      "types[0] must be a type of the form [name, kind, size, ...]",
+    ],
+    [
+      "an unknown declaration kind",
+      (ast) => (ast.expressions[0][0] = "event"),
+      "expressions[0][0] has unknown declaration kind 'event'",
+    ],
+    [
+      "an expression without a type",
+      (ast) => delete ast.expressions[1][1].value.type,
+      "expressions[1][1].value.type must be a non-empty string",
+    ],
+    [
+      "a span that ends before it starts",
+      (ast) => (ast.expressions[0][1].span.end_line = 1),
+      "expressions[0][1].span ends before it starts",
+    ],
+    [
+      "a reference to an unknown id",
+      (ast) => (ast.expressions[1][1].value.cid = 9999),
+      "expressions[1][1].value.cid refers to unknown id 9999",
+    ],
+    [
+      "a global that is not a declaration",
+      (ast) => (ast.globals["total-deposits"] = 18),
+      "globals.total-deposits is not the id of a declaration",
+    ],
+    [
+      "an exported function that is not declared",
+      (ast) => ast.exported_functions.push("withdraw"),
+      "exported_functions lists 'withdraw', which is not declared as such",
+    ],
+    [
+      "a function without a return type",
+      (ast) => delete ast.expressions[3][1].return_type,
+      "expressions[3][1].return_type is missing",
+    ],
+    [
+      "chain state that is not a string",
+      (ast) => (ast.stacks_keywords["block-height"] = 1),
+      "stacks_keywords must be an object of strings",
+    ],
+  ])("reports %s", (_, change, problem) => {
+    expect(validateChanged(change)).toEqual([problem]);
+  });
+});
+
+describe("validateASTFile", () => {
+  let dir;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "validator-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("reports files that are not JSON", () => {
+    const file = path.join(dir, "c.clarast");
+    fs.writeFileSync(file, "{ truncated");
+
+    const [problem] = validateASTFile(file);
+    expect(problem).toMatch(/^the AST is not valid JSON: /);
+  });
+});
+
+describe("createASTInvalidResult", () => {
+  test("summarises long problem lists", () => {
+    const problems = Array.from({ length: 12 }, (_, i) => `problem ${i}`);
+
+    const result = createASTInvalidResult("c.clar", "f", problems, "container");
+
+    expect(result.status).toBe("error");
+    expect(result.failures[0]).toMatchObject({
+      functionName: "f",
+      title: "ast-invalid",
+    });
+    expect(result.failures[0].failingCode).toMatch(
+      /^Invalid AST from the container backend: problem 0; .*problem 9; and 2 more$/
+    );
+    expect(result.rawOutput.split("\n")).toHaveLength(12);
+  });
+});
@@ -0,0 +1,1071 @@
+import {
+  ChainContext,
+  ClarastAST,
+  ClarastConstValue,
+  ClarastDeclarationKind,
+  ClarastExpression,
+  ClarastExpressionType,
+  ClarastSpan,
+  ClarastType,
+  ClarastVars,
+  ContractInfo,
+  SourceSpan,
+  StacksPrincipal,
+} from "../types";
+import {
+  isAtom,
+  parseSExpressions,
+  SExpr,
+  SExprAtom,
+  SExprList,
+} from "../parser/sexpr";
+import {
+  BOOL_TYPE,
+  bufferType,
+  collectTypes,
+  compareTypes,
+  INT_TYPE,
+  listType,
+  mergeTypes,
+  NO_TYPE,
+  optionalType,
+  parseTypeSignature,
+  PRINCIPAL_TYPE,
+  responseType,
+  stringType,
+  toMapMemberType,
+  tupleMembers,
+  tupleType,
+  typeComponents,
+  typeSize,
+  UINT_TYPE,
+} from "./clarity-types";
+import {
+  getContractKeywords,
+  getPreviousBlock,
+  openBlockHeights,
+  resolveChainContext,
+} from "./chain-context";
+import { decodePrincipal, DEFAULT_DEPLOYER } from "./principal";
+
+/**
+ * Version of the built-in generator, part of the key cached ASTs are
+ * stored under. Bump it whenever the generated ASTs change.
+ */
+export const BUILTIN_GENERATOR_VERSION = "4";
+
+/**
+ * Types of the Clarity keywords
+ */
+const KEYWORD_TYPES: Record<string, ClarastType> = {
+  "tx-sender": PRINCIPAL_TYPE,
+  "contract-caller": PRINCIPAL_TYPE,
+  "tx-sponsor?": optionalType(PRINCIPAL_TYPE),
+  "block-height": UINT_TYPE,
+  "burn-block-height": UINT_TYPE,
+  "stacks-block-height": UINT_TYPE,
+  "tenure-height": UINT_TYPE,
+  "stx-liquid-supply": UINT_TYPE,
+  "chain-id": UINT_TYPE,
+  "is-in-mainnet": BOOL_TYPE,
+  "is-in-regtest": BOOL_TYPE,
+};
+
+/**
+ * Top-level definitions written to `expressions`, with their kind and the
+ * `vars` category they are listed under
+ */
+const DECLARATIONS: Record<
+  string,
+  { kind: ClarastDeclarationKind; category: keyof ClarastVars }
+> = {
+  "define-map": { kind: "map", category: "map_declaration" },
+  "define-data-var": { kind: "data_var", category: "variable_declaration" },
+  "define-constant": { kind: "constant", category: "constant_declaration" },
+  "define-fungible-token": {
+    kind: "fungible_token",
+    category: "ft_declaration",
+  },
+  "define-non-fungible-token": {
+    kind: "non_fungible_token",
+    category: "nft_declaration",
+  },
+  "define-public": { kind: "public", category: "function_declaration" },
+  "define-read-only": { kind: "read_only", category: "function_declaration" },
+  "define-private": { kind: "private", category: "function_declaration" },
+};
+
+/**
+ * Top-level forms that declare or use traits. They have no node in
+ * `expressions`; trait references in function bodies stay plain variables.
+ */
+const TRAIT_DEFINITIONS = new Set(["define-trait", "use-trait", "impl-trait"]);
+
+/**
+ * Span of expressions that do not appear in the source, such as the
+ * `tuple` operator implied by `{ ... }`
+ */
+const NO_SPAN: ClarastSpan = {
+  end_column: 0,
+  end_line: 0,
+  start_column: 0,
+  start_line: 0,
+};
+
+/**
+ * A name in scope: a top-level definition, function argument, let
+ * variable or match binding
+ */
+interface Binding {
+  id: number;
+  type: ClarastType;
+}
+
+/**
+ * A top-level definition and the atom that names it
+ */
+interface Declaration {
+  keyword: string;
+  expr: SExprList;
+  name: SExprAtom;
+}
+
+/**
+ * State shared while building the AST of one contract
+ */
+interface BuildState {
+  ids: Map<SExpr, number>;
+  globals: Map<string, Binding>;
+  maps: Map<string, { key: ClarastType; value: ClarastType }>;
+  functions: Map<string, Declaration>;
+  functionNodes: Map<string, ClarastExpression>;
+  inProgress: Set<string>;
+}
+
+/**
+ * Types a function can return early with, through `try!`, `unwrap!`,
+ * `unwrap-err!` and `asserts!`
+ */
+type EarlyReturns = ClarastType[];
+
+/**
+ * An expression node together with its inferred type
+ */
+interface Built {
+  node: ClarastExpression;
+  type: ClarastType;
+}
+
+/**
+ * Number every expression in pre-order, the way the Clarity parser does.
+ * A `{ key: value }` literal counts as `(tuple (key value))`: the list,
+ * an implied `tuple` atom, then one list per member.
+ * @param exprs Top-level expressions
+ * @returns Expression ids
+ */
+function assignIds(exprs: SExpr[]): Map<SExpr, number> {
+  const ids = new Map<SExpr, number>();
+  let next = 1;
+
+  const visit = (expr: SExpr): void => {
+    ids.set(expr, next++);
+    if (expr.kind === "tuple") {
+      next++; // implied `tuple` atom
+      for (let i = 0; i < expr.items.length; i += 2) {
+        next++; // member list
+        expr.items.slice(i, i + 2).forEach(visit);
+      }
+    } else if (expr.kind === "list") {
+      expr.items.forEach(visit);
+    }
+  };
+
+  exprs.forEach(visit);
+  return ids;
+}
+
+/**
+ * Convert a source span to .clarast form
+ * @param span Source span
+ * @returns .clarast span
+ */
+function toSpan(span: SourceSpan): ClarastSpan {
+  return {
+    end_column: span.endColumn,
+    end_line: span.endLine,
+    start_column: span.startColumn,
+    start_line: span.startLine,
+  };
+}
+
+/**
+ * Get the id assigned to an expression
+ * @param state Build state
+ * @param expr Expression
+ * @returns Expression id
+ */
+function idOf(state: BuildState, expr: SExpr): number {
+  return state.ids.get(expr) ?? 0;
+}
+
+/**
+ * Build a node for an atom, such as an identifier or operator
+ * @param state Build state
+ * @param atom Atom to describe
+ * @param type Node type
+ * @param cid Id of the declaration the atom refers to; defaults to its own
+ * @returns Expression node
+ */
+function atomNode(
+  state: BuildState,
+  atom: SExprAtom,
+  type: ClarastExpressionType,
+  cid?: number
+): ClarastExpression {
+  const id = idOf(state, atom);
+  return {
+    id,
+    type,
+    span: toSpan(atom),
+    identifier: atom.text,
+    cid: cid ?? id,
+  };
+}
+
+/**
+ * Get the inner type of an optional, or the ok type of a response
+ * @param type Optional or response type
+ * @returns Unwrapped type
+ */
+function unwrappedType(type: ClarastType): ClarastType {
+  return typeComponents(type)[0] ?? NO_TYPE;
+}
+
+/**
+ * Get the type of the value an early return from `try!` would produce
+ * @param type Type of the `try!` argument
+ * @returns Function result type on the failure path
+ */
+function tryFailureType(type: ClarastType): ClarastType {
+  return type[0] === "response"
+    ? responseType(NO_TYPE, typeComponents(type)[1])
+    : optionalType(NO_TYPE);
+}
+
+/**
+ * Infer the type of a call to a native function from its argument types
+ * @param name Native function name
+ * @param args Argument types
+ * @returns Result type, or NO_TYPE if unknown
+ */
+function nativeResultType(name: string, args: ClarastType[]): ClarastType {
+  const [first = NO_TYPE, second = NO_TYPE, third = NO_TYPE] = args;
+
+  switch (name) {
+    case "+":
+    case "-":
+    case "*":
+    case "/":
+    case "mod":
+    case "pow":
+    case "sqrti":
+    case "log2":
+    case "xor":
+    case "bit-and":
+    case "bit-or":
+    case "bit-xor":
+    case "bit-not":
+    case "bit-shift-left":
+    case "bit-shift-right":
+      return first;
+    case "<":
+    case ">":
+    case "<=":
+    case ">=":
+    case "is-eq":
+    case "and":
+    case "or":
+    case "not":
+    case "is-some":
+    case "is-none":
+    case "is-ok":
+    case "is-err":
+    case "is-standard":
+    case "var-set":
+    case "map-set":
+    case "map-insert":
+    case "map-delete":
+    case "asserts!":
+    case "secp256k1-verify":
+      return BOOL_TYPE;
+    case "to-int":
+      return INT_TYPE;
+    case "to-uint":
+    case "len":
+    case "stx-get-balance":
+    case "ft-get-balance":
+    case "ft-get-supply":
+      return UINT_TYPE;
+    case "begin":
+    case "as-contract":
+    case "at-block":
+      return args[args.length - 1] ?? NO_TYPE;
+    case "print":
+      return first;
+    case "filter":
+      return second;
+    case "fold":
+      return third;
+    case "if":
+      return mergeTypes(second, third);
+    case "var-get":
+      return first;
+    case "unwrap!":
+    case "unwrap-panic":
+    case "try!":
+      return unwrappedType(first);
+    case "unwrap-err!":
+    case "unwrap-err-panic":
+      return typeComponents(first)[1] ?? NO_TYPE;
+    case "default-to":
+      return mergeTypes(first, unwrappedType(second));
+    case "list":
+      return listType(args.reduce(mergeTypes, NO_TYPE), args.length);
+    case "append":
+      return listType(
+        mergeTypes(unwrappedType(first), second),
+        typeSize(first) + 1
+      );
+    case "concat":
+      return first[0] === "list"
+        ? listType(
+            mergeTypes(unwrappedType(first), unwrappedType(second)),
+            typeSize(first) + typeSize(second)
+          )
+        : [first[0], first[1], `${typeSize(first) + typeSize(second)}`];
+    case "map":
+      return listType(first, typeSize(second));
+    case "as-max-len?":
+      return optionalType(first);
+    case "element-at":
+    case "element-at?":
+      return optionalType(
+        first[0] === "list" ? unwrappedType(first) : [first[0], first[1], "1"]
+      );
+    case "index-of":
+    case "index-of?":
+      return optionalType(UINT_TYPE);
+    case "sha256":
+    case "keccak256":
+    case "sha512/256":
+      return bufferType(32);
+    case "sha512":
+      return bufferType(64);
+    case "hash160":
+      return bufferType(20);
+    case "secp256k1-recover?":
+      return responseType(bufferType(33), UINT_TYPE);
+    case "stx-transfer?":
+    case "stx-transfer-memo?":
+    case "stx-burn?":
+    case "ft-transfer?":
+    case "ft-mint?":
+    case "ft-burn?":
+    case "nft-transfer?":
+    case "nft-mint?":
+    case "nft-burn?":
+      return responseType(BOOL_TYPE, UINT_TYPE);
+    case "nft-get-owner?":
+      return optionalType(PRINCIPAL_TYPE);
+    case "principal-of?":
+      return responseType(PRINCIPAL_TYPE, UINT_TYPE);
+    case "stx-account":
+      return tupleType([
+        ["locked", UINT_TYPE],
+        ["unlock-height", UINT_TYPE],
+        ["unlocked", UINT_TYPE],
+      ]);
+    case "merge":
+      return tupleType([
+        ...tupleMembers(first).filter(
+          ([name]) => !tupleMembers(second).some(([other]) => other === name)
+        ),
+        ...tupleMembers(second),
+      ]);
+    case "get-block-info?":
+    case "get-burn-block-info?":
+    case "get-stacks-block-info?":
+    case "get-tenure-info?":
+      return optionalType(NO_TYPE);
+    default:
+      return NO_TYPE;
+  }
+}
+
+/**
+ * Build the node for an atom in expression position: a literal, keyword
+ * or reference to something in scope
+ * @param state Build state
+ * @param atom Atom to build
+ * @param scope Local names in scope
+ * @returns Node and type
+ */
+function buildAtom(
+  state: BuildState,
+  atom: SExprAtom,
+  scope: Map<string, Binding>
+): Built {
+  const text = atom.text;
+
+  const binding = scope.get(text) ?? state.globals.get(text);
+  if (binding) {
+    return {
+      node: atomNode(state, atom, "variable", binding.id),
+      type: binding.type,
+    };
+  }
+
+  const func = state.functions.get(text);
+  if (func) {
+    // Functions passed by name to map, filter and fold
+    const declaration = buildFunction(state, func);
+    return {
+      node: atomNode(state, atom, "user_function", declaration.id),
+      type: declaration.return_type ?? NO_TYPE,
+    };
+  }
+
+  if (text === "true" || text === "false") {
+    return { node: atomNode(state, atom, "lit_bool"), type: BOOL_TYPE };
+  }
+  if (text === "none") {
+    return {
+      node: atomNode(state, atom, "lit_none"),
+      type: optionalType(NO_TYPE),
+    };
+  }
+  if (/^u\d+$/.test(text)) {
+    return { node: atomNode(state, atom, "lit_uint"), type: UINT_TYPE };
+  }
+  if (/^-?\d+$/.test(text)) {
+    return { node: atomNode(state, atom, "lit_int"), type: INT_TYPE };
+  }
+  if (/^0x[0-9a-fA-F]*$/.test(text)) {
+    return {
+      node: atomNode(state, atom, "lit_buff"),
+      type: bufferType((text.length - 2) / 2),
+    };
+  }
+  if (text.startsWith("'") || text.startsWith(".")) {
+    return {
+      node: atomNode(state, atom, "lit_principal"),
+      type: PRINCIPAL_TYPE,
+    };
+  }
+  if (text in KEYWORD_TYPES) {
+    return {
+      node: atomNode(state, atom, "keyword"),
+      type: KEYWORD_TYPES[text],
+    };
+  }
+
+  // Unresolved names, such as trait aliases, are kept as plain variables
+  return { node: atomNode(state, atom, "variable"), type: NO_TYPE };
+}
+
+/**
+ * Build the node for a string literal
+ * @param state Build state
+ * @param atom String literal
+ * @returns Node and type
+ */
+function buildString(state: BuildState, atom: SExprAtom): Built {
+  const utf8 = atom.text.startsWith("u");
+  const body = atom.text.slice(utf8 ? 2 : 1, -1).replace(/\\./g, "_");
+  return {
+    node: atomNode(state, atom, utf8 ? "lit_utf8" : "lit_ascii"),
+    type: stringType(utf8 ? "string-utf8" : "string-ascii", body.length),
+  };
+}
+
+/**
+ * Build a tuple literal from its `key value` pairs
+ * @param state Build state
+ * @param items Keys and values, alternating
+ * @param id Id of the tuple node
+ * @param span Span of the tuple node
+ * @param scope Local names in scope
+ * @param returns Early returns of the enclosing function
+ * @returns Node and type
+ */
+function buildTuple(
+  state: BuildState,
+  items: SExpr[],
+  id: number,
+  span: ClarastSpan,
+  scope: Map<string, Binding>,
+  returns: EarlyReturns
+): Built {
+  const args: ClarastExpression[] = [];
+  const members: [string, ClarastType][] = [];
+
+  for (let i = 0; i + 1 < items.length; i += 2) {
+    const key = items[i];
+    if (!isAtom(key)) continue;
+
+    const value = buildExpression(state, items[i + 1], scope, returns);
+    args.push({ ...atomNode(state, key, "tuple_key"), value: value.node });
+    members.push([key.text, value.type]);
+  }
+
+  return {
+    node: {
+      args,
+      id,
+      type: "tuple_object",
+      span,
+      identifier: "tuple",
+      cid: id,
+    },
+    type: tupleType(members),
+  };
+}
+
+/**
+ * Build the node for any expression in a function body or initial value
+ * @param state Build state
+ * @param expr Expression to build
+ * @param scope Local names in scope
+ * @param returns Early returns of the enclosing function, added to in place
+ * @returns Node and type
+ */
+function buildExpression(
+  state: BuildState,
+  expr: SExpr,
+  scope: Map<string, Binding>,
+  returns: EarlyReturns
+): Built {
+  if (expr.kind === "string") {
+    return buildString(state, expr);
+  }
+  if (isAtom(expr)) {
+    return buildAtom(state, expr, scope);
+  }
+  if (expr.kind === "tuple") {
+    return buildTuple(
+      state,
+      expr.items,
+      idOf(state, expr) + 1,
+      NO_SPAN,
+      scope,
+      returns
+    );
+  }
+
+  const [operator, ...operands] = expr.items;
+  const build = (item: SExpr, inner = scope): Built =>
+    buildExpression(state, item, inner, returns);
+
+  if (!isAtom(operator)) {
+    // Not a call; keep the contents so nothing is silently lost
+    const items = expr.items.map((item) => build(item));
+    return {
+      node: {
+        args: items.map((item) => item.node),
+        id: idOf(state, expr),
+        type: "native_function",
+        span: toSpan(expr),
+        identifier: "",
+        cid: idOf(state, expr),
+      },
+      type: NO_TYPE,
+    };
+  }
+
+  const call = (
+    type: ClarastExpressionType,
+    args: ClarastExpression[],
+    resultType: ClarastType,
+    cid?: number
+  ): Built => ({
+    node: { args, ...atomNode(state, operator, type, cid) },
+    type: resultType,
+  });
+
+  switch (operator.text) {
+    case "let":
+      return buildLet(state, operator, operands, scope, returns);
+    case "match":
+      return buildMatch(state, operator, operands, scope, returns);
+    case "tuple": {
+      // (tuple (key value) ...) is the long form of { key: value, ... }
+      const pairs = operands.flatMap((pair) =>
+        pair.kind === "list" ? pair.items.slice(0, 2) : []
+      );
+      return buildTuple(
+        state,
+        pairs,
+        idOf(state, operator),
+        toSpan(operator),
+        scope,
+        returns
+      );
+    }
+    case "get": {
+      const [key, tuple] = operands;
+      const built = tuple ? build(tuple) : { node: undefined, type: NO_TYPE };
+      const source =
+        built.type[0] === "optional" ? unwrappedType(built.type) : built.type;
+      const member = tupleMembers(source).find(
+        ([name]) => isAtom(key) && name === key.text
+      );
+      const memberType = member ? member[1] : NO_TYPE;
+      return call(
+        "native_function",
+        [
+          ...(isAtom(key) ? [atomNode(state, key, "tuple_key")] : []),
+          ...(built.node ? [built.node] : []),
+        ],
+        built.type[0] === "optional" ? optionalType(memberType) : memberType
+      );
+    }
+    case "ok":
+    case "err":
+    case "some": {
+      const value = operands[0] ? build(operands[0]) : undefined;
+      const valueType = value?.type ?? NO_TYPE;
+      const resultType =
+        operator.text === "some"
+          ? optionalType(valueType)
+          : operator.text === "ok"
+          ? responseType(valueType, NO_TYPE)
+          : responseType(NO_TYPE, valueType);
+      return call(
+        operator.text === "some"
+          ? "optional_expression"
+          : "response_expression",
+        value ? [value.node] : [],
+        resultType
+      );
+    }
+  }
+
+  const args = operands.map((operand) => build(operand));
+  const argTypes = args.map((arg) => arg.type);
+  const argNodes = args.map((arg) => arg.node);
+
+  const func = state.functions.get(operator.text);
+  if (func) {
+    const declaration = buildFunction(state, func);
+    return call(
+      "user_function",
+      argNodes,
+      declaration.return_type ?? NO_TYPE,
+      declaration.id
+    );
+  }
+
+  // Record the values a function can exit with before reaching its end
+  switch (operator.text) {
+    case "try!":
+      returns.push(tryFailureType(argTypes[0] ?? NO_TYPE));
+      break;
+    case "unwrap!":
+    case "unwrap-err!":
+    case "asserts!":
+      returns.push(argTypes[1] ?? NO_TYPE);
+      break;
+  }
+
+  let resultType = nativeResultType(operator.text, argTypes);
+  if (operator.text === "map-get?" && isAtom(operands[0])) {
+    const map = state.maps.get(operands[0].text);
+    resultType = optionalType(map?.value ?? NO_TYPE);
+  }
+  return call("native_function", argNodes, resultType);
+}
+
+/**
+ * Build a `let` expression. Bindings are in scope for the bindings that
+ * follow them and for the body.
+ * @param state Build state
+ * @param operator The `let` atom
+ * @param operands Bindings list followed by the body
+ * @param scope Local names in scope
+ * @param returns Early returns of the enclosing function
+ * @returns Node and type
+ */
+function buildLet(
+  state: BuildState,
+  operator: SExprAtom,
+  operands: SExpr[],
+  scope: Map<string, Binding>,
+  returns: EarlyReturns
+): Built {
+  const [bindings, ...body] = operands;
+  const inner = new Map(scope);
+  const declarations: ClarastExpression[] = [];
+
+  for (const binding of bindings?.kind === "list" ? bindings.items : []) {
+    if (binding.kind !== "list" || !isAtom(binding.items[0])) continue;
+
+    const [name, value] = binding.items;
+    const built = value
+      ? buildExpression(state, value, inner, returns)
+      : undefined;
+    const declaration = {
+      ...atomNode(state, name, "let_variable_declaration"),
+      body: built ? [built.node] : [],
+    };
+    declarations.push(declaration);
+    inner.set(name.text, {
+      id: declaration.id,
+      type: built?.type ?? NO_TYPE,
+    });
+  }
+
+  const builtBody = body.map((expr) =>
+    buildExpression(state, expr, inner, returns)
+  );
+  return {
+    node: {
+      args: declarations,
+      ...atomNode(state, operator, "native_function"),
+      body: builtBody.map((expr) => expr.node),
+    },
+    type: builtBody[builtBody.length - 1]?.type ?? NO_TYPE,
+  };
+}
+
+/**
+ * Build a `match` expression. Each binding is declared with the branch
+ * it is in scope for as its body.
+ * @param state Build state
+ * @param operator The `match` atom
+ * @param operands Input, then the bindings and branches
+ * @param scope Local names in scope
+ * @param returns Early returns of the enclosing function
+ * @returns Node and type
+ */
+function buildMatch(
+  state: BuildState,
+  operator: SExprAtom,
+  operands: SExpr[],
+  scope: Map<string, Binding>,
+  returns: EarlyReturns
+): Built {
+  const [input, ...branches] = operands;
+  const built = input
+    ? buildExpression(state, input, scope, returns)
+    : { node: undefined, type: NO_TYPE };
+  const components = typeComponents(built.type);
+
+  const args: ClarastExpression[] = built.node ? [built.node] : [];
+  let resultType = NO_TYPE;
+
+  // (match opt name some-branch none-branch) or
+  // (match resp ok-name ok-branch err-name err-branch)
+  for (let i = 0, component = 0; i < branches.length; component++) {
+    const name = branches[i];
+    const hasBinding = isAtom(name) && i + 1 < branches.length;
+    const branch = hasBinding ? branches[i + 1] : branches[i];
+
+    const inner = new Map(scope);
+    if (hasBinding) {
+      inner.set(name.text, {
+        id: idOf(state, name),
+        type: components[component] ?? NO_TYPE,
+      });
+    }
+    const result = buildExpression(state, branch, inner, returns);
+    resultType = mergeTypes(resultType, result.type);
+
+    args.push(
+      hasBinding
+        ? { ...atomNode(state, name, "match_binding"), body: [result.node] }
+        : result.node
+    );
+    i += hasBinding ? 2 : 1;
+  }
+
+  return {
+    node: { args, ...atomNode(state, operator, "native_function") },
+    type: resultType,
+  };
+}
+
+/**
+ * Build a function declaration, inferring its return type from its body
+ * and early returns. Results are cached so callers can use the return
+ * type of functions declared later in the file.
+ * @param state Build state
+ * @param declaration Function definition
+ * @returns Function declaration node
+ */
+function buildFunction(
+  state: BuildState,
+  declaration: Declaration
+): ClarastExpression {
+  const name = declaration.name.text;
+  const cached = state.functionNodes.get(name);
+  if (cached) {
+    return cached;
+  }
+
+  const id = idOf(state, declaration.name);
+  if (state.inProgress.has(name)) {
+    // Clarity rejects recursion; stop rather than loop forever
+    return { ...atomNode(state, declaration.name, "function_declaration") };
+  }
+  state.inProgress.add(name);
+
+  const [, signature, ...body] = declaration.expr.items;
+  const scope = new Map<string, Binding>();
+  const args: ClarastExpression[] = [];
+
+  for (const param of signature?.kind === "list"
+    ? signature.items.slice(1)
+    : []) {
+    if (param.kind !== "list" || !isAtom(param.items[0])) continue;
+
+    const objtype = parseTypeSignature(param.items[1]);
+    args.push({
+      ...atomNode(state, param.items[0], "function_argument"),
+      objtype,
+    });
+    scope.set(param.items[0].text, {
+      id: idOf(state, param.items[0]),
+      type: objtype,
+    });
+  }
+
+  const returns: EarlyReturns = [];
+  const builtBody = body.map((expr) =>
+    buildExpression(state, expr, scope, returns)
+  );
+  const returnType = returns.reduce(
+    mergeTypes,
+    builtBody[builtBody.length - 1]?.type ?? NO_TYPE
+  );
+
+  const node: ClarastExpression = {
+    args,
+    id,
+    type: "function_declaration",
+    span: toSpan(declaration.expr),
+    body: builtBody.map((expr) => expr.node),
+    identifier: name,
+    return_type: returnType,
+    cid: id,
+  };
+
+  state.inProgress.delete(name);
+  state.functionNodes.set(name, node);
+  return node;
+}
+
+/**
+ * Find the top-level definitions that .clarast describes. Trait
+ * definitions have no node of their own and are skipped; anything else
+ * at the top level cannot be represented.
+ * @param exprs Top-level expressions
+ * @returns Declarations in source order
+ */
+function findDeclarations(exprs: SExpr[]): Declaration[] {
+  const declarations: Declaration[] = [];
+
+  for (const expr of exprs) {
+    const keyword =
+      expr.kind === "list" && isAtom(expr.items[0]) ? expr.items[0].text : "";
+    if (TRAIT_DEFINITIONS.has(keyword)) continue;
+    if (!(keyword in DECLARATIONS) || expr.kind !== "list") {
+      throw new Error(
+        `Unsupported top-level expression at line ${expr.startLine}${
+          keyword ? ` (${keyword})` : ""
+        }`
+      );
+    }
+
+    // Functions are named by the first atom of their signature
+    const target = expr.items[1];
+    const name =
+      target?.kind === "list" ? target.items[0] : (target as SExpr | undefined);
+    if (isAtom(name)) {
+      declarations.push({ keyword, expr, name });
+    }
+  }
+
+  return declarations;
+}
+
+/**
+ * Build the .clarast representation of a Clarity contract: its
+ * declarations with typed, span-annotated expression trees, the function
+ * lists and the global ids the ESBMC Clarity frontend reads. Block
+ * heights read in functions become free inputs when the chain context
+ * leaves them open.
+ * @param content Clarity source of the contract
+ * @param contract Contract name and language settings
+ * @param chain Chain state the contract is verified against
+ * @param deployer Principal that deploys the contract
+ * @returns .clarast AST
+ */
+export function buildClarast(
+  content: string,
+  contract: ContractInfo,
+  chain: ChainContext = resolveChainContext(),
+  deployer: StacksPrincipal = decodePrincipal(DEFAULT_DEPLOYER)
+): ClarastAST {
+  const exprs = parseSExpressions(content);
+  const declarations = findDeclarations(exprs);
+  const stacksKeywords = getContractKeywords(chain.stacksKeywords, contract);
+
+  const state: BuildState = {
+    ids: assignIds(exprs),
+    globals: new Map(),
+    maps: new Map(),
+    functions: new Map(),
+    functionNodes: new Map(),
+    inProgress: new Set(),
+  };
+
+  // Register every name first: Clarity definitions may refer to each
+  // other regardless of their order in the file
+  for (const { keyword, expr, name } of declarations) {
+    const id = idOf(state, name);
+    const [, , first, second] = expr.items;
+
+    switch (keyword) {
+      case "define-map": {
+        const key = parseTypeSignature(first);
+        const value = parseTypeSignature(second);
+        state.maps.set(name.text, { key, value });
+        state.globals.set(name.text, { id, type: value });
+        break;
+      }
+      case "define-data-var":
+        state.globals.set(name.text, { id, type: parseTypeSignature(first) });
+        break;
+      case "define-fungible-token":
+        state.globals.set(name.text, { id, type: UINT_TYPE });
+        break;
+      case "define-non-fungible-token":
+        state.globals.set(name.text, { id, type: parseTypeSignature(first) });
+        break;
+      case "define-constant":
+        state.globals.set(name.text, { id, type: NO_TYPE });
+        break;
+      default:
+        state.functions.set(name.text, { keyword, expr, name });
+    }
+  }
+
+  const expressions: [ClarastDeclarationKind, ClarastExpression][] = [];
+  const constValues: Record<string, ClarastConstValue> = {};
+  // The frontend always expects these three; others only when present
+  const vars: ClarastVars = {
+    variable_declaration: [],
+    function_declaration: [],
+    map_declaration: [],
+  };
+  const types = new Map<string, ClarastType>();
+
+  for (const declaration of declarations) {
+    const { keyword, expr, name } = declaration;
+    const { kind, category } = DECLARATIONS[keyword];
+    const id = idOf(state, name);
+    const [, , first, second] = expr.items;
+    (vars[category] ??= []).push(name.text);
+
+    if (state.functions.has(name.text)) {
+      const node = buildFunction(state, declaration);
+      expressions.push([kind, node]);
+      node.args?.forEach(
+        (arg) => arg.objtype && collectTypes(arg.objtype, types)
+      );
+      collectTypes(node.return_type ?? NO_TYPE, types);
+      continue;
+    }
+
+    const node: ClarastExpression = {
+      ...atomNode(state, name, category),
+      span: toSpan(expr),
+    };
+
+    if (keyword === "define-map") {
+      const map = state.maps.get(name.text) ?? { key: NO_TYPE, value: NO_TYPE };
+      const keytype = toMapMemberType(map.key);
+      const valtype = toMapMemberType(map.value);
+      node.objtype = ["map", "map", "1", keytype, valtype];
+      constValues[name.text] = { type: { keytype, valtype }, value: null };
+      collectTypes(map.key, types);
+      collectTypes(map.value, types);
+    } else {
+      // Data variables and NFTs declare a type before their value;
+      // constants and fungible tokens start with the value
+      const declared = state.globals.get(name.text)?.type ?? NO_TYPE;
+      const valueExpr =
+        keyword === "define-data-var"
+          ? second
+          : keyword === "define-non-fungible-token"
+          ? undefined
+          : first;
+      const value = valueExpr
+        ? buildExpression(state, valueExpr, new Map(), [])
+        : undefined;
+      const objtype =
+        keyword === "define-constant" ? value?.type ?? NO_TYPE : declared;
+      state.globals.set(name.text, { id, type: objtype });
+
+      if (value) {
+        node.value = value.node;
+      }
+      node.objtype = objtype;
+      if (keyword === "define-data-var" || keyword === "define-constant") {
+        constValues[name.text] = { type: objtype, value: value?.node ?? null };
+      }
+      collectTypes(objtype, types);
+    }
+
+    expressions.push([kind, node]);
+  }
+
+  const globals: Record<string, number> = {};
+  for (const { name } of [...declarations].sort((a, b) =>
+    a.name.text < b.name.text ? -1 : 1
+  )) {
+    globals[name.text] = idOf(state, name);
+  }
+
+  const ast: ClarastAST = {
+    vars,
+    identifier: {
+      contract_name: contract.name,
+      issuer_principal: deployer.address,
+      issuer_raw: [deployer.version, [...deployer.hash160]],
+      ...(contract.clarityVersion !== undefined && {
+        clarity_version: contract.clarityVersion,
+      }),
+      ...(contract.epoch !== undefined && { epoch: contract.epoch }),
+    },
+    types: Array.from(types.values()).sort(compareTypes),
+    expressions,
+    backfill: {},
+    const_values: constValues,
+    exported_functions: declarations
+      .filter(
+        (d) => d.keyword === "define-public" || d.keyword === "define-read-only"
+      )
+      .map((d) => d.name.text),
+    globals,
+    private_functions: declarations
+      .filter((d) => d.keyword === "define-private")
+      .map((d) => d.name.text),
+    previous_block: getPreviousBlock(stacksKeywords),
+    stacks_keywords: stacksKeywords,
+  };
+  if (chain.nondeterministicBlockHeight) {
+    openBlockHeights(ast);
+  }
+  return ast;
+}
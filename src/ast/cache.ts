@@ -0,0 +1,131 @@
+import * as cache from "@actions/cache";
+import * as crypto from "crypto";
+import * as os from "os";
+import * as path from "path";
+import {
+  ASTBackend,
+  ChainContext,
+  ContractInfo,
+  ExternalCallStubs,
+  StacksPrincipal,
+} from "../types";
+import { Logger } from "../utils";
+
+/**
+ * Prefix of the Actions cache keys ASTs are saved under
+ */
+const AST_CACHE_PREFIX = "clarity-verify-ast-";
+
+/**
+ * Get the directory generated ASTs are written to. It lives under
+ * RUNNER_TEMP, so it is shared by every step of a job but never part of
+ * the checkout.
+ * @returns Absolute path of the AST work directory
+ */
+export function getASTWorkDir(): string {
+  return path.join(
+    process.env.RUNNER_TEMP || os.tmpdir(),
+    "clarity-verify",
+    "ast"
+  );
+}
+
+/**
+ * Compute the key a generated AST is stored under. Everything that ends
+ * up in the AST is hashed, so a cached AST is only reused when it would
+ * be generated identically.
+ * @param content Clarity source of the contract
+ * @param backend Backend generating the AST
+ * @param generatorVersion Version of that backend
+ * @param contract Contract name and language settings
+ * @param chain Chain state the contract is verified against
+ * @param deployer Principal that deploys the contract
+ * @param stubs Stub settings for calls into external contracts
+ * @returns Hex SHA-256 key
+ */
+export function getASTCacheKey(
+  content: string,
+  backend: ASTBackend,
+  generatorVersion: string,
+  contract: ContractInfo,
+  chain: ChainContext,
+  deployer: StacksPrincipal,
+  stubs: ExternalCallStubs
+): string {
+  return crypto
+    .createHash("sha256")
+    .update(
+      JSON.stringify({
+        backend,
+        generatorVersion,
+        contract: {
+          name: contract.name,
+          clarityVersion: contract.clarityVersion,
+          epoch: contract.epoch,
+        },
+        stacksKeywords: chain.stacksKeywords,
+        nondeterministicBlockHeight: chain.nondeterministicBlockHeight,
+        deployer: deployer.address,
+        stubs,
+        content,
+      })
+    )
+    .digest("hex");
+}
+
+/**
+ * Restore a generated AST saved by an earlier run from the Actions cache.
+ * Each AST is its own cache entry, stored under the hash of everything
+ * that ends up in it, so only an AST that would be generated identically
+ * is restored. Failures are logged and otherwise ignored; the AST is then
+ * generated again.
+ * @param astFile Path the AST is restored to
+ * @param key Key from `getASTCacheKey`
+ * @returns True if the AST was restored
+ */
+export async function restoreCachedAST(
+  astFile: string,
+  key: string
+): Promise<boolean> {
+  if (!cache.isFeatureAvailable()) {
+    Logger.debug("The Actions cache is not available, not restoring ASTs");
+    return false;
+  }
+
+  try {
+    const restored = await cache.restoreCache(
+      [astFile],
+      `${AST_CACHE_PREFIX}${key}`
+    );
+    if (restored) {
+      Logger.info(`Restored cached AST ${path.basename(astFile)}`);
+    }
+    return restored !== undefined;
+  } catch (error) {
+    Logger.warning(`Failed to restore cached AST: ${error}`);
+    return false;
+  }
+}
+
+/**
+ * Save a generated AST to the Actions cache, so later runs restore it
+ * instead of generating it again
+ * @param astFile Path of the AST
+ * @param key Key from `getASTCacheKey`
+ */
+export async function saveCachedAST(
+  astFile: string,
+  key: string
+): Promise<void> {
+  if (!cache.isFeatureAvailable()) {
+    return;
+  }
+
+  try {
+    await cache.saveCache([astFile], `${AST_CACHE_PREFIX}${key}`);
+    Logger.info(`Saved ${path.basename(astFile)} to the Actions cache`);
+  } catch (error) {
+    // Another job may have saved the same AST first
+    Logger.warning(`Failed to save AST to the Actions cache: ${error}`);
+  }
+}
@@ -0,0 +1,212 @@
+import {
+  ChainContext,
+  ClarastAST,
+  ContractInfo,
+  FreeInputSite,
+  NetworkPreset,
+} from "../types";
+import { compareEpochs, isKeywordAvailable } from "../parser/clarity-version";
+import { UINT_TYPE } from "./clarity-types";
+import { addFreeInputs, walk } from "./inputs";
+
+/**
+ * Keywords holding block heights, made nondeterministic on request
+ */
+const HEIGHT_KEYWORDS = [
+  "block-height",
+  "burn-block-height",
+  "stacks-block-height",
+  "tenure-height",
+];
+
+/**
+ * Keyword values of each network. Heights and supply are a recent
+ * snapshot; override them when a contract depends on specific values.
+ */
+export const NETWORK_PRESETS: Record<NetworkPreset, Record<string, string>> = {
+  mainnet: {
+    "block-height": "u928576",
+    "burn-block-height": "u891469",
+    "chain-id": "u1",
+    "is-in-mainnet": "true",
+    "is-in-regtest": "false",
+    "stacks-block-height": "u928576",
+    "stx-liquid-supply": "u1520566748414280",
+    "tenure-height": "u3",
+  },
+  testnet: {
+    "block-height": "u928576",
+    "burn-block-height": "u891469",
+    "chain-id": "u2147483648",
+    "is-in-mainnet": "false",
+    "is-in-regtest": "false",
+    "stacks-block-height": "u928576",
+    "stx-liquid-supply": "u1520566748414280",
+    "tenure-height": "u3",
+  },
+  devnet: {
+    "block-height": "u928576",
+    "burn-block-height": "u891469",
+    "chain-id": "u2147483648",
+    "is-in-mainnet": "false",
+    "is-in-regtest": "true",
+    "stacks-block-height": "u928576",
+    "stx-liquid-supply": "u1520566748414280",
+    "tenure-height": "u3",
+  },
+};
+
+/**
+ * Network used when neither the inputs nor the config file choose one
+ */
+export const DEFAULT_NETWORK: NetworkPreset = "devnet";
+
+/**
+ * Check if a value names a network preset
+ * @param value Value to check
+ * @returns True if the value is a known network
+ */
+export function isNetworkPreset(value: string): value is NetworkPreset {
+  return value in NETWORK_PRESETS;
+}
+
+/**
+ * Build the chain context a contract is verified in: a network preset,
+ * with individual keywords overridden and, optionally, block heights left
+ * open so every value is explored. The keywords always hold literal
+ * values; open heights are added to the AST by `openBlockHeights`.
+ * @param network Network preset
+ * @param overrides Keyword values replacing the preset's, as Clarity literals
+ * @param nondeterministicBlockHeight Treat block heights as any value
+ * @returns Chain context
+ */
+export function resolveChainContext(
+  network: NetworkPreset = DEFAULT_NETWORK,
+  overrides: Record<string, string> = {},
+  nondeterministicBlockHeight = false
+): ChainContext {
+  const preset = NETWORK_PRESETS[network];
+  const stacksKeywords = { ...preset };
+
+  for (const [key, value] of Object.entries(overrides)) {
+    if (!(key in preset)) {
+      throw new Error(
+        `Unknown chain context keyword '${key}', expected one of: ${Object.keys(
+          preset
+        ).join(", ")}`
+      );
+    }
+    if (!/^(u\d+|true|false)$/.test(value)) {
+      throw new Error(
+        `Invalid value '${value}' for ${key}, expected a uint (u123), true or false`
+      );
+    }
+    stacksKeywords[key] = value;
+  }
+
+  return { network, stacksKeywords, nondeterministicBlockHeight };
+}
+
+/**
+ * Get the state of the block before the verified transaction: the
+ * Stacks block height is one lower, everything else is unchanged
+ * @param stacksKeywords Keyword values of the current block
+ * @returns Previous block values
+ */
+export function getPreviousBlock(
+  stacksKeywords: Record<string, string>
+): Record<string, string> {
+  const previous = (keyword: string, offset: number): string => {
+    const value = stacksKeywords[keyword];
+    const height = /^u(\d+)$/.exec(value) ? Number(value.slice(1)) : NaN;
+    return Number.isSafeInteger(height) && height >= offset
+      ? `u${height - offset}`
+      : value;
+  };
+
+  const previousBlock: Record<string, string> = {
+    "block-height": previous("block-height", 1),
+    "burn-block-height": previous("burn-block-height", 0),
+    "stacks-block-height": previous("stacks-block-height", 1),
+    "stx-liquid-supply": previous("stx-liquid-supply", 0),
+  };
+
+  // Keywords the contract's Clarity version does not have are left out
+  return Object.fromEntries(
+    Object.entries(previousBlock).filter(([, value]) => value !== undefined)
+  );
+}
+
+/**
+ * Get the keywords a contract sees. A contract with a known Clarity
+ * version only gets the keywords of that version. From epoch 3.0 on,
+ * `block-height` in Clarity 1 and 2 contracts returns the tenure height.
+ * @param stacksKeywords Keyword values of the chain context
+ * @param contract Contract name and language settings
+ * @returns Keyword values for the contract
+ */
+export function getContractKeywords(
+  stacksKeywords: Record<string, string>,
+  contract: ContractInfo
+): Record<string, string> {
+  const { clarityVersion, epoch } = contract;
+  if (clarityVersion === undefined) {
+    return { ...stacksKeywords };
+  }
+
+  const keywords = Object.fromEntries(
+    Object.entries(stacksKeywords).filter(([keyword]) =>
+      isKeywordAvailable(keyword, clarityVersion)
+    )
+  );
+  if (
+    "block-height" in keywords &&
+    epoch !== undefined &&
+    compareEpochs(epoch, "3.0") >= 0 &&
+    stacksKeywords["tenure-height"] !== undefined
+  ) {
+    keywords["block-height"] = stacksKeywords["tenure-height"];
+  }
+  return keywords;
+}
+
+/**
+ * Replace the block heights read in function bodies by free inputs, so
+ * that ESBMC explores every height. Each keyword becomes one `uint`
+ * input, e.g. `nondet-block-height`, shared by all the functions reading
+ * it. Heights read outside functions, such as in constants, and those of
+ * the previous block keep the values of the chain context.
+ * @param ast AST of the contract with its chain state, modified in place
+ * @returns Number of heights replaced
+ */
+export function openBlockHeights(ast: ClarastAST): number {
+  const sites: FreeInputSite[] = [];
+  for (const [, declaration] of ast.expressions) {
+    if (declaration.type !== "function_declaration") {
+      continue;
+    }
+    for (const statement of declaration.body ?? []) {
+      walk(statement, (node) => {
+        if (
+          node.type === "keyword" &&
+          HEIGHT_KEYWORDS.includes(node.identifier) &&
+          node.identifier in ast.stacks_keywords
+        ) {
+          sites.push({
+            functionName: declaration.identifier,
+            node,
+            inputs: [{ name: `nondet-${node.identifier}`, type: UINT_TYPE }],
+            build: ([reference]) => ({
+              ...reference,
+              id: node.id,
+              span: node.span,
+            }),
+          });
+        }
+      });
+    }
+  }
+
+  addFreeInputs(ast, sites);
+  return sites.length;
+}
@@ -0,0 +1,281 @@
+import { ClarastType } from "../types";
+import { isAtom, SExpr } from "../parser/sexpr";
+
+/**
+ * Type of expressions whose type is unknown or empty, such as the error
+ * side of `(ok true)`
+ */
+export const NO_TYPE: ClarastType = ["none", "none", "1"];
+export const BOOL_TYPE: ClarastType = ["bool", "bool", "1"];
+export const INT_TYPE: ClarastType = ["int", "int_128", "128"];
+export const UINT_TYPE: ClarastType = ["uint", "uint_128", "128"];
+export const PRINCIPAL_TYPE: ClarastType = ["principal", "principal", "149"];
+
+/**
+ * Order of type kinds in the `types` table of a .clarast file
+ */
+const TYPE_ORDER = [
+  "bool",
+  "none",
+  "int",
+  "principal",
+  "uint",
+  "buff",
+  "string-ascii",
+  "string-utf8",
+  "list",
+  "tuple",
+  "optional",
+  "response",
+];
+
+/**
+ * @param length Maximum length in bytes
+ * @returns Type of `(buff length)`
+ */
+export function bufferType(length: number): ClarastType {
+  return ["buff", "buffer", `${length}`];
+}
+
+/**
+ * @param kind String type keyword
+ * @param length Maximum length
+ * @returns Type of `(string-ascii length)` or `(string-utf8 length)`
+ */
+export function stringType(
+  kind: "string-ascii" | "string-utf8",
+  length: number
+): ClarastType {
+  return [kind, kind.replace("-", "_"), `${length}`];
+}
+
+/**
+ * @param inner Type of the wrapped value
+ * @returns Type of `(optional inner)`
+ */
+export function optionalType(inner: ClarastType): ClarastType {
+  return ["optional", "optional", "1", [inner]];
+}
+
+/**
+ * @param ok Type of the ok value
+ * @param err Type of the err value
+ * @returns Type of `(response ok err)`
+ */
+export function responseType(ok: ClarastType, err: ClarastType): ClarastType {
+  return ["response", "response", "2", [ok, err]];
+}
+
+/**
+ * @param element Type of the elements
+ * @param length Maximum length
+ * @returns Type of `(list length element)`
+ */
+export function listType(element: ClarastType, length: number): ClarastType {
+  return ["list", "list", `${length}`, [element]];
+}
+
+/**
+ * Build a tuple type. Members are sorted by name, as Clarity does.
+ * @param members Member names and types
+ * @returns Tuple type
+ */
+export function tupleType(members: [string, ClarastType][]): ClarastType {
+  const sorted = [...members].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return ["tuple", "tuple", `${sorted.length}`, sorted];
+}
+
+/**
+ * Get the size field of a type as a number (length of lists, buffers and
+ * strings)
+ * @param type Type to inspect
+ * @returns Size of the type
+ */
+export function typeSize(type: ClarastType): number {
+  return parseInt(type[2], 10) || 0;
+}
+
+/**
+ * Get the component types of an optional, response or list type
+ * @param type Type to inspect
+ * @returns Component types, or an empty array for other types
+ */
+export function typeComponents(type: ClarastType): ClarastType[] {
+  return ["optional", "response", "list"].includes(type[0])
+    ? (type[3] as ClarastType[])
+    : [];
+}
+
+/**
+ * Get the members of a tuple type
+ * @param type Type to inspect
+ * @returns Member names and types, or an empty array for other types
+ */
+export function tupleMembers(type: ClarastType): [string, ClarastType][] {
+  return type[0] === "tuple" ? (type[3] as [string, ClarastType][]) : [];
+}
+
+/**
+ * Parse a Clarity type signature such as `uint`, `(list 10 principal)` or
+ * `{ owner: principal }`
+ * @param expr Type signature expression
+ * @returns Parsed type, or NO_TYPE if the signature is not understood
+ */
+export function parseTypeSignature(expr: SExpr | undefined): ClarastType {
+  if (!expr) {
+    return NO_TYPE;
+  }
+
+  if (expr.kind === "atom") {
+    switch (expr.text) {
+      case "int":
+        return INT_TYPE;
+      case "uint":
+        return UINT_TYPE;
+      case "bool":
+        return BOOL_TYPE;
+      case "principal":
+        return PRINCIPAL_TYPE;
+    }
+    // Trait references such as <sip-010-trait> are passed as principals
+    return expr.text.startsWith("<") ? PRINCIPAL_TYPE : NO_TYPE;
+  }
+
+  if (expr.kind === "tuple") {
+    const members: [string, ClarastType][] = [];
+    for (let i = 0; i + 1 < expr.items.length; i += 2) {
+      const key = expr.items[i];
+      if (isAtom(key)) {
+        members.push([key.text, parseTypeSignature(expr.items[i + 1])]);
+      }
+    }
+    return tupleType(members);
+  }
+
+  if (expr.kind !== "list" || !isAtom(expr.items[0])) {
+    return NO_TYPE;
+  }
+
+  const [, first, second] = expr.items;
+  const size = isAtom(first) ? parseInt(first.text, 10) || 0 : 0;
+  switch (expr.items[0].text) {
+    case "buff":
+      return bufferType(size);
+    case "string-ascii":
+    case "string-utf8":
+      return stringType(expr.items[0].text, size);
+    case "optional":
+      return optionalType(parseTypeSignature(first));
+    case "response":
+      return responseType(
+        parseTypeSignature(first),
+        parseTypeSignature(second)
+      );
+    case "list":
+      return listType(parseTypeSignature(second), size);
+    case "tuple": {
+      const members: [string, ClarastType][] = [];
+      for (const member of expr.items.slice(1)) {
+        if (member.kind === "list" && isAtom(member.items[0])) {
+          members.push([
+            member.items[0].text,
+            parseTypeSignature(member.items[1]),
+          ]);
+        }
+      }
+      return tupleType(members);
+    }
+    default:
+      return NO_TYPE;
+  }
+}
+
+/**
+ * Combine the types of two expressions that produce the same value, e.g.
+ * both branches of an `if` or every exit point of a function. Missing
+ * parts of one type are filled in from the other, so `(response bool none)`
+ * and `(response none uint)` give `(response bool uint)`.
+ * @param a First type
+ * @param b Second type
+ * @returns Combined type
+ */
+export function mergeTypes(a: ClarastType, b: ClarastType): ClarastType {
+  if (a[0] === "none") return b;
+  if (b[0] === "none" || a[0] !== b[0]) return a;
+
+  switch (a[0]) {
+    case "optional":
+      return optionalType(
+        mergeTypes(typeComponents(a)[0], typeComponents(b)[0])
+      );
+    case "response":
+      return responseType(
+        mergeTypes(typeComponents(a)[0], typeComponents(b)[0]),
+        mergeTypes(typeComponents(a)[1], typeComponents(b)[1])
+      );
+    case "list":
+      return listType(
+        mergeTypes(typeComponents(a)[0], typeComponents(b)[0]),
+        Math.max(typeSize(a), typeSize(b))
+      );
+    case "buff":
+    case "string-ascii":
+    case "string-utf8":
+      return typeSize(a) >= typeSize(b) ? a : b;
+    default:
+      return a;
+  }
+}
+
+/**
+ * Convert a map key or value type to the form used in map declarations,
+ * where each tuple member is written as `[type, member name, size, ...]`
+ * instead of `[member name, type]`
+ * @param type Key or value type
+ * @returns Type in map declaration form
+ */
+export function toMapMemberType(type: ClarastType): ClarastType {
+  if (type[0] !== "tuple") {
+    return type;
+  }
+
+  return [
+    "tuple",
+    "tuple",
+    type[2],
+    tupleMembers(type).map(
+      ([name, [kind, , memberSize, ...components]]) =>
+        [kind, name, memberSize, ...components] as ClarastType
+    ),
+  ];
+}
+
+/**
+ * Add a type and every type nested in it to a type table
+ * @param type Type to add
+ * @param table Types keyed by their JSON form
+ */
+export function collectTypes(
+  type: ClarastType,
+  table: Map<string, ClarastType>
+): void {
+  table.set(JSON.stringify(type), type);
+  typeComponents(type).forEach((component) => collectTypes(component, table));
+  tupleMembers(type).forEach(([, member]) => collectTypes(member, table));
+}
+
+/**
+ * Order types for the `types` table: simple types first, then composite
+ * types, each kind sorted by its JSON form
+ * @param a First type
+ * @param b Second type
+ * @returns Negative, zero or positive, as for Array.prototype.sort
+ */
+export function compareTypes(a: ClarastType, b: ClarastType): number {
+  const rank = TYPE_ORDER.indexOf(a[0]) - TYPE_ORDER.indexOf(b[0]);
+  if (rank !== 0) {
+    return rank;
+  }
+  const [left, right] = [JSON.stringify(a), JSON.stringify(b)];
+  return left < right ? -1 : left > right ? 1 : 0;
+}
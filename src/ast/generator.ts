@@ -1,802 +1,376 @@
 import * as path from "path";
 import * as fs from "fs";
-import { Logger } from "../utils";
+import {
+  ASTBackend,
+  ASTGenerationSettings,
+  ChainContext,
+  ClarastAST,
+  ClarinetProject,
+  ContainerLimits,
+  ContractInfo,
+  ExternalCallStubs,
+  GeneratedAST,
+  StacksPrincipal,
+  TaskResult,
+} from "../types";
+import { Logger, readFile, runInContainer } from "../utils";
+import { getContractInfo } from "../clarinet/project";
+import { buildClarast, BUILTIN_GENERATOR_VERSION } from "./builder";
+import {
+  getASTCacheKey,
+  getASTWorkDir,
+  restoreCachedAST,
+  saveCachedAST,
+} from "./cache";
+import { resolveContractLanguage } from "../parser/clarity-version";
+import {
+  getContractKeywords,
+  getPreviousBlock,
+  openBlockHeights,
+} from "./chain-context";
+import { applyExternalCallStubs } from "./stubs";
+import { InvalidASTError, validateASTFile } from "./validator";
 
 /**
- * Generate AST for a Clarity contract
+ * Supported values of the ast_backend input
+ */
+export const AST_BACKENDS: ASTBackend[] = ["container", "builtin"];
+
+/**
+ * Generate AST for a Clarity contract. ASTs are written to the AST work
+ * directory, named by a hash of everything that goes into them, so an AST
+ * generated earlier for the same input by either backend is reused,
+ * restored from the Actions cache when the cache is enabled. Otherwise
+ * the preferred backend is tried first; if it fails or its AST is
+ * invalid, the other backend is used instead. Only valid ASTs are kept
+ * and saved to the cache.
  * @param clarityFile Path to the Clarity contract file
- * @param containerRepo Container repository for AST generator (unused, kept for compatibility)
- * @param containerVersion Container version (unused, kept for compatibility)
- * @returns Path to the generated AST file
+ * @param settings Backend, chain state, deployer, stubs and default
+ * language settings
+ * @param project Clarinet project the contract belongs to, if any
+ * @param contractName Name to deploy the contract under instead of its
+ * own, as for mocks standing in for another contract
+ * @returns Path to the generated AST file and the backend that produced it
+ * @throws InvalidASTError if no backend produced a valid AST and one
+ * produced an invalid AST
  */
 export async function generateAST(
   clarityFile: string,
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  containerRepo: string,
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  containerVersion: string
-): Promise<string> {
-  Logger.info(`Generating AST for ${clarityFile} on-the-fly`);
+  settings: ASTGenerationSettings,
+  project?: ClarinetProject,
+  contractName?: string
+): Promise<GeneratedAST> {
+  const {
+    backend,
+    containerRepo,
+    containerVersion,
+    chain,
+    deployer,
+    stubs,
+    limits,
+  } = settings;
+  const workDir = getASTWorkDir();
+  fs.mkdirSync(workDir, { recursive: true });
 
-  try {
-    // Define the output AST file path with the correct extension
-    const astOutputPath = clarityFile.replace(".clar", ".clarast");
+  // Get the contract name and settings from Clarinet.toml or the file path,
+  // falling back to the configured Clarity version and epoch
+  const contract = resolveContractLanguage(
+    {
+      ...getContractInfo(clarityFile, project),
+      ...(contractName !== undefined && { name: contractName }),
+    },
+    settings.clarityVersion,
+    settings.epoch
+  );
+  const content = readFile(clarityFile);
+
+  const fallback: ASTBackend =
+    backend === "container" ? "builtin" : "container";
+  const candidates = [backend, fallback].map((candidate) => {
+    const generatorVersion =
+      candidate === "container"
+        ? `${containerRepo}:${containerVersion}`
+        : BUILTIN_GENERATOR_VERSION;
+    const key = getASTCacheKey(
+      content,
+      candidate,
+      generatorVersion,
+      contract,
+      chain,
+      deployer,
+      stubs
+    );
+    return {
+      candidate,
+      key,
+      astOutputPath: path.join(workDir, `${contract.name}-${key}.clarast`),
+    };
+  });
 
-    // Make sure the directory exists
-    const astOutputDir = path.dirname(astOutputPath);
-    if (!fs.existsSync(astOutputDir)) {
-      fs.mkdirSync(astOutputDir, { recursive: true });
-      Logger.info(`Created directory: ${astOutputDir}`);
+  // An AST from either backend beats generating one, so the fallback's
+  // AST is reused before the preferred backend is run again
+  for (const { candidate, key, astOutputPath } of candidates) {
+    if (!fs.existsSync(astOutputPath) && settings.cache) {
+      await restoreCachedAST(astOutputPath, key);
     }
+    if (fs.existsSync(astOutputPath)) {
+      // ASTs cached before they were validated on generation may be bad
+      const problems = validateASTFile(astOutputPath);
+      if (problems.length > 0) {
+        Logger.warning(
+          `Discarding invalid cached AST ${astOutputPath}: ${problems.join(
+            "; "
+          )}`
+        );
+        fs.unlinkSync(astOutputPath);
+        continue;
+      }
+      Logger.info(
+        `Reusing AST for ${clarityFile} at: ${astOutputPath} (${candidate} backend)`
+      );
+      return { astFile: astOutputPath, backend: candidate };
+    }
+  }
 
-    // Get the contract name from the file path
-    const contractName = getContractName(clarityFile);
+  const errors: string[] = [];
+  let invalid: InvalidASTError | undefined;
+  for (const { candidate, key, astOutputPath } of candidates) {
+    Logger.info(
+      `Generating AST for ${clarityFile} with the ${candidate} backend`
+    );
 
-    // Generate AST content based on the sample.clarast template
-    // This is a simplified version that will work for most Clarity contracts
-    const astContent = generateASTContent(contractName);
+    // Write under a temporary name so a failed run never leaves a
+    // partial AST that a later run would reuse
+    const partialPath = `${astOutputPath}.partial`;
+    try {
+      if (candidate === "container") {
+        await generateASTInContainer(
+          clarityFile,
+          partialPath,
+          contract,
+          chain,
+          deployer,
+          stubs,
+          containerRepo,
+          containerVersion,
+          limits
+        );
+      } else {
+        fs.writeFileSync(
+          partialPath,
+          generateASTContent(contract, content, chain, deployer, stubs)
+        );
+      }
 
-    // Write the AST content to the output file
-    fs.writeFileSync(astOutputPath, astContent);
+      // Check before the AST lands in the work directory, where later
+      // runs and the Actions cache would reuse it
+      const problems = validateASTFile(partialPath);
+      if (problems.length > 0) {
+        throw new InvalidASTError(candidate, problems);
+      }
+      fs.renameSync(partialPath, astOutputPath);
+      if (settings.cache) {
+        await saveCachedAST(astOutputPath, key);
+      }
 
-    Logger.info(`AST generated successfully at: ${astOutputPath}`);
-    return astOutputPath;
-  } catch (error) {
-    Logger.error(`Failed to generate AST for ${clarityFile}: ${error}`);
-    throw new Error(`AST generation failed for ${clarityFile}: ${error}`);
+      Logger.info(
+        `AST generated successfully at: ${astOutputPath} (${candidate} backend)`
+      );
+      return { astFile: astOutputPath, backend: candidate };
+    } catch (error) {
+      if (fs.existsSync(partialPath)) {
+        fs.unlinkSync(partialPath);
+      }
+      errors.push(`${candidate}: ${error}`);
+      if (error instanceof InvalidASTError) {
+        invalid = error;
+      }
+      if (candidate === backend) {
+        Logger.warning(
+          `The ${candidate} AST backend failed for ${clarityFile}, falling back to the ${fallback} backend: ${error}`
+        );
+      }
+    }
+  }
+
+  Logger.error(
+    `Failed to generate AST for ${clarityFile}: ${errors.join("; ")}`
+  );
+  // An invalid AST says more about what went wrong than a backend that
+  // could not run at all
+  if (invalid) {
+    throw invalid;
   }
+  throw new Error(
+    `AST generation failed for ${clarityFile}: ${errors.join("; ")}`
+  );
 }
 
 /**
  * Generate AST content for a Clarity contract
- * @param contractName Name of the contract
+ * @param contract Contract name and language settings
+ * @param content Clarity source of the contract
+ * @param chain Chain state the contract is verified against
+ * @param deployer Principal that deploys the contract
+ * @param stubs Stub settings for calls into external contracts
  * @returns AST content as a JSON string
  */
-function generateASTContent(contractName: string): string {
-  // Create a template AST based on the sample.clarast file
-  // This is a simplified version that will work for most verification scenarios
-  const astTemplate = {
-    vars: {
-      variable_declaration: ["total-deposits"],
-      function_declaration: ["get-balance", "deposit"],
-      map_declaration: ["deposits"],
-    },
-    identifier: {
-      contract_name: contractName,
-      issuer_principal: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
-      issuer_raw: [
-        26,
-        [
-          109, 120, 222, 123, 6, 37, 223, 191, 193, 108, 58, 138, 87, 53, 246,
-          220, 61, 195, 242, 206,
-        ],
-      ],
-    },
-    types: [
-      ["bool", "bool", "1"],
-      ["none", "none", "1"],
-      ["principal", "principal", "149"],
-      ["uint", "uint_128", "128"],
-      ["tuple", "tuple", "1", [["amount", ["uint", "uint_128", "128"]]]],
-      ["tuple", "tuple", "1", [["owner", ["principal", "principal", "149"]]]],
-      [
-        "response",
-        "response",
-        "2",
-        [
-          ["bool", "bool", "1"],
-          ["uint", "uint_128", "128"],
-        ],
-      ],
-      [
-        "response",
-        "response",
-        "2",
-        [
-          ["uint", "uint_128", "128"],
-          ["none", "none", "1"],
-        ],
-      ],
-    ],
-    expressions: [
-      [
-        "map",
-        {
-          id: 3,
-          type: "map_declaration",
-          span: {
-            end_column: 62,
-            end_line: 4,
-            start_column: 4,
-            start_line: 4,
-          },
-          identifier: "deposits",
-          cid: 3,
-          objtype: [
-            "map",
-            "map",
-            "1",
-            ["tuple", "tuple", "1", [["principal", "owner", "149"]]],
-            ["tuple", "tuple", "1", [["uint", "amount", "128"]]],
-          ],
-        },
-      ],
-      [
-        "data_var",
-        {
-          id: 16,
-          type: "variable_declaration",
-          value: {
-            id: 18,
-            type: "lit_uint",
-            span: {
-              end_column: 42,
-              end_line: 7,
-              start_column: 41,
-              start_line: 7,
-            },
-            identifier: "u0",
-            cid: 18,
-          },
-          span: {
-            end_column: 43,
-            end_line: 7,
-            start_column: 4,
-            start_line: 7,
-          },
-          identifier: "total-deposits",
-          cid: 16,
-          objtype: ["uint", "uint_128", "128"],
-        },
-      ],
-      [
-        "public",
-        {
-          args: [
-            {
-              id: 24,
-              type: "function_argument",
-              span: {
-                end_column: 34,
-                end_line: 12,
-                start_column: 29,
-                start_line: 12,
-              },
-              identifier: "amount",
-              cid: 24,
-              objtype: ["uint", "uint_128", "128"],
-            },
-          ],
-          id: 22,
-          type: "function_declaration",
-          span: {
-            end_column: 4,
-            end_line: 25,
-            start_column: 4,
-            start_line: 12,
-          },
-          body: [
-            {
-              args: [
-                {
-                  id: 30,
-                  type: "let_variable_declaration",
-                  span: {
-                    end_column: 20,
-                    end_line: 15,
-                    start_column: 6,
-                    start_line: 15,
-                  },
-                  body: [
-                    {
-                      args: [
-                        {
-                          id: 33,
-                          type: "lit_uint",
-                          span: {
-                            end_column: 35,
-                            end_line: 15,
-                            start_column: 34,
-                            start_line: 15,
-                          },
-                          identifier: "u0",
-                          cid: 33,
-                        },
-                        {
-                          args: [
-                            {
-                              id: 36,
-                              type: "tuple_key",
-                              span: {
-                                end_column: 47,
-                                end_line: 15,
-                                start_column: 42,
-                                start_line: 15,
-                              },
-                              identifier: "amount",
-                              cid: 36,
-                            },
-                            {
-                              args: [
-                                {
-                                  id: 39,
-                                  type: "variable",
-                                  span: {
-                                    end_column: 66,
-                                    end_line: 15,
-                                    start_column: 59,
-                                    start_line: 15,
-                                  },
-                                  identifier: "deposits",
-                                  cid: 3,
-                                },
-                                {
-                                  args: [
-                                    {
-                                      id: 43,
-                                      type: "tuple_key",
-                                      value: {
-                                        id: 44,
-                                        type: "keyword",
-                                        span: {
-                                          end_column: 85,
-                                          end_line: 15,
-                                          start_column: 77,
-                                          start_line: 15,
-                                        },
-                                        identifier: "tx-sender",
-                                        cid: 44,
-                                      },
-                                      span: {
-                                        end_column: 74,
-                                        end_line: 15,
-                                        start_column: 70,
-                                        start_line: 15,
-                                      },
-                                      identifier: "owner",
-                                      cid: 43,
-                                    },
-                                  ],
-                                  id: 41,
-                                  type: "tuple_object",
-                                  span: {
-                                    end_column: 0,
-                                    end_line: 0,
-                                    start_column: 0,
-                                    start_line: 0,
-                                  },
-                                  identifier: "tuple",
-                                  cid: 41,
-                                },
-                              ],
-                              id: 38,
-                              type: "native_function",
-                              span: {
-                                end_column: 57,
-                                end_line: 15,
-                                start_column: 50,
-                                start_line: 15,
-                              },
-                              identifier: "map-get?",
-                              cid: 38,
-                            },
-                          ],
-                          id: 35,
-                          type: "native_function",
-                          span: {
-                            end_column: 40,
-                            end_line: 15,
-                            start_column: 38,
-                            start_line: 15,
-                          },
-                          identifier: "get",
-                          cid: 35,
-                        },
-                      ],
-                      id: 32,
-                      type: "native_function",
-                      span: {
-                        end_column: 32,
-                        end_line: 15,
-                        start_column: 23,
-                        start_line: 15,
-                      },
-                      identifier: "default-to",
-                      cid: 32,
-                    },
-                  ],
-                  identifier: "current-balance",
-                  cid: 30,
-                },
-              ],
-              id: 27,
-              type: "native_function",
-              span: {
-                end_column: 8,
-                end_line: 13,
-                start_column: 6,
-                start_line: 13,
-              },
-              body: [
-                {
-                  args: [
-                    {
-                      args: [
-                        {
-                          id: 49,
-                          type: "variable",
-                          span: {
-                            end_column: 31,
-                            end_line: 17,
-                            start_column: 26,
-                            start_line: 17,
-                          },
-                          identifier: "amount",
-                          cid: 24,
-                        },
-                        {
-                          id: 50,
-                          type: "keyword",
-                          span: {
-                            end_column: 41,
-                            end_line: 17,
-                            start_column: 33,
-                            start_line: 17,
-                          },
-                          identifier: "tx-sender",
-                          cid: 50,
-                        },
-                        {
-                          args: [
-                            {
-                              id: 53,
-                              type: "keyword",
-                              span: {
-                                end_column: 64,
-                                end_line: 17,
-                                start_column: 56,
-                                start_line: 17,
-                              },
-                              identifier: "tx-sender",
-                              cid: 53,
-                            },
-                          ],
-                          id: 52,
-                          type: "native_function",
-                          span: {
-                            end_column: 54,
-                            end_line: 17,
-                            start_column: 44,
-                            start_line: 17,
-                          },
-                          identifier: "as-contract",
-                          cid: 52,
-                        },
-                      ],
-                      id: 48,
-                      type: "native_function",
-                      span: {
-                        end_column: 24,
-                        end_line: 17,
-                        start_column: 12,
-                        start_line: 17,
-                      },
-                      identifier: "stx-transfer?",
-                      cid: 48,
-                    },
-                  ],
-                  id: 46,
-                  type: "native_function",
-                  span: {
-                    end_column: 9,
-                    end_line: 17,
-                    start_column: 6,
-                    start_line: 17,
-                  },
-                  identifier: "try!",
-                  cid: 46,
-                },
-                {
-                  args: [
-                    {
-                      id: 56,
-                      type: "variable",
-                      span: {
-                        end_column: 21,
-                        end_line: 19,
-                        start_column: 14,
-                        start_line: 19,
-                      },
-                      identifier: "deposits",
-                      cid: 3,
-                    },
-                    {
-                      args: [
-                        {
-                          id: 60,
-                          type: "tuple_key",
-                          value: {
-                            id: 61,
-                            type: "keyword",
-                            span: {
-                              end_column: 40,
-                              end_line: 19,
-                              start_column: 32,
-                              start_line: 19,
-                            },
-                            identifier: "tx-sender",
-                            cid: 61,
-                          },
-                          span: {
-                            end_column: 29,
-                            end_line: 19,
-                            start_column: 25,
-                            start_line: 19,
-                          },
-                          identifier: "owner",
-                          cid: 60,
-                        },
-                      ],
-                      id: 58,
-                      type: "tuple_object",
-                      span: {
-                        end_column: 0,
-                        end_line: 0,
-                        start_column: 0,
-                        start_line: 0,
-                      },
-                      identifier: "tuple",
-                      cid: 58,
-                    },
-                    {
-                      args: [
-                        {
-                          id: 65,
-                          type: "tuple_key",
-                          value: {
-                            args: [
-                              {
-                                id: 68,
-                                type: "variable",
-                                span: {
-                                  end_column: 71,
-                                  end_line: 19,
-                                  start_column: 57,
-                                  start_line: 19,
-                                },
-                                identifier: "current-balance",
-                                cid: 30,
-                              },
-                              {
-                                id: 69,
-                                type: "variable",
-                                span: {
-                                  end_column: 78,
-                                  end_line: 19,
-                                  start_column: 73,
-                                  start_line: 19,
-                                },
-                                identifier: "amount",
-                                cid: 24,
-                              },
-                            ],
-                            id: 67,
-                            type: "native_function",
-                            span: {
-                              end_column: 55,
-                              end_line: 19,
-                              start_column: 55,
-                              start_line: 19,
-                            },
-                            identifier: "+",
-                            cid: 67,
-                          },
-                          span: {
-                            end_column: 51,
-                            end_line: 19,
-                            start_column: 46,
-                            start_line: 19,
-                          },
-                          identifier: "amount",
-                          cid: 65,
-                        },
-                      ],
-                      id: 63,
-                      type: "tuple_object",
-                      span: {
-                        end_column: 0,
-                        end_line: 0,
-                        start_column: 0,
-                        start_line: 0,
-                      },
-                      identifier: "tuple",
-                      cid: 63,
-                    },
-                  ],
-                  id: 55,
-                  type: "native_function",
-                  span: {
-                    end_column: 12,
-                    end_line: 19,
-                    start_column: 6,
-                    start_line: 19,
-                  },
-                  identifier: "map-set",
-                  cid: 55,
-                },
-                {
-                  args: [
-                    {
-                      id: 72,
-                      type: "variable",
-                      span: {
-                        end_column: 27,
-                        end_line: 21,
-                        start_column: 14,
-                        start_line: 21,
-                      },
-                      identifier: "total-deposits",
-                      cid: 16,
-                    },
-                    {
-                      args: [
-                        {
-                          args: [
-                            {
-                              id: 77,
-                              type: "variable",
-                              span: {
-                                end_column: 54,
-                                end_line: 21,
-                                start_column: 41,
-                                start_line: 21,
-                              },
-                              identifier: "total-deposits",
-                              cid: 16,
-                            },
-                          ],
-                          id: 76,
-                          type: "native_function",
-                          span: {
-                            end_column: 39,
-                            end_line: 21,
-                            start_column: 33,
-                            start_line: 21,
-                          },
-                          identifier: "var-get",
-                          cid: 76,
-                        },
-                        {
-                          id: 78,
-                          type: "variable",
-                          span: {
-                            end_column: 62,
-                            end_line: 21,
-                            start_column: 57,
-                            start_line: 21,
-                          },
-                          identifier: "amount",
-                          cid: 24,
-                        },
-                      ],
-                      id: 74,
-                      type: "native_function",
-                      span: {
-                        end_column: 30,
-                        end_line: 21,
-                        start_column: 30,
-                        start_line: 21,
-                      },
-                      identifier: "+",
-                      cid: 74,
-                    },
-                  ],
-                  id: 71,
-                  type: "native_function",
-                  span: {
-                    end_column: 12,
-                    end_line: 21,
-                    start_column: 6,
-                    start_line: 21,
-                  },
-                  identifier: "var-set",
-                  cid: 71,
-                },
-                {
-                  args: [
-                    {
-                      id: 81,
-                      type: "lit_bool",
-                      span: {
-                        end_column: 12,
-                        end_line: 23,
-                        start_column: 9,
-                        start_line: 23,
-                      },
-                      identifier: "true",
-                      cid: 81,
-                    },
-                  ],
-                  id: 80,
-                  type: "response_expression",
-                  span: {
-                    end_column: 7,
-                    end_line: 23,
-                    start_column: 6,
-                    start_line: 23,
-                  },
-                  identifier: "ok",
-                  cid: 80,
-                },
-              ],
-              identifier: "let",
-              cid: 27,
-            },
-          ],
-          identifier: "deposit",
-          return_type: [
-            "response",
-            "response",
-            "2",
-            [
-              ["bool", "bool", "1"],
-              ["uint", "uint_128", "128"],
-            ],
-          ],
-          cid: 22,
-        },
-      ],
-      [
-        "read_only",
-        {
-          args: [],
-          id: 85,
-          type: "function_declaration",
-          span: {
-            end_column: 4,
-            end_line: 30,
-            start_column: 4,
-            start_line: 28,
-          },
-          body: [
-            {
-              args: [
-                {
-                  args: [
-                    {
-                      id: 90,
-                      type: "variable",
-                      span: {
-                        end_column: 31,
-                        end_line: 29,
-                        start_column: 18,
-                        start_line: 29,
-                      },
-                      identifier: "total-deposits",
-                      cid: 16,
-                    },
-                  ],
-                  id: 89,
-                  type: "native_function",
-                  span: {
-                    end_column: 16,
-                    end_line: 29,
-                    start_column: 10,
-                    start_line: 29,
-                  },
-                  identifier: "var-get",
-                  cid: 89,
-                },
-              ],
-              id: 87,
-              type: "response_expression",
-              span: {
-                end_column: 7,
-                end_line: 29,
-                start_column: 6,
-                start_line: 29,
-              },
-              identifier: "ok",
-              cid: 87,
-            },
-          ],
-          identifier: "get-balance",
-          return_type: [
-            "response",
-            "response",
-            "2",
-            [
-              ["uint", "uint_128", "128"],
-              ["none", "none", "1"],
-            ],
-          ],
-          cid: 85,
-        },
-      ],
-    ],
-    backfill: {},
-    const_values: {
-      deposits: {
-        type: {
-          keytype: ["tuple", "tuple", "1", [["principal", "owner", "149"]]],
-          valtype: ["tuple", "tuple", "1", [["uint", "amount", "128"]]],
-        },
-        value: null,
-      },
-      "total-deposits": {
-        type: ["uint", "uint_128", "128"],
-        value: {
-          id: 18,
-          type: "lit_uint",
-          span: {
-            end_column: 42,
-            end_line: 7,
-            start_column: 41,
-            start_line: 7,
-          },
-          identifier: "u0",
-          cid: 18,
-        },
-      },
-    },
-    exported_functions: ["deposit", "get-balance"],
-    globals: {
-      deposit: 22,
-      deposits: 3,
-      "get-balance": 85,
-      "total-deposits": 16,
-    },
-    private_functions: [],
-    previous_block: {
-      "block-height": "u928575",
-      "burn-block-height": "u891469",
-      "stacks-block-height": "u928575",
-      "stx-liquid-supply": "u1520566748414280",
-    },
-    stacks_keywords: {
-      "block-height": "u928576",
-      "burn-block-height": "u891469",
-      "chain-id": "u2147483648",
-      "is-in-mainnet": "false",
-      "is-in-regtest": "true",
-      "stacks-block-height": "u928576",
-      "stx-liquid-supply": "u1520566748414280",
-      "tenure-height": "u3",
-    },
-  };
+function generateASTContent(
+  contract: ContractInfo,
+  content: string,
+  chain: ChainContext,
+  deployer: StacksPrincipal,
+  stubs: ExternalCallStubs
+): string {
+  const ast = buildClarast(content, contract, chain, deployer);
+  stubExternalCalls(ast, content, stubs, deployer);
+  return JSON.stringify(ast, null, 2);
+}
 
-  // Update the contract name in the AST
-  astTemplate.identifier.contract_name = contractName;
+/**
+ * Stub the external calls of a generated AST and log how many there were
+ * @param ast AST of the contract, modified in place
+ * @param content Clarity source of the contract
+ * @param stubs Stub settings for calls into external contracts
+ * @param deployer Principal that deploys the contract
+ */
+function stubExternalCalls(
+  ast: ClarastAST,
+  content: string,
+  stubs: ExternalCallStubs,
+  deployer: StacksPrincipal
+): void {
+  const stubbed = applyExternalCallStubs(ast, content, stubs, deployer.address);
+  if (stubbed > 0) {
+    Logger.info(
+      `Stubbed ${stubbed} external call(s) in ${ast.identifier.contract_name}`
+    );
+  }
+}
+
+/**
+ * Generate an AST with the AST generator image. The image is given the
+ * contract path, relative to the workspace, and the output path in the
+ * AST work directory, which is mounted at the same path.
+ * The contract identifier is then filled in from Clarinet.toml and the
+ * configured deployer, the chain state from the configured chain
+ * context, and external calls are stubbed, none of which the generator
+ * does itself. Output that cannot be filled in is an invalid AST.
+ * @param clarityFile Path to the Clarity contract file
+ * @param astOutputPath Path to write the AST to
+ * @param contract Contract name and language settings
+ * @param chain Chain state the contract is verified against
+ * @param deployer Principal that deploys the contract
+ * @param stubs Stub settings for calls into external contracts
+ * @param containerRepo Container repository for AST generator
+ * @param containerVersion Container version
+ * @param limits Time and memory limits of the generator container
+ */
+async function generateASTInContainer(
+  clarityFile: string,
+  astOutputPath: string,
+  contract: ContractInfo,
+  chain: ChainContext,
+  deployer: StacksPrincipal,
+  stubs: ExternalCallStubs,
+  containerRepo: string,
+  containerVersion: string,
+  limits: ContainerLimits
+): Promise<void> {
+  // Never mistake a stale file from an earlier run for fresh output
+  if (fs.existsSync(astOutputPath)) {
+    fs.unlinkSync(astOutputPath);
+  }
+
+  await runInContainer(
+    containerRepo,
+    containerVersion,
+    `${clarityFile} ${astOutputPath}`,
+    process.cwd(),
+    [path.dirname(astOutputPath)],
+    limits
+  );
 
-  // Convert the AST to a JSON string
-  return JSON.stringify(astTemplate, null, 2);
+  if (!fs.existsSync(astOutputPath)) {
+    throw new Error(`${containerRepo} did not write ${astOutputPath}`);
+  }
+
+  // Output too malformed to fill in is as unusable as one that fails
+  // validation afterwards
+  let ast: ClarastAST;
+  try {
+    ast = JSON.parse(readFile(astOutputPath)) as ClarastAST;
+    completeContainerAST(ast, clarityFile, contract, chain, deployer, stubs);
+  } catch (error) {
+    throw new InvalidASTError("container", [`${error}`]);
+  }
+  fs.writeFileSync(astOutputPath, JSON.stringify(ast, null, 2));
+}
+
+/**
+ * Fill in what the AST generator image leaves out: the contract
+ * identifier, chain state and external call stubs
+ * @param ast AST written by the generator image, modified in place
+ * @param clarityFile Path to the Clarity contract file
+ * @param contract Contract name and language settings
+ * @param chain Chain state the contract is verified against
+ * @param deployer Principal that deploys the contract
+ * @param stubs Stub settings for calls into external contracts
+ */
+function completeContainerAST(
+  ast: ClarastAST,
+  clarityFile: string,
+  contract: ContractInfo,
+  chain: ChainContext,
+  deployer: StacksPrincipal,
+  stubs: ExternalCallStubs
+): void {
+  ast.identifier = {
+    ...ast.identifier,
+    contract_name: contract.name,
+    issuer_principal: deployer.address,
+    issuer_raw: [deployer.version, [...deployer.hash160]],
+    ...(contract.clarityVersion !== undefined && {
+      clarity_version: contract.clarityVersion,
+    }),
+    ...(contract.epoch !== undefined && { epoch: contract.epoch }),
+  };
+  ast.stacks_keywords = getContractKeywords(chain.stacksKeywords, contract);
+  ast.previous_block = getPreviousBlock(ast.stacks_keywords);
+  if (chain.nondeterministicBlockHeight) {
+    openBlockHeights(ast);
+  }
+  stubExternalCalls(ast, readFile(clarityFile), stubs, deployer);
 }
 
 /**
  * Generate ASTs for multiple Clarity contracts
  * @param clarityFiles Array of Clarity contract file paths
- * @param containerRepo Container repository for AST generator
- * @param containerVersion Container version
- * @returns Map of Clarity file paths to AST file paths
+ * @param settings Backend, chain state, deployer, stubs and default
+ * language settings
+ * @param project Clarinet project the contracts belong to, if any
+ * @returns Map of Clarity file paths to their generated AST, or the error
+ * that prevented it
  */
 export async function generateASTs(
   clarityFiles: string[],
-  containerRepo: string,
-  containerVersion: string
-): Promise<Map<string, string>> {
+  settings: ASTGenerationSettings,
+  project?: ClarinetProject
+): Promise<Map<string, TaskResult<GeneratedAST>>> {
   Logger.info(`Generating ASTs for ${clarityFiles.length} Clarity contracts`);
 
-  const astMap = new Map<string, string>();
+  const astMap = new Map<string, TaskResult<GeneratedAST>>();
 
   // Process files sequentially to avoid container conflicts
   for (const file of clarityFiles) {
     try {
-      const astPath = await generateAST(file, containerRepo, containerVersion);
-      astMap.set(file, astPath);
+      const ast = await generateAST(file, settings, project);
+      astMap.set(file, { ok: true, value: ast });
     } catch (error) {
       Logger.warning(
         `Skipping AST generation for ${file} due to error: ${error}`
       );
+      astMap.set(file, { ok: false, error });
     }
   }
 
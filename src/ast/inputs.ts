@@ -0,0 +1,248 @@
+import {
+  ClarastAST,
+  ClarastExpression,
+  ClarastSpan,
+  ClarastType,
+  FreeInputSite,
+} from "../types";
+import { collectTypes, compareTypes } from "./clarity-types";
+
+/**
+ * Span of the arguments and references added for free inputs, which do
+ * not appear in the source
+ */
+export const NO_SPAN: ClarastSpan = {
+  end_column: 0,
+  end_line: 0,
+  start_column: 0,
+  start_line: 0,
+};
+
+/**
+ * Node types that bind a local name
+ */
+const BINDINGS = [
+  "function_argument",
+  "let_variable_declaration",
+  "match_binding",
+];
+
+/**
+ * Get the nodes nested directly in a node
+ * @param node Expression node
+ * @returns Child nodes
+ */
+function children(node: ClarastExpression): ClarastExpression[] {
+  return [
+    ...(node.args ?? []),
+    ...(node.body ?? []),
+    ...(node.value ? [node.value] : []),
+  ];
+}
+
+/**
+ * Visit a node and everything nested in it, parents first
+ * @param node Expression node
+ * @param visit Called for each node
+ */
+export function walk(
+  node: ClarastExpression,
+  visit: (node: ClarastExpression) => void
+): void {
+  visit(node);
+  children(node).forEach((child) => walk(child, visit));
+}
+
+/**
+ * Replace nodes wherever they are nested
+ * @param node Expression node whose descendants are replaced in place
+ * @param replacements Replacement of each node
+ */
+function replaceNodes(
+  node: ClarastExpression,
+  replacements: Map<ClarastExpression, ClarastExpression>
+): void {
+  if (node.args) {
+    node.args = node.args.map((child) => replacements.get(child) ?? child);
+  }
+  if (node.body) {
+    node.body = node.body.map((child) => replacements.get(child) ?? child);
+  }
+  if (node.value) {
+    node.value = replacements.get(node.value) ?? node.value;
+  }
+  children(node).forEach((child) => replaceNodes(child, replacements));
+}
+
+/**
+ * Replace expressions in function bodies by expressions over free inputs:
+ * values the verified transaction may see any value of. ESBMC explores
+ * every argument value of the function it verifies, so each input becomes
+ * an extra argument of the function it is used in, and of every function
+ * calling that one, which passes it on. Sites asking for the same input
+ * name share one argument.
+ * @param ast AST of the contract, modified in place
+ * @param sites Expressions to replace
+ * @throws Error if a function needing inputs is passed by name to `map`,
+ * `filter` or `fold`, or called outside any function, where no extra
+ * argument can be passed
+ */
+export function addFreeInputs(ast: ClarastAST, sites: FreeInputSite[]): void {
+  if (sites.length === 0) {
+    return;
+  }
+
+  const declarations = ast.expressions.map(([, node]) => node);
+  const functions = new Map<number, ClarastExpression>();
+  const functionsByName = new Map<string, ClarastExpression>();
+  let lastId = 0;
+  const taken = new Set(Object.keys(ast.globals));
+  for (const declaration of declarations) {
+    if (declaration.type === "function_declaration") {
+      functions.set(declaration.id, declaration);
+      functionsByName.set(declaration.identifier, declaration);
+    }
+    walk(declaration, (node) => {
+      lastId = Math.max(lastId, node.id);
+      if (BINDINGS.includes(node.type)) {
+        taken.add(node.identifier);
+      }
+    });
+  }
+  const nextId = (): number => ++lastId;
+
+  // Input names must not shadow anything the contract declares
+  const names = new Map<string, string>();
+  const argumentName = (name: string): string => {
+    let unique = names.get(name);
+    if (!unique) {
+      unique = name;
+      for (let i = 2; taken.has(unique); i++) {
+        unique = `${name}-${i}`;
+      }
+      taken.add(unique);
+      names.set(name, unique);
+    }
+    return unique;
+  };
+
+  // Inputs each function needs: its own and those of the functions it calls
+  const needed = new Map<ClarastExpression, Map<string, ClarastType>>();
+  const need = (
+    func: ClarastExpression,
+    name: string,
+    type: ClarastType
+  ): boolean => {
+    const inputs = needed.get(func) ?? new Map<string, ClarastType>();
+    needed.set(func, inputs);
+    if (inputs.has(name)) {
+      return false;
+    }
+    inputs.set(name, type);
+    return true;
+  };
+  for (const site of sites) {
+    const func = functionsByName.get(site.functionName);
+    if (!func) {
+      throw new Error(`Function ${site.functionName} is not declared`);
+    }
+    site.inputs.forEach((input) =>
+      need(func, argumentName(input.name), input.type)
+    );
+  }
+
+  // Calls to other functions, by the declaration they are made in
+  const calls = new Map<ClarastExpression, ClarastExpression[]>();
+  for (const declaration of declarations) {
+    walk(declaration, (node) => {
+      if (node.type === "user_function" && functions.has(node.cid)) {
+        calls.set(declaration, [...(calls.get(declaration) ?? []), node]);
+      }
+    });
+  }
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const [caller, callNodes] of calls) {
+      for (const call of callNodes) {
+        const callee = functions.get(call.cid) as ClarastExpression;
+        for (const [name, type] of needed.get(callee) ?? []) {
+          if (call.args === undefined) {
+            throw new Error(
+              `Cannot pass ${name} to ${callee.identifier}, which is passed by name at line ${call.span.start_line}`
+            );
+          }
+          if (caller.type !== "function_declaration") {
+            throw new Error(
+              `Cannot pass ${name} to ${callee.identifier}, which is called outside any function at line ${call.span.start_line}`
+            );
+          }
+          changed = need(caller, name, type) || changed;
+        }
+      }
+    }
+  }
+
+  const types = new Map(ast.types.map((type) => [JSON.stringify(type), type]));
+  const argumentIds = new Map<ClarastExpression, Map<string, number>>();
+  for (const [func, inputs] of needed) {
+    const ids = new Map<string, number>();
+    for (const [name, type] of inputs) {
+      const id = nextId();
+      func.args = [
+        ...(func.args ?? []),
+        {
+          id,
+          type: "function_argument",
+          span: NO_SPAN,
+          identifier: name,
+          cid: id,
+          objtype: type,
+        },
+      ];
+      ids.set(name, id);
+      collectTypes(type, types);
+    }
+    argumentIds.set(func, ids);
+  }
+
+  const reference = (
+    func: ClarastExpression,
+    name: string
+  ): ClarastExpression => {
+    const id = nextId();
+    return {
+      id,
+      type: "variable",
+      span: NO_SPAN,
+      identifier: name,
+      cid: argumentIds.get(func)?.get(name) ?? id,
+    };
+  };
+
+  for (const [caller, callNodes] of calls) {
+    for (const call of callNodes) {
+      const callee = functions.get(call.cid) as ClarastExpression;
+      for (const name of needed.get(callee)?.keys() ?? []) {
+        call.args?.push(reference(caller, name));
+      }
+    }
+  }
+
+  const replacements = new Map<ClarastExpression, ClarastExpression>();
+  for (const site of sites) {
+    const func = functionsByName.get(site.functionName) as ClarastExpression;
+    replacements.set(
+      site.node,
+      site.build(
+        site.inputs.map((input) => reference(func, argumentName(input.name))),
+        nextId
+      )
+    );
+  }
+  declarations.forEach((declaration) =>
+    replaceNodes(declaration, replacements)
+  );
+  ast.types = Array.from(types.values()).sort(compareTypes);
+}
@@ -0,0 +1,141 @@
+import * as crypto from "crypto";
+import { StacksPrincipal } from "../types";
+
+/**
+ * Crockford base32 alphabet used by c32check
+ */
+const C32_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+/**
+ * Length of the hash160 an address encodes
+ */
+const HASH160_LENGTH = 20;
+
+/**
+ * Length of the checksum appended to the hash160
+ */
+const CHECKSUM_LENGTH = 4;
+
+/**
+ * Clarinet's devnet deployer, used when no deployer is configured
+ */
+export const DEFAULT_DEPLOYER = "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM";
+
+/**
+ * Map the characters c32 treats as look-alikes to their canonical form
+ * @param input c32 string
+ * @returns Upper case string with O, I and L replaced by 0 and 1
+ */
+function normalizeC32(input: string): string {
+  return input.toUpperCase().replace(/O/g, "0").replace(/[IL]/g, "1");
+}
+
+/**
+ * Decode a c32 string into a fixed number of bytes. Each character holds
+ * five bits of a big-endian number.
+ * @param input Normalised c32 string
+ * @param length Number of bytes the string encodes
+ * @returns Decoded bytes
+ */
+function decodeC32(input: string, length: number): number[] {
+  const bytes = new Array<number>(length).fill(0);
+  let position = length - 1;
+  let buffer = 0;
+  let bits = 0;
+
+  const emit = (byte: number): void => {
+    if (position < 0) {
+      if (byte !== 0) {
+        throw new Error(`encodes more than ${length} bytes`);
+      }
+      return;
+    }
+    bytes[position--] = byte;
+  };
+
+  for (let i = input.length - 1; i >= 0; i--) {
+    const value = C32_ALPHABET.indexOf(input[i]);
+    if (value < 0) {
+      throw new Error(`'${input[i]}' is not a c32 character`);
+    }
+    buffer |= value << bits;
+    bits += 5;
+    while (bits >= 8) {
+      emit(buffer & 0xff);
+      buffer >>= 8;
+      bits -= 8;
+    }
+  }
+  emit(buffer);
+
+  return bytes;
+}
+
+/**
+ * Compute the c32check checksum of a version and hash160
+ * @param version Address version
+ * @param hash160 Hash of the public key or script
+ * @returns First four bytes of the double SHA-256
+ */
+function checksum(version: number, hash160: number[]): number[] {
+  const once = crypto
+    .createHash("sha256")
+    .update(Buffer.from([version, ...hash160]))
+    .digest();
+  const twice = crypto.createHash("sha256").update(once).digest();
+  return Array.from(twice.subarray(0, CHECKSUM_LENGTH));
+}
+
+/**
+ * Decode a standard (`SP…`) or contract (`SP….name`) principal into its
+ * address version and hash160, checking the c32check checksum
+ * @param principal Principal to decode
+ * @returns Decoded principal
+ */
+export function decodePrincipal(principal: string): StacksPrincipal {
+  const [address, contractName, ...rest] = principal.trim().split(".");
+
+  try {
+    if (rest.length > 0) {
+      throw new Error("it has more than one '.'");
+    }
+    if (
+      contractName !== undefined &&
+      !/^[a-zA-Z]([a-zA-Z0-9]|[-_]){0,127}$/.test(contractName)
+    ) {
+      throw new Error(`'${contractName}' is not a valid contract name`);
+    }
+    if (!/^S/i.test(address) || address.length < 3) {
+      throw new Error("addresses start with 'S' and a version character");
+    }
+
+    const normalized = normalizeC32(address);
+    const version = C32_ALPHABET.indexOf(normalized[1]);
+    if (version < 0) {
+      throw new Error(`'${address[1]}' is not a c32 character`);
+    }
+
+    const payload = decodeC32(
+      normalized.slice(2),
+      HASH160_LENGTH + CHECKSUM_LENGTH
+    );
+    const hash160 = payload.slice(0, HASH160_LENGTH);
+    const expected = checksum(version, hash160);
+    if (expected.some((byte, i) => byte !== payload[HASH160_LENGTH + i])) {
+      throw new Error("the checksum does not match");
+    }
+
+    return {
+      address: normalized,
+      version,
+      hash160,
+      ...(contractName !== undefined && { contractName }),
+    };
+  } catch (error) {
+    throw new Error(
+      `Invalid principal '${principal}': ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+}
@@ -0,0 +1,633 @@
+import {
+  ClarastAST,
+  ClarastExpression,
+  ClarastSpan,
+  ClarastType,
+  ExternalCallConfig,
+  ExternalCallStubs,
+  ExternalContractStub,
+  FreeInputSite,
+  StubStrategy,
+} from "../types";
+import { isAtom, parseSExpressions, SExpr } from "../parser/sexpr";
+import { buildCallGraph } from "../parser/call-graph";
+import { parseClarityFunctions } from "../parser/function-detector";
+import { BOOL_TYPE, parseTypeSignature, typeComponents } from "./clarity-types";
+import { addFreeInputs, NO_SPAN } from "./inputs";
+import { decodePrincipal } from "./principal";
+
+/**
+ * Supported stub strategies
+ */
+export const STUB_STRATEGIES: StubStrategy[] = ["nondet", "always-ok", "mock"];
+
+/**
+ * Strategy used for external contracts without settings of their own
+ */
+export const DEFAULT_STUB_STRATEGY: StubStrategy = "nondet";
+
+/**
+ * Function definitions whose arguments may be trait references
+ */
+const FUNCTION_DEFINITIONS = [
+  "define-public",
+  "define-read-only",
+  "define-private",
+];
+
+/**
+ * A `contract-call?` found in the source
+ */
+interface ContractCall {
+  /** Span of the `contract-call?` atom, which identifies the AST node */
+  span: ClarastSpan;
+  function: string;
+  /** Called contract, for calls to a literal principal */
+  contract?: string;
+  /** Trait of the called reference, for calls through a trait */
+  trait?: string;
+  /** Function the call is made in */
+  caller?: string;
+}
+
+/**
+ * Check if a value names a stub strategy
+ * @param value Value to check
+ * @returns True if the value is a known strategy
+ */
+export function isStubStrategy(value: string): value is StubStrategy {
+  return (STUB_STRATEGIES as string[]).includes(value);
+}
+
+/**
+ * Write a principal literal in full, as `ADDRESS.name` or
+ * `ADDRESS.name.trait`. Contract-relative literals such as `.token` are
+ * qualified with the deployer's address.
+ * @param text Principal literal, with or without the leading quote
+ * @param deployerAddress Address the local contracts are deployed from
+ * @returns Full principal, or undefined if the text is not a contract
+ * principal
+ */
+export function toContractPrincipal(
+  text: string,
+  deployerAddress: string
+): string | undefined {
+  const match = /^'?([0-9A-Za-z]*)(\.[a-zA-Z][a-zA-Z0-9_-]*(\.[^.]+)?)$/.exec(
+    text
+  );
+  if (!match) {
+    return undefined;
+  }
+  return `${match[1] === "" ? deployerAddress : match[1].toUpperCase()}${
+    match[2]
+  }`;
+}
+
+/**
+ * Get a span key for matching source atoms to AST nodes
+ * @param span Span in .clarast form
+ * @returns Key of the span's start
+ */
+function spanKey(span: ClarastSpan): string {
+  return `${span.start_line}:${span.start_column}`;
+}
+
+/**
+ * Parse the declared return type of an external function, such as
+ * `(response bool uint)`
+ * @param signature Type signature
+ * @param name Contract and function the signature is for, for errors
+ * @returns Parsed response type
+ */
+function parseReturnType(signature: string, name: string): ClarastType {
+  const type = parseTypeSignature(parseSExpressions(signature)[0]);
+  if (type[0] !== "response") {
+    throw new Error(
+      `The return type of ${name} must be a response type, got '${signature}'`
+    );
+  }
+  return type;
+}
+
+/**
+ * Validate stub settings and bring them to canonical form
+ * @param strategy Strategy for contracts without settings of their own
+ * @param contracts Settings of individual contracts, keyed by principal
+ * @returns External call configuration
+ */
+export function resolveExternalCallConfig(
+  strategy: string,
+  contracts: Record<
+    string,
+    { strategy?: string; mock?: string; functions?: Record<string, string> }
+  >
+): ExternalCallConfig {
+  const checkStrategy = (value: string, context: string): StubStrategy => {
+    if (!isStubStrategy(value)) {
+      throw new Error(
+        `Invalid stub strategy '${value}' for ${context}, expected one of: ${STUB_STRATEGIES.join(
+          ", "
+        )}`
+      );
+    }
+    return value;
+  };
+
+  const config: ExternalCallConfig = {
+    strategy: checkStrategy(strategy, "external calls"),
+    contracts: {},
+  };
+  if (config.strategy === "mock") {
+    throw new Error("Mocks are set per contract, not as the default strategy");
+  }
+
+  for (const [principal, settings] of Object.entries(contracts)) {
+    const decoded = decodePrincipal(principal);
+    if (!decoded.contractName) {
+      throw new Error(`'${principal}' is not a contract principal`);
+    }
+    const key = `${decoded.address}.${decoded.contractName}`;
+
+    const stub: ExternalContractStub = {
+      strategy: checkStrategy(settings.strategy ?? config.strategy, key),
+      functions: {},
+    };
+    if (stub.strategy === "mock") {
+      if (!settings.mock) {
+        throw new Error(`The mock strategy for ${key} needs a mock file`);
+      }
+      stub.mock = settings.mock;
+    }
+    for (const [name, signature] of Object.entries(settings.functions ?? {})) {
+      stub.functions[name] = parseReturnType(
+        String(signature),
+        `${key}.${name}`
+      );
+    }
+    config.contracts[key] = stub;
+  }
+
+  return config;
+}
+
+/**
+ * Read the trait definitions of a contract
+ * @param content Clarity source of the contract
+ * @param contractPrincipal Principal the contract is deployed as
+ * @returns Return types of each trait's functions, keyed by trait
+ * principal and function name
+ */
+export function parseTraitDefinitions(
+  content: string,
+  contractPrincipal: string
+): Record<string, Record<string, ClarastType>> {
+  const traits: Record<string, Record<string, ClarastType>> = {};
+
+  for (const expr of parseSExpressions(content)) {
+    if (expr.kind !== "list" || !isAtom(expr.items[0])) continue;
+
+    const [keyword, name, signatures] = expr.items;
+    if (
+      keyword.text !== "define-trait" ||
+      !isAtom(name) ||
+      signatures?.kind !== "list"
+    ) {
+      continue;
+    }
+
+    const functions: Record<string, ClarastType> = {};
+    for (const signature of signatures.items) {
+      if (signature.kind === "list" && isAtom(signature.items[0])) {
+        functions[signature.items[0].text] = parseTypeSignature(
+          signature.items[2]
+        );
+      }
+    }
+    traits[`${contractPrincipal}.${name.text}`] = functions;
+  }
+
+  return traits;
+}
+
+/**
+ * Read the traits a contract declares with `impl-trait`
+ * @param content Clarity source of the contract
+ * @param contractPrincipal Principal the contract is deployed as, whose
+ * address qualifies contract-relative trait references
+ * @returns Principals of the implemented traits
+ */
+export function parseImplementedTraits(
+  content: string,
+  contractPrincipal: string
+): string[] {
+  const [address] = contractPrincipal.split(".");
+  const traits: string[] = [];
+
+  for (const expr of parseSExpressions(content)) {
+    const [keyword, reference] = expr.kind === "list" ? expr.items : [];
+    if (isAtom(keyword) && keyword.text === "impl-trait" && isAtom(reference)) {
+      const trait = toContractPrincipal(reference.text, address);
+      if (trait) {
+        traits.push(trait);
+      }
+    }
+  }
+
+  return traits;
+}
+
+/**
+ * Find every `contract-call?` in a contract, with its target resolved to
+ * a contract principal or, for calls through a function argument of
+ * trait type, to the trait the argument implements
+ * @param content Clarity source of the contract
+ * @param deployerAddress Address the local contracts are deployed from
+ * @returns Calls in source order
+ */
+function findContractCalls(
+  content: string,
+  deployerAddress: string
+): ContractCall[] {
+  const exprs = parseSExpressions(content);
+  const calls: ContractCall[] = [];
+
+  // Aliases introduced by (use-trait alias trait-principal)
+  const aliases = new Map<string, string>();
+  for (const expr of exprs) {
+    const [keyword, alias, reference] = expr.kind === "list" ? expr.items : [];
+    if (
+      isAtom(keyword) &&
+      keyword.text === "use-trait" &&
+      isAtom(alias) &&
+      isAtom(reference)
+    ) {
+      const trait = toContractPrincipal(reference.text, deployerAddress);
+      if (trait) {
+        aliases.set(alias.text, trait);
+      }
+    }
+  }
+
+  const visit = (
+    expr: SExpr,
+    traitArgs: Map<string, string>,
+    caller?: string
+  ): void => {
+    if (expr.kind !== "list" && expr.kind !== "tuple") {
+      return;
+    }
+
+    const [operator, target, name] = expr.items;
+    if (
+      expr.kind === "list" &&
+      isAtom(operator) &&
+      operator.text === "contract-call?" &&
+      isAtom(target) &&
+      isAtom(name)
+    ) {
+      const span = {
+        end_column: operator.endColumn,
+        end_line: operator.endLine,
+        start_column: operator.startColumn,
+        start_line: operator.startLine,
+      };
+      const contract = toContractPrincipal(target.text, deployerAddress);
+      if (contract) {
+        calls.push({ span, function: name.text, contract, caller });
+      } else if (traitArgs.has(target.text)) {
+        calls.push({
+          span,
+          function: name.text,
+          trait: traitArgs.get(target.text),
+          caller,
+        });
+      }
+    }
+    expr.items.forEach((item) => visit(item, traitArgs, caller));
+  };
+
+  for (const expr of exprs) {
+    if (expr.kind !== "list") continue;
+    const [keyword, signature] = expr.items;
+
+    // Function arguments typed <alias> hold a contract implementing the trait
+    const traitArgs = new Map<string, string>();
+    let caller: string | undefined;
+    if (
+      isAtom(keyword) &&
+      FUNCTION_DEFINITIONS.includes(keyword.text) &&
+      signature?.kind === "list"
+    ) {
+      const [functionName] = signature.items;
+      caller = isAtom(functionName) ? functionName.text : undefined;
+      for (const param of signature.items.slice(1)) {
+        const [argName, argType] = param.kind === "list" ? param.items : [];
+        const trait =
+          isAtom(argType) && /^<.+>$/.test(argType.text)
+            ? aliases.get(argType.text.slice(1, -1))
+            : undefined;
+        if (isAtom(argName) && trait) {
+          traitArgs.set(argName.text, trait);
+        }
+      }
+    }
+    visit(expr, traitArgs, caller);
+  }
+
+  return calls;
+}
+
+/**
+ * Check if a contract principal names a contract deployed alongside the
+ * verified contracts
+ * @param principal Contract principal
+ * @param stubs Stub settings and local contracts
+ * @param deployerAddress Address the local contracts are deployed from
+ * @returns True if the contract is local
+ */
+function isLocalContract(
+  principal: string,
+  stubs: ExternalCallStubs,
+  deployerAddress: string
+): boolean {
+  const [address, name] = principal.split(".");
+  return address === deployerAddress && stubs.localContracts.includes(name);
+}
+
+/**
+ * Get the return type of an external call: the type declared for the
+ * function in the settings, or else in a trait the called contract
+ * implements or the called trait reference has
+ * @param call External call
+ * @param stubs Stub settings and known traits
+ * @returns Return type, or undefined if none is known
+ */
+function getReturnType(
+  call: ContractCall,
+  stubs: ExternalCallStubs
+): ClarastType | undefined {
+  if (!call.contract) {
+    return call.trait ? stubs.traits[call.trait]?.[call.function] : undefined;
+  }
+
+  const declared =
+    stubs.config.contracts[call.contract]?.functions[call.function];
+  if (declared) {
+    return declared;
+  }
+  for (const trait of stubs.implementedTraits[call.contract] ?? []) {
+    const type = stubs.traits[trait]?.[call.function];
+    if (type) {
+      return type;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check if a call leaves the verified contracts and is stubbed rather
+ * than mocked
+ * @param call Contract call
+ * @param stubs Stub settings and local contracts
+ * @param deployerAddress Address the local contracts are deployed from
+ * @returns True if the call is replaced by a stub
+ */
+function isStubbedCall(
+  call: ContractCall,
+  stubs: ExternalCallStubs,
+  deployerAddress: string
+): boolean {
+  if (call.contract && isLocalContract(call.contract, stubs, deployerAddress)) {
+    return false;
+  }
+  // Calls through a trait may reach any contract, so they always use
+  // the default strategy
+  const settings = call.contract
+    ? stubs.config.contracts[call.contract]
+    : undefined;
+  return (settings?.strategy ?? stubs.config.strategy) !== "mock";
+}
+
+/**
+ * Find the external calls each function of a contract makes, directly or
+ * through the functions it calls, whose return type is not known. Such
+ * calls cannot be stubbed, so these functions cannot be verified.
+ * @param content Clarity source of the contract
+ * @param file Path of the contract
+ * @param stubs Stub settings, local contracts and known traits
+ * @param deployerAddress Address the local contracts are deployed from
+ * @returns Untyped calls, as `contract.function`, keyed by function name;
+ * functions without any are left out
+ */
+export function findUntypedExternalCalls(
+  content: string,
+  file: string,
+  stubs: ExternalCallStubs,
+  deployerAddress: string
+): Map<string, string[]> {
+  const direct = new Map<string, Set<string>>();
+  for (const call of findContractCalls(content, deployerAddress)) {
+    if (
+      call.caller &&
+      isStubbedCall(call, stubs, deployerAddress) &&
+      !getReturnType(call, stubs)
+    ) {
+      const calls = direct.get(call.caller) ?? new Set<string>();
+      calls.add(`${call.contract ?? call.trait}.${call.function}`);
+      direct.set(call.caller, calls);
+    }
+  }
+
+  const untyped = new Map<string, string[]>();
+  if (direct.size === 0) {
+    return untyped;
+  }
+
+  const graph = buildCallGraph(parseClarityFunctions(content, file));
+  for (const name of graph.keys()) {
+    const reached = new Set<string>();
+    const visited = new Set<string>();
+    const queue = [name];
+    while (queue.length > 0) {
+      const current = queue.shift() as string;
+      if (visited.has(current)) continue;
+      visited.add(current);
+      direct.get(current)?.forEach((call) => reached.add(call));
+      queue.push(...(graph.get(current) ?? []));
+    }
+    if (reached.size > 0) {
+      untyped.set(name, Array.from(reached));
+    }
+  }
+
+  return untyped;
+}
+
+/**
+ * Find the external contracts a contract calls that are replaced by a mock
+ * @param content Clarity source of the contract
+ * @param stubs Stub settings and local contracts
+ * @param deployerAddress Address the local contracts are deployed from
+ * @returns Principals of the mocked contracts with their mock files
+ */
+export function findMockedContracts(
+  content: string,
+  stubs: ExternalCallStubs,
+  deployerAddress: string
+): { principal: string; mock: string }[] {
+  const mocked = new Map<string, string>();
+  for (const call of findContractCalls(content, deployerAddress)) {
+    const settings = call.contract
+      ? stubs.config.contracts[call.contract]
+      : undefined;
+    if (
+      call.contract &&
+      settings?.mock &&
+      !isLocalContract(call.contract, stubs, deployerAddress)
+    ) {
+      mocked.set(call.contract, settings.mock);
+    }
+  }
+  return Array.from(mocked, ([principal, mock]) => ({ principal, mock }));
+}
+
+/**
+ * Replace calls into contracts that are not verified with the caller by
+ * stubs. Each `contract-call?` into an external contract, or through a
+ * trait reference, is rewritten into an expression over free inputs of
+ * the function making it: `(if is-ok (ok ok-value) (err err-value))` for
+ * the nondet strategy, or `(ok ok-value)` for always-ok, typed by the
+ * function's return type in the settings or in a trait. ESBMC explores
+ * every value of those inputs, so the stub returns any such response.
+ * Calls into local contracts and mocked contracts are left alone, and so
+ * are calls whose return type is not known: the functions making them
+ * are reported by findUntypedExternalCalls instead of being verified.
+ * @param ast AST of the contract, modified in place
+ * @param content Clarity source of the contract
+ * @param stubs Stub settings, local contracts and known traits
+ * @param deployerAddress Address the local contracts are deployed from
+ * @returns Number of calls stubbed
+ */
+export function applyExternalCallStubs(
+  ast: ClarastAST,
+  content: string,
+  stubs: ExternalCallStubs,
+  deployerAddress: string
+): number {
+  const calls = new Map(
+    findContractCalls(content, deployerAddress).map((call) => [
+      spanKey(call.span),
+      call,
+    ])
+  );
+  const sites: FreeInputSite[] = [];
+
+  const visit = (node: ClarastExpression, functionName: string): void => {
+    const call =
+      node.type === "native_function" && node.identifier === "contract-call?"
+        ? calls.get(spanKey(node.span))
+        : undefined;
+
+    const returnType =
+      call && isStubbedCall(call, stubs, deployerAddress)
+        ? getReturnType(call, stubs)
+        : undefined;
+    if (call && returnType) {
+      const settings = call.contract
+        ? stubs.config.contracts[call.contract]
+        : undefined;
+      const strategy = settings?.strategy ?? stubs.config.strategy;
+      sites.push(
+        createStubSite(
+          node,
+          functionName,
+          returnType,
+          strategy,
+          `stub-${sites.length + 1}`
+        )
+      );
+      // The call's own arguments are dropped with it
+      return;
+    }
+
+    [...(node.args ?? []), ...(node.body ?? [])].forEach((child) =>
+      visit(child, functionName)
+    );
+    if (node.value) {
+      visit(node.value, functionName);
+    }
+  };
+
+  for (const [, node] of ast.expressions) {
+    if (node.type === "function_declaration") {
+      node.body?.forEach((child) => visit(child, node.identifier));
+    }
+  }
+
+  addFreeInputs(ast, sites);
+  return sites.length;
+}
+
+/**
+ * Build the replacement of a stubbed call: any `ok` value of its return
+ * type for always-ok, and any `ok` or `err` value for nondet
+ * @param node `contract-call?` node to replace
+ * @param functionName Function the call is made in
+ * @param returnType Response type the called function returns
+ * @param strategy Stub strategy of the call
+ * @param name Prefix of the names of the free inputs
+ * @returns Free input site
+ */
+function createStubSite(
+  node: ClarastExpression,
+  functionName: string,
+  returnType: ClarastType,
+  strategy: StubStrategy,
+  name: string
+): FreeInputSite {
+  const [okType, errType] = typeComponents(returnType);
+  const response = (
+    identifier: "ok" | "err",
+    value: ClarastExpression,
+    id: number,
+    span: ClarastSpan
+  ): ClarastExpression => ({
+    args: [value],
+    id,
+    type: "response_expression",
+    span,
+    identifier,
+    cid: id,
+  });
+
+  if (strategy === "always-ok") {
+    return {
+      functionName,
+      node,
+      inputs: [{ name: `${name}-ok`, type: okType }],
+      build: ([ok]) => response("ok", ok, node.id, node.span),
+    };
+  }
+
+  return {
+    functionName,
+    node,
+    inputs: [
+      { name: `${name}-is-ok`, type: BOOL_TYPE },
+      { name: `${name}-ok`, type: okType },
+      { name: `${name}-err`, type: errType },
+    ],
+    build: ([isOk, ok, err], nextId) => ({
+      args: [
+        isOk,
+        response("ok", ok, nextId(), NO_SPAN),
+        response("err", err, nextId(), NO_SPAN),
+      ],
+      id: node.id,
+      type: "native_function",
+      span: node.span,
+      identifier: "if",
+      cid: node.id,
+    }),
+  };
+}
@@ -0,0 +1,444 @@
+import {
+  ASTBackend,
+  ClarastDeclarationKind,
+  ClarastVars,
+  ESBMCResult,
+} from "../types";
+import { readFile } from "../utils";
+
+/**
+ * Failure title given to functions whose contract AST is malformed
+ */
+export const AST_INVALID = "ast-invalid";
+
+/**
+ * Kinds allowed as the first element of an `expressions` entry
+ */
+const DECLARATION_KINDS: ClarastDeclarationKind[] = [
+  "map",
+  "data_var",
+  "constant",
+  "fungible_token",
+  "non_fungible_token",
+  "public",
+  "read_only",
+  "private",
+];
+
+/**
+ * `vars` categories the ESBMC frontend always reads
+ */
+const REQUIRED_VARS: (keyof ClarastVars)[] = [
+  "variable_declaration",
+  "function_declaration",
+  "map_declaration",
+];
+
+/**
+ * Type kinds whose fourth element lists component types
+ */
+const COMPOSITE_TYPES = ["optional", "response", "list"];
+
+/**
+ * Problems beyond this many are summarised rather than listed
+ */
+const MAX_REPORTED_PROBLEMS = 10;
+
+/**
+ * Ids seen while walking the expressions, to check `cid` references
+ */
+interface ExpressionIds {
+  ids: Set<number>;
+  references: { cid: number; path: string }[];
+}
+
+/**
+ * Check if a value is a plain object
+ * @param value Value to check
+ * @returns True if the value is a non-array object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check if a value is a non-negative integer
+ * @param value Value to check
+ * @returns True if the value is a whole number of at least zero
+ */
+function isCount(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Check that a value is an array of strings
+ * @param value Value to check
+ * @param path JSON path of the value
+ * @param problems Problems found so far, added to in place
+ */
+function checkStringArray(
+  value: unknown,
+  path: string,
+  problems: string[]
+): void {
+  if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+    problems.push(`${path} must be an array of strings`);
+  }
+}
+
+/**
+ * Check that a value is an object whose values are all strings
+ * @param value Value to check
+ * @param path JSON path of the value
+ * @param problems Problems found so far, added to in place
+ */
+function checkStringRecord(
+  value: unknown,
+  path: string,
+  problems: string[]
+): void {
+  if (
+    !isRecord(value) ||
+    Object.values(value).some((v) => typeof v !== "string")
+  ) {
+    problems.push(`${path} must be an object of strings`);
+  }
+}
+
+/**
+ * Check a Clarity type, including any component types
+ * @param value Value to check
+ * @param path JSON path of the value
+ * @param problems Problems found so far, added to in place
+ */
+function checkType(value: unknown, path: string, problems: string[]): void {
+  if (
+    !Array.isArray(value) ||
+    value.length < 3 ||
+    value.slice(0, 3).some((v) => typeof v !== "string")
+  ) {
+    problems.push(`${path} must be a type of the form [name, kind, size, ...]`);
+    return;
+  }
+
+  const [name, , , components, valueType] = value;
+  if (name === "map") {
+    checkType(components, `${path}[3]`, problems);
+    checkType(valueType, `${path}[4]`, problems);
+  } else if (COMPOSITE_TYPES.includes(name)) {
+    if (!Array.isArray(components) || components.length === 0) {
+      problems.push(`${path}[3] must list the component types of ${name}`);
+      return;
+    }
+    components.forEach((c, i) => checkType(c, `${path}[3][${i}]`, problems));
+  } else if (name === "tuple") {
+    if (!Array.isArray(components)) {
+      problems.push(`${path}[3] must list the tuple members`);
+      return;
+    }
+    components.forEach((member, i) => {
+      const memberPath = `${path}[3][${i}]`;
+      // Either [name, type] or, in map declarations, [type, name, size]
+      if (Array.isArray(member) && member.length === 2) {
+        checkType(member[1], `${memberPath}[1]`, problems);
+      } else {
+        checkType(member, memberPath, problems);
+      }
+    });
+  }
+}
+
+/**
+ * Check a source span
+ * @param value Value to check
+ * @param path JSON path of the value
+ * @param problems Problems found so far, added to in place
+ */
+function checkSpan(value: unknown, path: string, problems: string[]): void {
+  if (
+    !isRecord(value) ||
+    !isCount(value.start_line) ||
+    !isCount(value.start_column) ||
+    !isCount(value.end_line) ||
+    !isCount(value.end_column)
+  ) {
+    problems.push(
+      `${path} must have non-negative integer start_line, start_column, end_line and end_column`
+    );
+    return;
+  }
+
+  if (
+    value.start_line > value.end_line ||
+    (value.start_line === value.end_line &&
+      value.start_column > value.end_column)
+  ) {
+    problems.push(`${path} ends before it starts`);
+  }
+}
+
+/**
+ * Check an expression node and everything nested in it
+ * @param value Value to check
+ * @param path JSON path of the value
+ * @param problems Problems found so far, added to in place
+ * @param seen Ids and references collected so far, added to in place
+ */
+function checkExpression(
+  value: unknown,
+  path: string,
+  problems: string[],
+  seen: ExpressionIds
+): void {
+  if (!isRecord(value)) {
+    problems.push(`${path} must be an expression object`);
+    return;
+  }
+
+  if (!isCount(value.id)) {
+    problems.push(`${path}.id must be a non-negative integer`);
+  } else {
+    seen.ids.add(value.id);
+  }
+  if (typeof value.type !== "string" || value.type === "") {
+    problems.push(`${path}.type must be a non-empty string`);
+  }
+  if (typeof value.identifier !== "string") {
+    problems.push(`${path}.identifier must be a string`);
+  }
+  if (!isCount(value.cid)) {
+    problems.push(`${path}.cid must be a non-negative integer`);
+  } else {
+    seen.references.push({ cid: value.cid, path: `${path}.cid` });
+  }
+  checkSpan(value.span, `${path}.span`, problems);
+
+  for (const key of ["objtype", "return_type"]) {
+    if (value[key] !== undefined) {
+      checkType(value[key], `${path}.${key}`, problems);
+    }
+  }
+  if (value.value !== undefined) {
+    checkExpression(value.value, `${path}.value`, problems, seen);
+  }
+  for (const key of ["args", "body"]) {
+    const children = value[key];
+    if (children === undefined) continue;
+    if (!Array.isArray(children)) {
+      problems.push(`${path}.${key} must be an array of expressions`);
+      continue;
+    }
+    children.forEach((child, i) =>
+      checkExpression(child, `${path}.${key}[${i}]`, problems, seen)
+    );
+  }
+}
+
+/**
+ * Check the contract identifier
+ * @param value Value to check
+ * @param problems Problems found so far, added to in place
+ */
+function checkIdentifier(value: unknown, problems: string[]): void {
+  if (!isRecord(value)) {
+    problems.push("identifier must be an object");
+    return;
+  }
+
+  if (typeof value.contract_name !== "string" || value.contract_name === "") {
+    problems.push("identifier.contract_name must be a non-empty string");
+  }
+  if (typeof value.issuer_principal !== "string") {
+    problems.push("identifier.issuer_principal must be a string");
+  }
+
+  const raw = value.issuer_raw;
+  if (
+    !Array.isArray(raw) ||
+    !isCount(raw[0]) ||
+    raw[0] > 31 ||
+    !Array.isArray(raw[1]) ||
+    raw[1].length !== 20 ||
+    raw[1].some((byte: unknown) => !isCount(byte) || byte > 255)
+  ) {
+    problems.push(
+      "identifier.issuer_raw must be [version, 20 hash bytes] with a version below 32"
+    );
+  }
+}
+
+/**
+ * Check a parsed .clarast file against the structure the ESBMC Clarity
+ * frontend expects, including that ids referenced by `cid` and `globals`
+ * exist and that listed functions are declared
+ * @param ast Parsed .clarast content
+ * @returns Problems found, empty if the AST is valid
+ */
+export function validateClarast(ast: unknown): string[] {
+  const problems: string[] = [];
+  if (!isRecord(ast)) {
+    return ["the AST must be a JSON object"];
+  }
+
+  if (!isRecord(ast.vars)) {
+    problems.push("vars must be an object");
+  } else {
+    for (const key of REQUIRED_VARS) {
+      if (ast.vars[key] === undefined) {
+        problems.push(`vars.${key} is missing`);
+      }
+    }
+    for (const [key, names] of Object.entries(ast.vars)) {
+      checkStringArray(names, `vars.${key}`, problems);
+    }
+  }
+
+  checkIdentifier(ast.identifier, problems);
+
+  if (!Array.isArray(ast.types)) {
+    problems.push("types must be an array");
+  } else {
+    ast.types.forEach((t, i) => checkType(t, `types[${i}]`, problems));
+  }
+
+  // Walk every declaration, remembering ids and the functions declared
+  const seen: ExpressionIds = { ids: new Set(), references: [] };
+  const declarationIds = new Set<number>();
+  const functions = new Map<string, ClarastDeclarationKind>();
+
+  if (!Array.isArray(ast.expressions)) {
+    problems.push("expressions must be an array");
+  } else {
+    ast.expressions.forEach((entry, i) => {
+      const path = `expressions[${i}]`;
+      if (!Array.isArray(entry) || entry.length !== 2) {
+        problems.push(`${path} must be a [kind, declaration] pair`);
+        return;
+      }
+
+      const [kind, declaration] = entry;
+      if (!DECLARATION_KINDS.includes(kind)) {
+        problems.push(`${path}[0] has unknown declaration kind '${kind}'`);
+      }
+      checkExpression(declaration, `${path}[1]`, problems, seen);
+      if (!isRecord(declaration)) return;
+
+      if (isCount(declaration.id)) {
+        declarationIds.add(declaration.id);
+      }
+      if (["public", "read_only", "private"].includes(kind)) {
+        functions.set(String(declaration.identifier), kind);
+        if (declaration.return_type === undefined) {
+          problems.push(`${path}[1].return_type is missing`);
+        }
+      }
+    });
+  }
+
+  for (const { cid, path } of seen.references) {
+    if (!seen.ids.has(cid)) {
+      problems.push(`${path} refers to unknown id ${cid}`);
+    }
+  }
+
+  if (!isRecord(ast.globals)) {
+    problems.push("globals must be an object");
+  } else {
+    for (const [name, id] of Object.entries(ast.globals)) {
+      if (!isCount(id) || !declarationIds.has(id)) {
+        problems.push(`globals.${name} is not the id of a declaration`);
+      }
+    }
+  }
+
+  const functionLists: [string, ClarastDeclarationKind[]][] = [
+    ["exported_functions", ["public", "read_only"]],
+    ["private_functions", ["private"]],
+  ];
+  for (const [key, kinds] of functionLists) {
+    const names = ast[key];
+    checkStringArray(names, key, problems);
+    if (!Array.isArray(names)) continue;
+
+    for (const name of names) {
+      const kind = functions.get(name);
+      if (!kind || !kinds.includes(kind)) {
+        problems.push(`${key} lists '${name}', which is not declared as such`);
+      }
+    }
+  }
+
+  if (!isRecord(ast.const_values)) {
+    problems.push("const_values must be an object");
+  }
+  if (!isRecord(ast.backfill)) {
+    problems.push("backfill must be an object");
+  }
+  checkStringRecord(ast.previous_block, "previous_block", problems);
+  checkStringRecord(ast.stacks_keywords, "stacks_keywords", problems);
+
+  return problems;
+}
+
+/**
+ * Read and validate a .clarast file
+ * @param astFile Path to the AST file
+ * @returns Problems found, empty if the AST is valid
+ */
+export function validateASTFile(astFile: string): string[] {
+  let ast: unknown;
+  try {
+    ast = JSON.parse(readFile(astFile));
+  } catch (error) {
+    return [`the AST is not valid JSON: ${error}`];
+  }
+  return validateClarast(ast);
+}
+
+/**
+ * Thrown when a backend produces an AST that fails validation. The AST
+ * is discarded, never written to the AST work directory.
+ */
+export class InvalidASTError extends Error {
+  constructor(readonly backend: ASTBackend, readonly problems: string[]) {
+    super(`invalid AST from the ${backend} backend: ${problems.join("; ")}`);
+    this.name = "InvalidASTError";
+  }
+}
+
+/**
+ * Build the result reported for a function whose contract AST is invalid,
+ * in place of running ESBMC on it
+ * @param clarityFile Path to the Clarity contract file
+ * @param functionName Name of the function
+ * @param problems Problems found by the validator
+ * @param astBackend Backend that produced the AST
+ * @returns ESBMC result with a single ast-invalid failure
+ */
+export function createASTInvalidResult(
+  clarityFile: string,
+  functionName: string,
+  problems: string[],
+  astBackend: ASTBackend
+): ESBMCResult {
+  const listed = problems.slice(0, MAX_REPORTED_PROBLEMS);
+  const remaining = problems.length - listed.length;
+  const summary =
+    listed.join("; ") + (remaining > 0 ? `; and ${remaining} more` : "");
+
+  return {
+    status: "error",
+    failures: [
+      {
+        functionName,
+        lineNumber: -1,
+        title: AST_INVALID,
+        failingCode: `Invalid AST from the ${astBackend} backend: ${summary}`,
+      },
+    ],
+    rawOutput: problems.join("\n"),
+    clarityFile,
+    functionName,
+    astBackend,
+  };
+}
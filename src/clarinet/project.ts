@@ -0,0 +1,379 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as yaml from "js-yaml";
+import { parse as parseToml } from "smol-toml";
+import { ClarinetProject, ContractInfo, DeploymentPlan } from "../types";
+import { findFiles, Logger, readFile } from "../utils";
+
+/**
+ * File name of a Clarinet project manifest
+ */
+export const CLARINET_MANIFEST = "Clarinet.toml";
+
+/**
+ * Deployment plan transaction that publishes a contract from the project
+ */
+const PUBLISH_TRANSACTION = "contract-publish";
+
+/**
+ * Deployment plan transaction that publishes a requirement: a contract
+ * deployed elsewhere, emulated from its cached source
+ */
+const EMULATED_PUBLISH_TRANSACTION = "emulated-contract-publish";
+
+/**
+ * Normalise a path so paths from manifests and from git compare equal
+ * @param filePath Path to normalise
+ * @returns Normalised path with forward slashes
+ */
+export function normalizePath(filePath: string): string {
+  return path.normalize(filePath).split(path.sep).join("/");
+}
+
+/**
+ * Read an epoch from a manifest value. TOML and YAML may give us a number
+ * (2.4), a string ("2.4") or a keyword ("latest").
+ * @param value Raw value
+ * @returns Epoch as a string, or undefined if not set
+ */
+export function parseEpoch(value: unknown): string | undefined {
+  if (typeof value === "number") {
+    // Keep one decimal so 2.0 stays "2.0" rather than "2"
+    return Number.isInteger(value) ? value.toFixed(1) : `${value}`;
+  }
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+/**
+ * Read a Clarity version from a manifest value
+ * @param value Raw value
+ * @returns Clarity version, or undefined if not set
+ */
+export function parseClarityVersion(value: unknown): number | undefined {
+  const version = typeof value === "string" ? parseInt(value, 10) : value;
+  return typeof version === "number" && !isNaN(version) ? version : undefined;
+}
+
+/**
+ * Parse a Clarinet.toml manifest
+ * @param content Manifest content
+ * @param root Directory containing the manifest, relative to the workspace
+ * @returns Clarinet project
+ */
+export function parseClarinetManifest(
+  content: string,
+  root: string
+): ClarinetProject {
+  const manifest = parseToml(content) as {
+    project?: { name?: string };
+    contracts?: Record<
+      string,
+      { path?: string; clarity_version?: unknown; epoch?: unknown }
+    >;
+  };
+
+  const contracts: ContractInfo[] = [];
+  for (const [name, settings] of Object.entries(manifest.contracts ?? {})) {
+    if (!settings.path) {
+      Logger.warning(`Contract ${name} in ${root} has no path, skipping`);
+      continue;
+    }
+
+    contracts.push({
+      name,
+      path: normalizePath(path.join(root, settings.path)),
+      clarityVersion: parseClarityVersion(settings.clarity_version),
+      epoch: parseEpoch(settings.epoch),
+    });
+  }
+
+  return {
+    name: manifest.project?.name || path.basename(path.resolve(root)),
+    root: normalizePath(root),
+    manifestPath: normalizePath(path.join(root, CLARINET_MANIFEST)),
+    contracts,
+    requirements: {},
+  };
+}
+
+/**
+ * Parse the contracts published by a Clarinet deployment plan. Contracts
+ * of the project are kept apart from emulated requirements, which are
+ * deployed by someone else.
+ * @param content Deployment plan content
+ * @param root Directory of the Clarinet project, relative to the workspace
+ * @returns Project contracts and requirements published by the plan
+ */
+export function parseDeploymentPlan(
+  content: string,
+  root: string
+): DeploymentPlan {
+  const plan = yaml.load(content) as {
+    plan?: {
+      batches?: {
+        epoch?: unknown;
+        transactions?: Record<string, Record<string, unknown>>[];
+      }[];
+    };
+  };
+
+  const contracts: ContractInfo[] = [];
+  const requirements: Record<string, string> = {};
+  for (const batch of plan?.plan?.batches ?? []) {
+    for (const transaction of batch.transactions ?? []) {
+      const publish = transaction[PUBLISH_TRANSACTION];
+      if (
+        typeof publish?.["contract-name"] === "string" &&
+        typeof publish?.path === "string"
+      ) {
+        contracts.push({
+          name: publish["contract-name"],
+          path: normalizePath(path.join(root, publish.path)),
+          clarityVersion: parseClarityVersion(publish["clarity-version"]),
+          epoch: parseEpoch(batch.epoch),
+        });
+      }
+
+      const emulated = transaction[EMULATED_PUBLISH_TRANSACTION];
+      if (
+        typeof emulated?.["contract-name"] === "string" &&
+        typeof emulated?.["emulated-sender"] === "string" &&
+        typeof emulated?.path === "string"
+      ) {
+        const principal = `${emulated["emulated-sender"]}.${emulated["contract-name"]}`;
+        requirements[principal] = normalizePath(path.join(root, emulated.path));
+      }
+    }
+  }
+
+  return { contracts, requirements };
+}
+
+/**
+ * Load a Clarinet project from a directory, if it contains Clarinet.toml.
+ * Contracts from `deployments/*.yaml` fill in anything the manifest does
+ * not declare; the requirements they emulate are recorded separately.
+ * @param root Directory to look in, relative to the workspace
+ * @returns Clarinet project, or undefined if there is none
+ */
+export function discoverClarinetProject(
+  root = "."
+): ClarinetProject | undefined {
+  const manifestPath = path.join(root, CLARINET_MANIFEST);
+  if (!fs.existsSync(manifestPath)) {
+    return undefined;
+  }
+
+  let project: ClarinetProject;
+  try {
+    project = parseClarinetManifest(readFile(manifestPath), root);
+  } catch (error) {
+    Logger.warning(`Failed to parse ${manifestPath}: ${error}`);
+    return undefined;
+  }
+
+  const deploymentsDir = path.join(root, "deployments");
+  if (fs.existsSync(deploymentsDir)) {
+    const plans = fs
+      .readdirSync(deploymentsDir)
+      .filter((file) => /\.ya?ml$/.test(file))
+      .sort();
+
+    for (const file of plans) {
+      try {
+        const { contracts, requirements } = parseDeploymentPlan(
+          readFile(path.join(deploymentsDir, file)),
+          root
+        );
+        mergeContracts(project.contracts, contracts);
+        project.requirements = { ...requirements, ...project.requirements };
+      } catch (error) {
+        Logger.warning(`Failed to parse deployment plan ${file}: ${error}`);
+      }
+    }
+  }
+
+  Logger.info(
+    `Found Clarinet project '${project.name}' with ${project.contracts.length} contract(s)`
+  );
+  return project;
+}
+
+/**
+ * Directories never searched for Clarinet projects
+ */
+const IGNORED_DIRECTORIES = new Set(["node_modules", "dist", "target"]);
+
+/**
+ * Find every Clarinet project under a directory, for monorepos that keep
+ * several projects side by side. Hidden directories (including Clarinet's
+ * own `.cache` of requirements) and dependency folders are skipped.
+ * @param root Directory to search, relative to the workspace
+ * @returns Clarinet projects, ordered by path
+ */
+export function discoverClarinetProjects(root = "."): ClarinetProject[] {
+  const projects: ClarinetProject[] = [];
+  const pending = [root];
+
+  while (pending.length > 0) {
+    const dir = pending.shift() as string;
+
+    const project = discoverClarinetProject(dir);
+    if (project) {
+      projects.push(project);
+    }
+
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch (error) {
+      Logger.debug(`Failed to read ${dir}: ${error}`);
+      continue;
+    }
+
+    for (const entry of entries) {
+      if (
+        entry.isDirectory() &&
+        !entry.name.startsWith(".") &&
+        !IGNORED_DIRECTORIES.has(entry.name)
+      ) {
+        pending.push(path.join(dir, entry.name));
+      }
+    }
+  }
+
+  return projects.sort((a, b) => a.root.localeCompare(b.root));
+}
+
+/**
+ * Add contracts from a deployment plan to the manifest contracts. Manifest
+ * entries win; the plan only fills in missing contracts and settings.
+ * @param contracts Contracts from the manifest, updated in place
+ * @param planContracts Contracts from a deployment plan
+ */
+function mergeContracts(
+  contracts: ContractInfo[],
+  planContracts: ContractInfo[]
+): void {
+  for (const planContract of planContracts) {
+    const existing = contracts.find((c) => c.path === planContract.path);
+    if (!existing) {
+      contracts.push(planContract);
+      continue;
+    }
+
+    existing.clarityVersion ??= planContract.clarityVersion;
+    existing.epoch ??= planContract.epoch;
+  }
+}
+
+/**
+ * Look up a contract by file path. Files that are not part of a Clarinet
+ * project are named after their file, like Clarinet does by default.
+ * @param file Path of the contract, relative to the workspace
+ * @param project Clarinet project, if any
+ * @returns Contract info
+ */
+export function getContractInfo(
+  file: string,
+  project?: ClarinetProject
+): ContractInfo {
+  const normalized = normalizePath(file);
+  const contract = project?.contracts.find((c) => c.path === normalized);
+  return contract ?? { name: path.basename(file, ".clar"), path: file };
+}
+
+/**
+ * Index the contracts that can be referenced by name from a contract:
+ * those declared by its Clarinet project or, outside any project, the
+ * Clarity files in the contract directories
+ * @param project Clarinet project, if any
+ * @param contractsDirs Directories to search when there is no project
+ * @returns Contract paths keyed by contract name; the first file found
+ * wins if two share a name
+ */
+export function getContractFiles(
+  project: ClarinetProject | undefined,
+  contractsDirs: string[]
+): Map<string, string> {
+  const files = project
+    ? project.contracts.map((c) => c.path)
+    : contractsDirs
+        .flatMap((dir) => findFiles(dir, "*.clar"))
+        .filter((file) => file.endsWith(".clar"))
+        .map(normalizePath);
+
+  const contractFiles = new Map<string, string>();
+  for (const file of files) {
+    const { name } = getContractInfo(file, project);
+    if (!contractFiles.has(name)) {
+      contractFiles.set(name, file);
+    }
+  }
+  return contractFiles;
+}
+
+/**
+ * Find the requirements of a project: those its deployment plans emulate
+ * and those Clarinet has downloaded, cached as
+ * `.cache/requirements/<principal>.clar`. Requirements are only read to
+ * resolve calls into them, never verified.
+ * @param project Clarinet project
+ * @returns Paths of the requirement sources keyed by contract principal
+ */
+export function getRequirementFiles(
+  project: ClarinetProject
+): Map<string, string> {
+  const requirements = new Map(Object.entries(project.requirements));
+  const requirementsDir = path.join(project.root, ".cache", "requirements");
+  if (!fs.existsSync(requirementsDir)) {
+    return requirements;
+  }
+
+  for (const file of fs.readdirSync(requirementsDir).sort()) {
+    const principal = path.basename(file, ".clar");
+    if (file.endsWith(".clar") && !requirements.has(principal)) {
+      requirements.set(
+        principal,
+        normalizePath(path.join(requirementsDir, file))
+      );
+    }
+  }
+  return requirements;
+}
+
+/**
+ * Get the directories holding the contracts of a Clarinet project
+ * @param project Clarinet project
+ * @returns Unique contract directories
+ */
+export function getContractDirectories(project: ClarinetProject): string[] {
+  return Array.from(
+    new Set(project.contracts.map((c) => normalizePath(path.dirname(c.path))))
+  );
+}
+
+/**
+ * Find the Clarinet project a contract file belongs to: the project that
+ * declares it, or else the innermost project whose directory contains it
+ * @param file Path of the contract, relative to the workspace
+ * @param projects Clarinet projects in the workspace
+ * @returns Owning project, or undefined if the file is outside all of them
+ */
+export function findProjectForFile(
+  file: string,
+  projects: ClarinetProject[]
+): ClarinetProject | undefined {
+  const normalized = normalizePath(file);
+  const declaring = projects.find((p) =>
+    p.contracts.some((c) => c.path === normalized)
+  );
+  if (declaring) {
+    return declaring;
+  }
+
+  const containing = projects.filter(
+    (p) => p.root === "." || normalized.startsWith(`${p.root}/`)
+  );
+  return containing.sort((a, b) => b.root.length - a.root.length)[0];
+}
@@ -0,0 +1,114 @@
+import * as yaml from "js-yaml";
+import { VerificationConfigFile } from "../types";
+import { fileExists, Logger, readFile } from "../utils";
+
+/**
+ * Config file read when the config_file input is not set
+ */
+export const DEFAULT_CONFIG_FILE = ".clarity-verify.yml";
+
+/**
+ * Parse the YAML config file
+ * @param content YAML content of the file
+ * @param configPath Path of the file, for error messages
+ * @returns Parsed config
+ */
+export function parseConfigFile(
+  content: string,
+  configPath: string
+): VerificationConfigFile {
+  let config: unknown;
+  try {
+    config = yaml.load(content);
+  } catch (error) {
+    throw new Error(`Failed to parse ${configPath}: ${error}`);
+  }
+
+  if (config === undefined || config === null) {
+    return {};
+  }
+  if (typeof config !== "object" || Array.isArray(config)) {
+    throw new Error(`${configPath} must contain a YAML mapping`);
+  }
+
+  const {
+    chain,
+    deployer,
+    esbmc,
+    external_calls: externalCalls,
+  } = config as VerificationConfigFile;
+  if (esbmc !== undefined) {
+    if (typeof esbmc !== "object" || esbmc === null) {
+      throw new Error(`esbmc in ${configPath} must be a mapping`);
+    }
+    if (esbmc.options !== undefined) {
+      if (typeof esbmc.options !== "object" || esbmc.options === null) {
+        throw new Error(`esbmc.options in ${configPath} must be a mapping`);
+      }
+      // `null` removes an option like `false`; numbers become strings
+      esbmc.options = Object.fromEntries(
+        Object.entries(esbmc.options).map(([name, value]) => [
+          name,
+          value === null
+            ? false
+            : typeof value === "boolean"
+            ? value
+            : String(value),
+        ])
+      );
+    }
+  }
+  if (externalCalls !== undefined) {
+    if (typeof externalCalls !== "object" || externalCalls === null) {
+      throw new Error(`external_calls in ${configPath} must be a mapping`);
+    }
+    for (const [principal, settings] of Object.entries(
+      externalCalls.contracts ?? {}
+    )) {
+      if (typeof settings !== "object" || settings === null) {
+        throw new Error(
+          `external_calls.contracts.${principal} in ${configPath} must be a mapping`
+        );
+      }
+    }
+  }
+  if (deployer !== undefined && typeof deployer !== "string") {
+    throw new Error(`deployer in ${configPath} must be a principal string`);
+  }
+  if (chain !== undefined) {
+    if (typeof chain !== "object" || chain === null) {
+      throw new Error(`chain in ${configPath} must be a mapping`);
+    }
+    if (chain.overrides !== undefined) {
+      if (typeof chain.overrides !== "object" || chain.overrides === null) {
+        throw new Error(`chain.overrides in ${configPath} must be a mapping`);
+      }
+      // YAML reads `true` and bare numbers as non-strings
+      chain.overrides = Object.fromEntries(
+        Object.entries(chain.overrides).map(([key, value]) => [
+          key,
+          String(value),
+        ])
+      );
+    }
+  }
+
+  return config as VerificationConfigFile;
+}
+
+/**
+ * Load the config file, if there is one
+ * @param configPath Path to the config file
+ * @returns Parsed config, empty if the file does not exist
+ */
+export function loadConfigFile(
+  configPath: string = DEFAULT_CONFIG_FILE
+): VerificationConfigFile {
+  if (!fileExists(configPath)) {
+    Logger.debug(`No config file at ${configPath}`);
+    return {};
+  }
+
+  Logger.info(`Reading configuration from ${configPath}`);
+  return parseConfigFile(readFile(configPath), configPath);
+}
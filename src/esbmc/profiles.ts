@@ -0,0 +1,223 @@
+import { ESBMCOptions, ESBMCProfile, EscalationStep } from "../types";
+
+/**
+ * Options every profile starts from: the memory model and checks that
+ * suit the Clarity frontend
+ */
+const BASE_OPTIONS: ESBMCOptions = {
+  "force-malloc-success": true,
+  "no-bounds-check": true,
+  "array-flattener": true,
+  "no-unlimited-scanf-check": true,
+  "multi-property": true,
+};
+
+/**
+ * Full ESBMC options of each verification profile
+ */
+export const ESBMC_PROFILES: Record<ESBMCProfile, ESBMCOptions> = {
+  // Shallow bounded model checking: finds simple bugs fast, proves nothing
+  // beyond the bound
+  "quick-bmc": {
+    ...BASE_OPTIONS,
+    unwind: "10",
+    "no-unwinding-assertions": true,
+  },
+  // Proves properties for every loop depth where k-induction succeeds
+  "k-induction": {
+    ...BASE_OPTIONS,
+    "k-induction": true,
+    "max-k-step": "6",
+    unwind: "200",
+    "no-unwinding-assertions": true,
+  },
+  // Raises the bound step by step until a counterexample is found
+  "incremental-bmc": {
+    ...BASE_OPTIONS,
+    "incremental-bmc": true,
+    "max-k-step": "50",
+    "no-unwinding-assertions": true,
+  },
+  // k-induction with deeper steps, bounds checks and unwinding assertions,
+  // so nothing is assumed away
+  exhaustive: {
+    "force-malloc-success": true,
+    "array-flattener": true,
+    "no-unlimited-scanf-check": true,
+    "multi-property": true,
+    "k-induction": true,
+    "max-k-step": "50",
+    unwind: "1000",
+  },
+};
+
+/**
+ * Profile used when the profile input is not set
+ */
+export const DEFAULT_PROFILE: ESBMCProfile = "k-induction";
+
+/**
+ * Options the runner sets for each function, which profiles and
+ * overrides cannot change
+ */
+const RESERVED_OPTIONS = ["clar", "clar_contract", "function"];
+
+/**
+ * Check if a value is the name of a verification profile
+ * @param value Value to check
+ * @returns True if the value names a profile
+ */
+export function isESBMCProfile(value: string): value is ESBMCProfile {
+  return value in ESBMC_PROFILES;
+}
+
+/**
+ * Parse a string of ESBMC flags, such as the esbmc_flags input, into
+ * options. A flag followed by a value that is not itself a flag takes
+ * that value.
+ * @param flags Space separated flags, e.g. `--unwind 10 --verbose`
+ * @returns Options keyed by flag name without the leading dashes
+ */
+export function parseESBMCFlags(flags: string): ESBMCOptions {
+  const options: ESBMCOptions = {};
+  const tokens = flags.split(/\s+/).filter((token) => token !== "");
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (!tokens[i].startsWith("-")) {
+      throw new Error(`Invalid ESBMC flag '${tokens[i]}', expected --option`);
+    }
+    const name = tokens[i].replace(/^-+/, "");
+    const next = tokens[i + 1];
+    if (next !== undefined && !next.startsWith("-")) {
+      options[name] = next;
+      i++;
+    } else {
+      options[name] = true;
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Resolve the ESBMC options of a profile with overrides applied. An
+ * override of `false` removes the option, `true` sets it as a switch, and
+ * any other value replaces the option's value.
+ * @param profile Verification profile
+ * @param overrides Options to set, replace or remove, applied in order
+ * @returns Resolved options
+ */
+export function resolveESBMCOptions(
+  profile: ESBMCProfile,
+  ...overrides: Record<string, string | boolean>[]
+): ESBMCOptions {
+  const options: ESBMCOptions = { ...ESBMC_PROFILES[profile] };
+
+  for (const override of overrides) {
+    for (const [rawName, value] of Object.entries(override)) {
+      const name = rawName.replace(/^-+/, "");
+      if (RESERVED_OPTIONS.includes(name)) {
+        throw new Error(
+          `ESBMC option '${name}' is set for each function and cannot be overridden`
+        );
+      }
+
+      if (value === false) {
+        delete options[name];
+      } else {
+        options[name] = value;
+      }
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Format options as ESBMC command line flags
+ * @param options ESBMC options
+ * @returns Flags, e.g. `--unwind 10`
+ */
+export function formatESBMCOptions(options: ESBMCOptions): string[] {
+  return Object.entries(options).map(([name, value]) =>
+    value === true ? `--${name}` : `--${name} ${value}`
+  );
+}
+
+/**
+ * Options holding the bounds that escalation raises
+ */
+const BOUND_OPTIONS = ["max-k-step", "unwind"];
+
+/**
+ * Multiply the numeric bounds of a set of options
+ * @param options ESBMC options
+ * @param factor Factor to multiply the bounds by
+ * @returns Options with raised bounds
+ */
+function scaleBounds(options: ESBMCOptions, factor: number): ESBMCOptions {
+  const scaled: ESBMCOptions = { ...options };
+  for (const name of BOUND_OPTIONS) {
+    const bound = getBound(options, name);
+    if (bound !== undefined) {
+      scaled[name] = String(bound * factor);
+    }
+  }
+  return scaled;
+}
+
+/**
+ * Read a numeric bound from a set of options
+ * @param options ESBMC options
+ * @param name Option name
+ * @returns Bound, or undefined if the option is not set to an integer
+ */
+function getBound(options: ESBMCOptions, name: string): number | undefined {
+  const value = options[name];
+  const bound = typeof value === "string" ? Number(value) : NaN;
+  return Number.isInteger(bound) ? bound : undefined;
+}
+
+/**
+ * Check if a successful run with the given options proves the function.
+ * k-induction does, as does model checking that keeps its unwinding
+ * assertions; without them a run only shows that there is no
+ * counterexample up to the bound.
+ * @param options ESBMC options of the run
+ * @returns False for bounded runs
+ */
+export function provesProperties(options: ESBMCOptions): boolean {
+  return Boolean(options["k-induction"]) || !options["no-unwinding-assertions"];
+}
+
+/**
+ * Get the options to retry an inconclusive function with, in order: the
+ * same checks with bounds raised twice and four times, then, for
+ * k-induction, incremental bounded model checking. That cannot prove the
+ * function, but finds counterexamples deeper than k-induction reached.
+ * @param options ESBMC options of the first attempt
+ * @returns Escalation steps
+ */
+export function getEscalationSteps(options: ESBMCOptions): EscalationStep[] {
+  const hasBounds = BOUND_OPTIONS.some(
+    (name) => getBound(options, name) !== undefined
+  );
+  const steps: EscalationStep[] = hasBounds
+    ? [2, 4].map((factor) => ({
+        description: `bounds x${factor}`,
+        options: scaleBounds(options, factor),
+      }))
+    : [];
+
+  if (options["k-induction"]) {
+    const bmc = scaleBounds(options, 4);
+    delete bmc["k-induction"];
+    bmc["incremental-bmc"] = true;
+    steps.push({
+      description: "incremental BMC",
+      options: bmc,
+    });
+  }
+
+  return steps;
+}
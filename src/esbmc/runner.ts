@@ -1,56 +1,150 @@
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
 import * as path from "path";
-import { ESBMCResult, FailureDetails } from "../types";
-import { Logger, runInContainer, isFillerLine } from "../utils";
-import { getContractName } from "../ast/generator";
+import {
+  ClarinetProject,
+  ContainerLimits,
+  ContractAST,
+  ESBMCAttempt,
+  ESBMCOptions,
+  ESBMCResult,
+  EscalationPolicy,
+  EscalationStep,
+  FailureDetails,
+  VerificationStatus,
+} from "../types";
+import { ContainerError, Logger, runInContainer, isFillerLine } from "../utils";
+import { getContractInfo } from "../clarinet/project";
+import {
+  formatESBMCOptions,
+  getEscalationSteps,
+  provesProperties,
+} from "./profiles";
+import { isInconclusive } from "./status";
 
 /**
- * Run ESBMC on a specific function in a Clarity contract
+ * Failure title of ESBMC runs stopped at their time limit
+ */
+export const TIMEOUT = "timeout";
+
+/**
+ * How much a result says about the function, for choosing between the
+ * attempts of an escalation: a verdict, then a run that finished without
+ * one, then a run that was stopped, then one that failed
+ */
+const INFORMATIVENESS: Record<VerificationStatus, number> = {
+  falsified: 3,
+  verified: 3,
+  unknown: 2,
+  timeout: 1,
+  error: 0,
+  skipped: 0,
+};
+
+/**
+ * Run ESBMC on a specific function in a Clarity contract. Contracts it
+ * depends on are passed along, so calls into them are verified rather
+ * than left opaque.
  * @param clarityFile Path to the Clarity contract file
  * @param astFile Path to the AST file
  * @param functionName Name of the function to verify
- * @param esbmcFlags Additional ESBMC flags
+ * @param esbmcOptions ESBMC options of the verification profile
  * @param containerRepo Container repository for ESBMC
  * @param containerVersion Container version
+ * @param project Clarinet project the contract belongs to, if any
+ * @param dependencies Local contracts the contract depends on
+ * @param limits Time and memory limits of the ESBMC run
  * @returns ESBMC verification result
  */
 export async function runESBMC(
   clarityFile: string,
   astFile: string,
   functionName: string,
-  esbmcFlags: string,
+  esbmcOptions: ESBMCOptions,
   containerRepo: string,
-  containerVersion: string
+  containerVersion: string,
+  project?: ClarinetProject,
+  dependencies: ContractAST[] = [],
+  limits: ContainerLimits = {}
 ): Promise<ESBMCResult> {
   Logger.info(`Running ESBMC on function ${functionName} in ${clarityFile}`);
 
-  try {
-    // Get contract name without extension
-    const contractName = getContractName(clarityFile);
+  // Get contract name from Clarinet.toml or the file name
+  const contractName = getContractInfo(clarityFile, project).name;
 
-    // Prepare ESBMC command
-    const esbmcCmd = [
-      `--clar ${clarityFile} ${astFile}`,
-      `--clar_contract ${contractName}`,
-      `--force-malloc-success --k-induction --max-k-step 6 --unwind 200`,
-      `--no-bounds-check --array-flattener --no-unlimited-scanf-check`,
-      `--no-unwinding-assertions --multi-property --function ${functionName}`,
-      esbmcFlags,
-    ].join(" ");
+  // Prepare ESBMC command: the contracts and function, then the profile
+  const esbmcCmd = [
+    `--clar ${clarityFile} ${astFile}`,
+    ...dependencies.map((d) => `--clar ${d.clarityFile} ${d.astFile}`),
+    `--clar_contract ${contractName}`,
+    `--function ${functionName}`,
+    ...formatESBMCOptions(esbmcOptions),
+  ].join(" ");
+  const command = `esbmc ${esbmcCmd}`;
+  Logger.info(`ESBMC command: ${command}`);
 
+  try {
     // Run ESBMC in container
     const output = await runInContainer(
       containerRepo,
       containerVersion,
-      esbmcCmd
+      esbmcCmd,
+      process.cwd(),
+      Array.from(
+        new Set(
+          [astFile, ...dependencies.map((d) => d.astFile)].map((file) =>
+            path.dirname(path.resolve(file))
+          )
+        )
+      ),
+      limits
     );
 
     // Parse output
-    return parseESBMCOutput(output, clarityFile, functionName);
+    return {
+      ...qualifyBoundedResult(
+        parseESBMCOutput(output, clarityFile, functionName),
+        esbmcOptions
+      ),
+      command,
+    };
   } catch (error) {
+    if (error instanceof ContainerError) {
+      if (error.reason === "timeout") {
+        Logger.warning(
+          `ESBMC was stopped for ${functionName}: ${error.message}`
+        );
+        return {
+          ...createTimeoutResult(clarityFile, functionName, error),
+          command,
+        };
+      }
+      // Running out of memory says nothing about the function, but unlike
+      // a timeout a retry with the same limit would run out again
+      if (error.reason === "memory") {
+        Logger.error(`ESBMC was stopped for ${functionName}: ${error.message}`);
+        return {
+          ...createErrorResult(
+            clarityFile,
+            functionName,
+            `ESBMC was stopped: ${error.message}`
+          ),
+          command,
+        };
+      }
+      // ESBMC exits with an error code when it finds a counterexample
+      if (hasVerdict(error.output)) {
+        return {
+          ...qualifyBoundedResult(
+            parseESBMCOutput(error.output, clarityFile, functionName),
+            esbmcOptions
+          ),
+          command,
+        };
+      }
+    }
     Logger.error(`ESBMC execution failed for ${functionName}: ${error}`);
     return {
-      verified: false,
+      status: "error",
+      command,
       failures: [
         {
           functionName,
@@ -66,6 +160,177 @@ export async function runESBMC(
   }
 }
 
+/**
+ * Run ESBMC on a function and, with an escalation policy, retry it while
+ * the result is inconclusive: with raised bounds, then with bounded model
+ * checking to look for counterexamples. Retries stop at the first
+ * conclusive result, when the steps run out, or when the time budget is
+ * spent; each attempt's timeout is cut to what is left of the budget.
+ * The result is that of the most informative attempt, the earliest of
+ * equally informative ones.
+ * @param clarityFile Path to the Clarity contract file
+ * @param astFile Path to the AST file
+ * @param functionName Name of the function to verify
+ * @param esbmcOptions ESBMC options of the verification profile
+ * @param containerRepo Container repository for ESBMC
+ * @param containerVersion Container version
+ * @param project Clarinet project the contract belongs to, if any
+ * @param dependencies Local contracts the contract depends on
+ * @param limits Time and memory limits of each ESBMC run
+ * @param escalation Escalation policy, or undefined to run ESBMC once
+ * @returns ESBMC verification result with every attempt recorded
+ */
+export async function runESBMCWithEscalation(
+  clarityFile: string,
+  astFile: string,
+  functionName: string,
+  esbmcOptions: ESBMCOptions,
+  containerRepo: string,
+  containerVersion: string,
+  project?: ClarinetProject,
+  dependencies: ContractAST[] = [],
+  limits: ContainerLimits = {},
+  escalation?: EscalationPolicy
+): Promise<ESBMCResult> {
+  const run = (options: ESBMCOptions, runLimits: ContainerLimits) =>
+    runESBMC(
+      clarityFile,
+      astFile,
+      functionName,
+      options,
+      containerRepo,
+      containerVersion,
+      project,
+      dependencies,
+      runLimits
+    );
+  if (!escalation) {
+    return run(esbmcOptions, limits);
+  }
+
+  const started = Date.now();
+  const steps: EscalationStep[] = [
+    { description: "profile", options: esbmcOptions },
+    ...getEscalationSteps(esbmcOptions),
+  ];
+  const attempts: ESBMCAttempt[] = [];
+  let result: ESBMCResult | undefined;
+
+  for (const step of steps) {
+    const remaining = escalation.budgetSeconds - (Date.now() - started) / 1000;
+    if (result && remaining < 1) {
+      Logger.info(
+        `Escalation budget of ${escalation.budgetSeconds}s spent for ${functionName}`
+      );
+      break;
+    }
+    if (result) {
+      Logger.info(
+        `${functionName} is ${result.status}, retrying with ${step.description}`
+      );
+    }
+
+    const attemptStarted = Date.now();
+    const attempt = await run(step.options, {
+      ...limits,
+      timeoutSeconds: Math.max(
+        1,
+        Math.floor(Math.min(limits.timeoutSeconds ?? Infinity, remaining))
+      ),
+    });
+    attempts.push({
+      description: step.description,
+      command: attempt.command ?? "",
+      status: attempt.status,
+      durationSeconds: Math.round((Date.now() - attemptStarted) / 1000),
+    });
+
+    // A later attempt that says less about the function, such as one
+    // that crashed or ran out of time, does not replace an earlier one
+    if (
+      !result ||
+      INFORMATIVENESS[attempt.status] > INFORMATIVENESS[result.status]
+    ) {
+      result = attempt;
+    }
+    if (!isInconclusive(attempt.status)) {
+      break;
+    }
+  }
+
+  return { ...(result as ESBMCResult), attempts };
+}
+
+/**
+ * Create the inconclusive result of an ESBMC run stopped at its time
+ * limit
+ * @param clarityFile Path to the Clarity contract file
+ * @param functionName Name of the function
+ * @param error Error raised when the container was killed
+ * @returns ESBMC verification result
+ */
+function createTimeoutResult(
+  clarityFile: string,
+  functionName: string,
+  error: ContainerError
+): ESBMCResult {
+  return {
+    status: "timeout",
+    failures: [
+      {
+        functionName,
+        lineNumber: -1,
+        title: TIMEOUT,
+        failingCode: `ESBMC was stopped: ${error.message}`,
+      },
+    ],
+    rawOutput: `Error: ${error.message}`,
+    clarityFile,
+    functionName,
+  };
+}
+
+/**
+ * Report a bounded run that found no counterexample as inconclusive
+ * rather than verified, as it proves nothing beyond the bound
+ * @param result Result parsed from the ESBMC output
+ * @param esbmcOptions ESBMC options of the run
+ * @returns The result, inconclusive if the run was bounded
+ */
+function qualifyBoundedResult(
+  result: ESBMCResult,
+  esbmcOptions: ESBMCOptions
+): ESBMCResult {
+  if (result.status !== "verified" || provesProperties(esbmcOptions)) {
+    return result;
+  }
+  return {
+    ...result,
+    status: "unknown",
+    failures: [
+      {
+        functionName: result.functionName,
+        lineNumber: -1,
+        title: "unknown-result",
+        failingCode:
+          "No counterexample found up to the bound; bounded model checking does not prove the function",
+      },
+    ],
+  };
+}
+
+/**
+ * Check if ESBMC reached a verdict
+ * @param output ESBMC output
+ * @returns True if the output reports success or failure
+ */
+function hasVerdict(output: string): boolean {
+  return (
+    output.includes("VERIFICATION SUCCESSFUL") ||
+    output.includes("VERIFICATION FAILED")
+  );
+}
+
 /**
  * Parse ESBMC output to determine verification result
  * @param output ESBMC output
@@ -80,7 +345,7 @@ export function parseESBMCOutput(
 ): ESBMCResult {
   if (output.includes("VERIFICATION SUCCESSFUL")) {
     return {
-      verified: true,
+      status: "verified",
       failures: [],
       rawOutput: output,
       clarityFile,
@@ -91,7 +356,7 @@ export function parseESBMCOutput(
   if (output.includes("VERIFICATION FAILED")) {
     const failures = parseFailingFunctions(output);
     return {
-      verified: false,
+      status: "falsified",
       failures,
       rawOutput: output,
       clarityFile,
@@ -99,9 +364,10 @@ export function parseESBMCOutput(
     };
   }
 
-  // If output doesn't contain either success or failure message
+  // If output doesn't contain either success or failure message, as when
+  // k-induction neither proves nor refutes a property
   return {
-    verified: false,
+    status: "unknown",
     failures: [
       {
         functionName,
@@ -189,68 +455,50 @@ export function parseFailingFunctions(clarOutput: string): FailureDetails[] {
 }
 
 /**
- * Run ESBMC on multiple functions
- * @param changedFunctions Map of Clarity files to function names
- * @param astMap Map of Clarity files to AST files
- * @param esbmcFlags Additional ESBMC flags
- * @param containerRepo Container repository for ESBMC
- * @param containerVersion Container version
- * @returns Array of ESBMC verification results
+ * Create the result of a function whose verification crashed
+ * @param clarityFile Path to the Clarity contract file
+ * @param functionName Name of the function
+ * @param error Error raised while verifying it
+ * @returns ESBMC verification result
  */
-export async function runESBMCOnFunctions(
-  changedFunctions: Map<string, string[]>,
-  astMap: Map<string, string>,
-  esbmcFlags: string,
-  containerRepo: string,
-  containerVersion: string
-): Promise<ESBMCResult[]> {
-  const results: ESBMCResult[] = [];
-
-  // Process each file and its functions
-  for (const [clarityFile, functions] of changedFunctions.entries()) {
-    const astFile = astMap.get(clarityFile);
-
-    if (!astFile) {
-      Logger.warning(
-        `No AST file found for ${clarityFile}, skipping verification`
-      );
-      continue;
-    }
-
-    // Verify each function
-    for (const functionName of functions) {
-      try {
-        const result = await runESBMC(
-          clarityFile,
-          astFile,
-          functionName,
-          esbmcFlags,
-          containerRepo,
-          containerVersion
-        );
-
-        results.push(result);
-      } catch (error) {
-        Logger.error(`Failed to verify function ${functionName}: ${error}`);
-
-        // Add error result
-        results.push({
-          verified: false,
-          failures: [
-            {
-              functionName,
-              lineNumber: -1,
-              title: "verification-error",
-              failingCode: `Error during verification: ${error}`,
-            },
-          ],
-          rawOutput: `Error: ${error}`,
-          clarityFile,
-          functionName,
-        });
-      }
-    }
-  }
+export function createErrorResult(
+  clarityFile: string,
+  functionName: string,
+  error: unknown
+): ESBMCResult {
+  return {
+    status: "error",
+    failures: [
+      {
+        functionName,
+        lineNumber: -1,
+        title: "verification-error",
+        failingCode: `Error during verification: ${error}`,
+      },
+    ],
+    rawOutput: `Error: ${error}`,
+    clarityFile,
+    functionName,
+  };
+}
 
-  return results;
+/**
+ * Create the result of a function that was not verified
+ * @param clarityFile Path to the Clarity contract file
+ * @param functionName Name of the function
+ * @param reason Why it was skipped
+ * @returns ESBMC verification result
+ */
+export function createSkippedResult(
+  clarityFile: string,
+  functionName: string,
+  reason: string
+): ESBMCResult {
+  return {
+    status: "skipped",
+    failures: [],
+    rawOutput: reason,
+    clarityFile,
+    functionName,
+  };
 }
@@ -0,0 +1,74 @@
+import { ESBMCResult, VerificationStatus } from "../types";
+
+/**
+ * Verification statuses, most severe first
+ */
+export const VERIFICATION_STATUSES: VerificationStatus[] = [
+  "falsified",
+  "error",
+  "timeout",
+  "unknown",
+  "verified",
+  "skipped",
+];
+
+/**
+ * Statuses that fail the workflow when the fail_on input is not set:
+ * only counterexamples, not inconclusive runs or infrastructure errors
+ */
+export const DEFAULT_FAIL_ON: VerificationStatus[] = ["falsified"];
+
+/**
+ * Statuses of runs that ended without proving or refuting the function
+ */
+const INCONCLUSIVE_STATUSES: VerificationStatus[] = ["unknown", "timeout"];
+
+/**
+ * Check if a value is a verification status
+ * @param value Value to check
+ * @returns True if the value is a verification status
+ */
+export function isVerificationStatus(
+  value: string
+): value is VerificationStatus {
+  return (VERIFICATION_STATUSES as string[]).includes(value);
+}
+
+/**
+ * Check if a status means ESBMC could not decide the function
+ * @param status Verification status
+ * @returns True for unknown and timeout
+ */
+export function isInconclusive(status: VerificationStatus): boolean {
+  return INCONCLUSIVE_STATUSES.includes(status);
+}
+
+/**
+ * Count the results with each status
+ * @param esbmcResults Array of ESBMC results
+ * @returns Number of results keyed by status
+ */
+export function countStatuses(
+  esbmcResults: ESBMCResult[]
+): Record<VerificationStatus, number> {
+  const counts = Object.fromEntries(
+    VERIFICATION_STATUSES.map((status) => [status, 0])
+  ) as Record<VerificationStatus, number>;
+  for (const result of esbmcResults) {
+    counts[result.status]++;
+  }
+  return counts;
+}
+
+/**
+ * Get the overall status of a run: the most severe status of its results
+ * @param esbmcResults Array of ESBMC results
+ * @returns Overall status, or undefined if there are no results
+ */
+export function getOverallStatus(
+  esbmcResults: ESBMCResult[]
+): VerificationStatus | undefined {
+  return VERIFICATION_STATUSES.find((status) =>
+    esbmcResults.some((r) => r.status === status)
+  );
+}
@@ -1,20 +1,22 @@
 import * as core from "@actions/core";
 import * as github from "@actions/github";
 import * as fs from "fs";
-import { ESBMCResult } from "../types";
+import { ESBMCResult, ProjectVerification, VerificationStatus } from "../types";
 import { Logger } from "../utils";
 import { generateSummary } from "../sarif/converter";
+import {
+  countStatuses,
+  DEFAULT_FAIL_ON,
+  VERIFICATION_STATUSES,
+} from "../esbmc/status";
 
 /**
  * Post a comment to a pull request with verification results
- * @param esbmcResults Array of ESBMC verification results
- * @param changedFunctions Map of files to changed functions
+ * @param verifications Changed functions and results, grouped by project
  * @returns True if comment was posted successfully
  */
 export async function postPRComment(
-  esbmcResults: ESBMCResult[],
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  changedFunctions: Map<string, string[]>
+  verifications: ProjectVerification[]
 ): Promise<boolean> {
   try {
     // Check if we're in a PR context
@@ -35,7 +37,7 @@ export async function postPRComment(
     const octokit = github.getOctokit(token);
 
     // Generate summary
-    const summary = generateSummary(esbmcResults);
+    const summary = generateSummary(verifications);
 
     // Post comment
     await octokit.rest.issues.createComment({
@@ -108,23 +110,53 @@ export async function uploadSARIF(sarifFile: string): Promise<boolean> {
  * Set the workflow status based on verification results
  * @param esbmcResults Array of ESBMC verification results
  * @param failOnIssue Whether to fail the workflow if issues are found
+ * @param failOn Statuses that count as issues
  */
 export function setWorkflowStatus(
   esbmcResults: ESBMCResult[],
-  failOnIssue: boolean
+  failOnIssue: boolean,
+  failOn: VerificationStatus[] = DEFAULT_FAIL_ON
 ): void {
-  const hasFailures = esbmcResults.some((r) => !r.verified);
+  const counts = countStatuses(esbmcResults);
+  const issues = VERIFICATION_STATUSES.filter(
+    (status) => failOn.includes(status) && counts[status] > 0
+  );
+
+  // Statuses that do not fail the workflow are still worth a warning
+  const unreported = (["error", "timeout", "unknown"] as const).filter(
+    (status) => !failOn.includes(status) && counts[status] > 0
+  );
+  if (unreported.length > 0) {
+    core.warning(
+      `Some functions could not be verified: ${describeCounts(
+        counts,
+        unreported
+      )}`
+    );
+  }
 
-  if (hasFailures) {
-    const failureCount = esbmcResults.filter((r) => !r.verified).length;
-    const message = `Verification failed for ${failureCount} function(s)`;
+  if (issues.length > 0) {
+    const message = `Verification failed: ${describeCounts(counts, issues)}`;
 
     if (failOnIssue) {
       core.setFailed(message);
     } else {
       core.warning(message);
     }
-  } else {
+  } else if (unreported.length === 0) {
     core.info("All functions verified successfully");
   }
 }
+
+/**
+ * Describe how many functions have each of the given statuses
+ * @param counts Number of results keyed by status
+ * @param statuses Statuses to describe
+ * @returns Description such as "2 falsified, 1 error"
+ */
+function describeCounts(
+  counts: Record<VerificationStatus, number>,
+  statuses: readonly VerificationStatus[]
+): string {
+  return statuses.map((status) => `${counts[status]} ${status}`).join(", ");
+}
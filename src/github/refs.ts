@@ -0,0 +1,75 @@
+import * as github from "@actions/github";
+import { Logger } from "../utils";
+
+/**
+ * SHA reported by GitHub for the "before" of a push that created a branch
+ */
+const NULL_SHA = "0000000000000000000000000000000000000000";
+
+/**
+ * Base and head references to compare
+ */
+export interface RefPair {
+  baseRef: string;
+  headRef: string;
+}
+
+/**
+ * Get the default branch of the repository from the event payload
+ * @returns Default branch name, or "main" if the payload does not say
+ */
+function getDefaultBranch(): string {
+  return github.context.payload.repository?.default_branch || "main";
+}
+
+/**
+ * Work out which references to compare for the triggering event.
+ * Explicit `base_ref` / `head_ref` inputs always win.
+ *
+ * - `pull_request` / `pull_request_target`: PR base and head commits
+ * - `merge_group`: the queue's base and head commits
+ * - `push`: the commits before and after the push; a push that creates
+ *   a branch is compared against the default branch
+ * - `workflow_dispatch` and anything else: the default branch against the
+ *   commit the workflow runs on
+ * @param baseInput Value of the base_ref input
+ * @param headInput Value of the head_ref input
+ * @returns References to compare
+ */
+export function resolveRefs(baseInput: string, headInput: string): RefPair {
+  const { eventName, payload, sha } = github.context;
+  let baseRef = "";
+  let headRef = "";
+
+  switch (eventName) {
+    case "pull_request":
+    case "pull_request_target":
+      baseRef =
+        payload.pull_request?.base.sha || payload.pull_request?.base.ref;
+      headRef =
+        payload.pull_request?.head.sha || payload.pull_request?.head.ref;
+      break;
+    case "merge_group":
+      baseRef = payload.merge_group?.base_sha;
+      headRef = payload.merge_group?.head_sha;
+      break;
+    case "push":
+      baseRef = payload.before !== NULL_SHA ? payload.before : "";
+      headRef = payload.after || sha;
+      break;
+    default:
+      headRef = sha;
+  }
+
+  const refs = {
+    baseRef: baseInput || baseRef || getDefaultBranch(),
+    headRef: headInput || headRef || "HEAD",
+  };
+
+  Logger.info(
+    `Resolved refs for '${eventName || "unknown"}' event: base=${
+      refs.baseRef
+    }, head=${refs.headRef}`
+  );
+  return refs;
+}
@@ -1,17 +1,101 @@
 import * as core from "@actions/core";
 import * as github from "@actions/github";
 import * as path from "path";
-import { ActionConfig, ChangedFunction } from "./types";
-import { Logger, parseListInput } from "./utils";
-import { detectChangedFunctions } from "./parser/function-detector";
-import { generateASTs } from "./ast/generator";
-import { runESBMC } from "./esbmc/runner";
+import {
+  ActionConfig,
+  ASTBackend,
+  ASTGenerationSettings,
+  ChainContext,
+  ChangedFunction,
+  ClarinetProject,
+  ContainerLimits,
+  ContractAST,
+  ESBMCOptions,
+  ESBMCProfile,
+  ESBMCResult,
+  EscalationPolicy,
+  ExternalCallConfig,
+  ExternalCallStubs,
+  GeneratedAST,
+  ProjectVerification,
+  TaskResult,
+  VerificationConfigFile,
+} from "./types";
+import {
+  getDefaultParallelism,
+  Logger,
+  parseKeyValueInput,
+  parseListInput,
+  readFile,
+  runWithConcurrency,
+} from "./utils";
+import {
+  DEFAULT_MAX_FETCH_DEPTH,
+  detectChangedFunctions,
+  resolveComparison,
+} from "./parser/function-detector";
+import { AST_BACKENDS, generateAST, generateASTs } from "./ast/generator";
+import { createASTInvalidResult, InvalidASTError } from "./ast/validator";
+import {
+  DEFAULT_NETWORK,
+  isNetworkPreset,
+  NETWORK_PRESETS,
+  resolveChainContext,
+} from "./ast/chain-context";
+import { getASTWorkDir } from "./ast/cache";
+import { decodePrincipal, DEFAULT_DEPLOYER } from "./ast/principal";
+import {
+  DEFAULT_STUB_STRATEGY,
+  findMockedContracts,
+  findUntypedExternalCalls,
+  parseImplementedTraits,
+  parseTraitDefinitions,
+  resolveExternalCallConfig,
+} from "./ast/stubs";
+import { DEFAULT_CONFIG_FILE, loadConfigFile } from "./config/config-file";
+import {
+  createErrorResult,
+  createSkippedResult,
+  runESBMCWithEscalation,
+} from "./esbmc/runner";
+import {
+  DEFAULT_PROFILE,
+  ESBMC_PROFILES,
+  isESBMCProfile,
+  parseESBMCFlags,
+  resolveESBMCOptions,
+} from "./esbmc/profiles";
+import {
+  DEFAULT_FAIL_ON,
+  getOverallStatus,
+  isVerificationStatus,
+  VERIFICATION_STATUSES,
+} from "./esbmc/status";
 import { generateSARIF, writeSARIFReport } from "./sarif/converter";
 import {
   postPRComment,
   uploadSARIF,
   setWorkflowStatus,
 } from "./github/comment";
+import { resolveRefs } from "./github/refs";
+import {
+  discoverClarinetProjects,
+  findProjectForFile,
+  getContractDirectories,
+  getContractFiles,
+  getContractInfo,
+  getRequirementFiles,
+  normalizePath,
+  parseClarityVersion,
+  parseEpoch,
+} from "./clarinet/project";
+import { resolveDependencyClosure } from "./parser/dependencies";
+import {
+  CLARITY_VERSIONS,
+  EPOCHS,
+  findKeywordDiagnostics,
+  resolveContractLanguage,
+} from "./parser/clarity-version";
 
 /**
  * Main function to run the GitHub Action
@@ -24,12 +108,25 @@ async function run(): Promise<void> {
     const config = getActionConfig();
     Logger.info(`Configuration: ${JSON.stringify(config, null, 2)}`);
 
-    // 1. Detect changed functions
-    const changedFunctions = await detectChangedFunctions(
+    // 1. Resolve the commits to compare and detect changed functions
+    const comparison = await resolveComparison(
       config.baseRef,
       config.headRef,
+      config.maxFetchDepth
+    );
+    Logger.info(
+      `Comparing ${comparison.headSha} against merge base ${comparison.mergeBaseSha} (base ${comparison.baseSha})`
+    );
+    core.setOutput("base_sha", comparison.baseSha);
+    core.setOutput("head_sha", comparison.headSha);
+    core.setOutput("merge_base_sha", comparison.mergeBaseSha);
+
+    const changedFunctions = await detectChangedFunctions(
+      comparison.mergeBaseSha,
+      comparison.headSha,
       config.contractsDir,
-      config.excludedContracts
+      config.excludedContracts,
+      { ignoreFormatting: config.ignoreFormatting }
     );
 
     if (changedFunctions.length === 0) {
@@ -40,44 +137,31 @@ async function run(): Promise<void> {
 
     Logger.info(`Detected ${changedFunctions.length} changed functions`);
 
-    // Group changed functions by file
-    const changedFunctionsByFile = groupFunctionsByFile(changedFunctions);
-
-    // 2. Generate ASTs for contracts with changed functions
-    const astMap = await generateASTs(
-      Array.from(changedFunctionsByFile.keys()),
-      config.astContainerRepo,
-      config.containerVersion
-    );
+    // 2-3. Generate ASTs and run ESBMC for each Clarinet project, reusing
+    // ASTs from earlier steps and, if enabled, earlier runs
+    const astWorkDir = getASTWorkDir();
+    core.setOutput("ast_dir", astWorkDir);
 
-    // 3. Run ESBMC on each changed function
-    const esbmcResults = [];
-    for (const [file, functions] of changedFunctionsByFile.entries()) {
-      const astFile = astMap.get(file);
-      if (!astFile) {
-        Logger.warning(`No AST file found for ${file}, skipping verification`);
-        continue;
-      }
-
-      for (const func of functions) {
-        try {
-          const result = await runESBMC(
-            file,
-            astFile,
-            func,
-            config.esbmcFlags,
-            config.esbmcContainerRepo,
-            config.containerVersion
-          );
-          esbmcResults.push(result);
-        } catch (error) {
-          Logger.error(`Failed to verify function ${func}: ${error}`);
-        }
+    const verifications: ProjectVerification[] = [];
+    for (const [project, functions] of groupFunctionsByProject(
+      changedFunctions,
+      config.clarinetProjects
+    )) {
+      Logger.group(`Verifying ${project ? project.name : "contracts"}`);
+      try {
+        verifications.push({
+          project,
+          changedFunctions: functions,
+          esbmcResults: await verifyFunctions(functions, config, project),
+        });
+      } finally {
+        Logger.endGroup();
       }
     }
+    const esbmcResults = verifications.flatMap((v) => v.esbmcResults);
 
     // 4. Generate SARIF report
-    const sarifReport = generateSARIF(esbmcResults);
+    const sarifReport = generateSARIF(verifications);
     const sarifPath = writeSARIFReport(sarifReport);
     core.setOutput("sarif_report", sarifPath);
 
@@ -86,15 +170,17 @@ async function run(): Promise<void> {
 
     // 6. Post PR comment if in PR context
     if (github.context.payload.pull_request) {
-      await postPRComment(esbmcResults, changedFunctionsByFile);
+      await postPRComment(verifications);
     }
 
-    // 7. Set verification status
-    const hasFailures = esbmcResults.some((r) => !r.verified);
-    core.setOutput("verification_status", hasFailures ? "failure" : "success");
+    // 7. Set verification status: the most severe status of any function
+    core.setOutput(
+      "verification_status",
+      getOverallStatus(esbmcResults) ?? "no_changes"
+    );
 
-    // 8. Fail if issues found and fail_on_issue is true
-    setWorkflowStatus(esbmcResults, config.failOnIssue);
+    // 8. Fail if a function has a status in fail_on and fail_on_issue is true
+    setWorkflowStatus(esbmcResults, config.failOnIssue, config.failOn);
 
     Logger.info("Clarity Smart Contract Verification completed");
   } catch (error) {
@@ -107,49 +193,712 @@ async function run(): Promise<void> {
  * @returns Action configuration
  */
 function getActionConfig(): ActionConfig {
-  const contractsDir = parseListInput(core.getInput("contracts_dir") || "./");
-  const esbmcFlags = core.getInput("esbmc_flags") || "--verbose";
+  const configFile = loadConfigFile(
+    core.getInput("config_file") || DEFAULT_CONFIG_FILE
+  );
+
+  // Clarinet projects declare their contracts, so contracts_dir is optional
+  const clarinetProjects = discoverClarinetProjects(".");
+  const contractsDirInput = core.getInput("contracts_dir");
+  let contractsDir = parseListInput(contractsDirInput);
+  if (!contractsDirInput) {
+    contractsDir =
+      clarinetProjects.length > 0
+        ? Array.from(new Set(clarinetProjects.flatMap(getContractDirectories)))
+        : ["./"];
+  }
+  const { esbmcProfile, esbmcOptions } = getESBMCOptions(configFile);
   const excludedContracts = parseListInput(
     core.getInput("excluded_contracts") || ""
   );
   const failOnIssue = core.getInput("fail_on_issue") !== "false";
+  const failOnInput = parseListInput(core.getInput("fail_on"));
+  const invalidStatus = failOnInput.find((s) => !isVerificationStatus(s));
+  if (invalidStatus !== undefined) {
+    throw new Error(
+      `Invalid fail_on status '${invalidStatus}', expected one of: ${VERIFICATION_STATUSES.join(
+        ", "
+      )}`
+    );
+  }
+  const failOn =
+    failOnInput.length > 0
+      ? failOnInput.filter(isVerificationStatus)
+      : DEFAULT_FAIL_ON;
+  const ignoreFormatting = core.getInput("ignore_formatting") !== "false";
+  const maxFetchDepth =
+    parseInt(core.getInput("max_fetch_depth"), 10) || DEFAULT_MAX_FETCH_DEPTH;
+  const maxParallelInput = core.getInput("max_parallel");
+  const maxParallel = maxParallelInput
+    ? parseInt(maxParallelInput, 10)
+    : getDefaultParallelism();
+  if (!Number.isInteger(maxParallel) || maxParallel < 1) {
+    throw new Error(
+      `Invalid max_parallel '${maxParallelInput}', expected a positive integer`
+    );
+  }
+  const limits = getContainerLimits();
+  const escalation = getEscalationPolicy();
   const containerVersion = core.getInput("container_version") || "v1.0.0";
+  const astBackend = (core.getInput("ast_backend") || "builtin") as ASTBackend;
+  if (!AST_BACKENDS.includes(astBackend)) {
+    throw new Error(
+      `Invalid ast_backend '${astBackend}', expected one of: ${AST_BACKENDS.join(
+        ", "
+      )}`
+    );
+  }
+  const astCache = core.getInput("ast_cache") !== "false";
   const astContainerRepo =
     core.getInput("ast_container_repo") ||
     "ghcr.io/companyx/clarity-ast-generator";
   const esbmcContainerRepo =
     core.getInput("esbmc_container_repo") || "ghcr.io/companyx/clarity-esbmc";
 
-  // Get base and head refs
-  let baseRef = core.getInput("base_ref");
-  let headRef = core.getInput("head_ref");
+  const chainContext = getChainContext(configFile);
+  const deployer = decodePrincipal(
+    core.getInput("deployer") || configFile.deployer || DEFAULT_DEPLOYER
+  );
+  const externalCalls = getExternalCallConfig(configFile);
 
-  // If not provided, try to get from context
-  if (!baseRef && github.context.payload.pull_request) {
-    baseRef = github.context.payload.pull_request.base.ref;
+  // Defaults for contracts whose Clarinet.toml entry sets neither
+  const clarityVersion = parseClarityVersion(
+    core.getInput("clarity_version") || configFile.clarity_version
+  );
+  if (
+    clarityVersion !== undefined &&
+    !CLARITY_VERSIONS.includes(clarityVersion)
+  ) {
+    throw new Error(
+      `Invalid clarity_version '${clarityVersion}', expected one of: ${CLARITY_VERSIONS.join(
+        ", "
+      )}`
+    );
   }
-
-  if (!headRef && github.context.payload.pull_request) {
-    headRef = github.context.payload.pull_request.head.ref;
+  const epoch = parseEpoch(core.getInput("epoch") || configFile.epoch);
+  if (epoch !== undefined && epoch !== "latest" && !EPOCHS.includes(epoch)) {
+    throw new Error(
+      `Invalid epoch '${epoch}', expected latest or one of: ${EPOCHS.join(
+        ", "
+      )}`
+    );
   }
 
-  // Default to main and HEAD if still not available
-  if (!baseRef) baseRef = "main";
-  if (!headRef) headRef = "HEAD";
+  // Get base and head refs, from inputs or the triggering event
+  const { baseRef, headRef } = resolveRefs(
+    core.getInput("base_ref"),
+    core.getInput("head_ref")
+  );
 
   return {
     contractsDir,
-    esbmcFlags,
+    esbmcProfile,
+    esbmcOptions,
     excludedContracts,
     failOnIssue,
+    failOn,
+    ignoreFormatting,
+    maxFetchDepth,
+    maxParallel,
+    limits,
+    escalation,
     baseRef,
     headRef,
     containerVersion,
+    astBackend,
+    astCache,
     astContainerRepo,
     esbmcContainerRepo,
+    clarinetProjects,
+    chainContext,
+    deployer,
+    externalCalls,
+    clarityVersion,
+    epoch,
   };
 }
 
+/**
+ * Resolve the ESBMC options: the profile from the profile input or the
+ * config file, with the config file's options, the esbmc_options input
+ * and the esbmc_flags input applied on top, in that order
+ * @param configFile Parsed config file
+ * @returns Profile name and resolved options
+ */
+function getESBMCOptions(configFile: VerificationConfigFile): {
+  esbmcProfile: ESBMCProfile;
+  esbmcOptions: ESBMCOptions;
+} {
+  const esbmc = configFile.esbmc || {};
+
+  const esbmcProfile =
+    core.getInput("profile") || esbmc.profile || DEFAULT_PROFILE;
+  if (!isESBMCProfile(esbmcProfile)) {
+    throw new Error(
+      `Invalid profile '${esbmcProfile}', expected one of: ${Object.keys(
+        ESBMC_PROFILES
+      ).join(", ")}`
+    );
+  }
+
+  // Entries are option=value; true sets a switch and false removes it
+  const inputOptions = Object.fromEntries(
+    Object.entries(parseKeyValueInput(core.getInput("esbmc_options"))).map(
+      ([name, value]) => [
+        name,
+        value === "true" ? true : value === "false" ? false : value,
+      ]
+    )
+  );
+
+  const esbmcOptions = resolveESBMCOptions(
+    esbmcProfile,
+    esbmc.options ?? {},
+    inputOptions,
+    parseESBMCFlags(core.getInput("esbmc_flags"))
+  );
+  Logger.info(`Using the ${esbmcProfile} ESBMC profile`);
+  return { esbmcProfile, esbmcOptions };
+}
+
+/**
+ * Read the escalation policy for inconclusive functions from the inputs
+ * @returns Escalation policy, or undefined if escalation is off
+ */
+function getEscalationPolicy(): EscalationPolicy | undefined {
+  if (core.getInput("escalate") !== "true") {
+    return undefined;
+  }
+
+  const budgetInput = core.getInput("escalation_budget") || "1800";
+  const budgetSeconds = Number(budgetInput);
+  if (!Number.isInteger(budgetSeconds) || budgetSeconds < 1) {
+    throw new Error(
+      `Invalid escalation_budget '${budgetInput}', expected a number of seconds`
+    );
+  }
+  return { budgetSeconds };
+}
+
+/**
+ * Read the time and memory limits of each ESBMC run from the inputs
+ * @returns Container limits
+ */
+function getContainerLimits(): ContainerLimits {
+  const timeoutInput = core.getInput("function_timeout") || "600";
+  const timeoutSeconds = Number(timeoutInput);
+  if (!Number.isInteger(timeoutSeconds) || timeoutSeconds < 0) {
+    throw new Error(
+      `Invalid function_timeout '${timeoutInput}', expected a number of seconds`
+    );
+  }
+
+  const memory = core.getInput("memory_limit");
+  if (memory && !/^\d+[bkmg]?$/i.test(memory)) {
+    throw new Error(
+      `Invalid memory_limit '${memory}', expected a size such as 512m or 4g`
+    );
+  }
+
+  // A timeout of 0 leaves ESBMC running for as long as it takes
+  return {
+    ...(timeoutSeconds > 0 && { timeoutSeconds }),
+    ...(memory && { memory }),
+  };
+}
+
+/**
+ * Resolve the stub settings for external calls. The stub_strategy input
+ * replaces the config file's default strategy, and contracts listed in
+ * the external_call_stubs input replace their settings from the file.
+ * @param configFile Parsed config file
+ * @returns External call configuration
+ */
+function getExternalCallConfig(
+  configFile: VerificationConfigFile
+): ExternalCallConfig {
+  const externalCalls = configFile.external_calls || {};
+  const contracts = { ...externalCalls.contracts };
+
+  // Entries are principal=strategy, or principal=mock:path/to/mock.clar
+  const overrides = parseKeyValueInput(core.getInput("external_call_stubs"));
+  for (const [principal, value] of Object.entries(overrides)) {
+    const [strategy, ...mock] = value.split(":");
+    contracts[principal] = {
+      ...contracts[principal],
+      strategy,
+      ...(mock.length > 0 && { mock: mock.join(":") }),
+    };
+  }
+
+  return resolveExternalCallConfig(
+    core.getInput("stub_strategy") ||
+      externalCalls.strategy ||
+      DEFAULT_STUB_STRATEGY,
+    contracts
+  );
+}
+
+/**
+ * Resolve the chain context from the action inputs, falling back to the
+ * config file and then to the network preset
+ * @param configFile Parsed config file
+ * @returns Chain context
+ */
+function getChainContext(configFile: VerificationConfigFile): ChainContext {
+  const chain = configFile.chain || {};
+
+  const network = core.getInput("network") || chain.network || DEFAULT_NETWORK;
+  if (!isNetworkPreset(network)) {
+    throw new Error(
+      `Invalid network '${network}', expected one of: ${Object.keys(
+        NETWORK_PRESETS
+      ).join(", ")}`
+    );
+  }
+
+  const overrides = {
+    ...chain.overrides,
+    ...parseKeyValueInput(core.getInput("chain_overrides")),
+  };
+
+  const nondeterministicInput = core.getInput("nondeterministic_block_height");
+  const nondeterministicBlockHeight = nondeterministicInput
+    ? nondeterministicInput === "true"
+    : chain.nondeterministic_block_height === true;
+
+  const context = resolveChainContext(
+    network,
+    overrides,
+    nondeterministicBlockHeight
+  );
+  Logger.info(
+    `Verifying against ${network} chain state${
+      nondeterministicBlockHeight ? " with nondeterministic block height" : ""
+    }`
+  );
+  return context;
+}
+
+/**
+ * Generate ASTs for the contracts of one Clarinet project and run ESBMC on
+ * each changed function
+ * @param changedFunctions Changed functions of the project
+ * @param config Action configuration
+ * @param project Clarinet project, if the contracts belong to one
+ * @returns ESBMC results
+ */
+async function verifyFunctions(
+  changedFunctions: ChangedFunction[],
+  config: ActionConfig,
+  project?: ClarinetProject
+): Promise<ESBMCResult[]> {
+  // Deleted functions no longer exist to verify
+  const esbmcResults: ESBMCResult[] = changedFunctions
+    .filter((func) => func.changeType === "deleted")
+    .map((func) =>
+      createSkippedResult(func.file, func.name, "the function was deleted")
+    );
+
+  // Group changed functions by file
+  const changedFunctionsByFile = groupFunctionsByFile(
+    changedFunctions.filter((func) => func.changeType !== "deleted")
+  );
+
+  // Local contracts reached through contract-call? or traits are verified
+  // together with the contracts that use them
+  const contractFiles = getContractFiles(project, config.contractsDir);
+  const dependenciesByFile = new Map<string, string[]>();
+  for (const file of changedFunctionsByFile.keys()) {
+    try {
+      const dependencies = resolveDependencyClosure(
+        normalizePath(file),
+        contractFiles,
+        readFile,
+        config.deployer.address
+      );
+      if (dependencies.length > 0) {
+        Logger.info(`${file} depends on ${dependencies.join(", ")}`);
+      }
+      dependenciesByFile.set(file, dependencies);
+    } catch (error) {
+      Logger.warning(`Failed to resolve dependencies of ${file}: ${error}`);
+    }
+  }
+
+  for (const file of changedFunctionsByFile.keys()) {
+    reportKeywordDiagnostics(file, config, project);
+  }
+
+  // Calls into contracts outside the repository are stubbed or mocked
+  const settings: ASTGenerationSettings = {
+    backend: config.astBackend,
+    containerRepo: config.astContainerRepo,
+    containerVersion: config.containerVersion,
+    chain: config.chainContext,
+    deployer: config.deployer,
+    stubs: getExternalCallStubs(contractFiles, config, project),
+    limits: config.limits,
+    clarityVersion: config.clarityVersion,
+    epoch: config.epoch,
+    cache: config.astCache,
+  };
+
+  const astResults = await generateASTs(
+    Array.from(
+      new Set([
+        ...changedFunctionsByFile.keys(),
+        ...Array.from(dependenciesByFile.values()).flat(),
+      ])
+    ),
+    settings,
+    project
+  );
+  const astMap = new Map<string, GeneratedAST>();
+  for (const [file, outcome] of astResults) {
+    if (outcome.ok) {
+      astMap.set(file, outcome.value);
+    }
+  }
+  const mocks = await generateMockASTs(Array.from(astMap.keys()), settings);
+
+  const jobs: {
+    file: string;
+    func: string;
+    ast: GeneratedAST;
+    dependencies: ContractAST[];
+  }[] = [];
+  for (const [file, functions] of changedFunctionsByFile.entries()) {
+    const ast = astMap.get(file);
+    if (!ast) {
+      Logger.warning(`No AST file found for ${file}, skipping verification`);
+      // Malformed ASTs are reported as such rather than as an ESBMC crash
+      const outcome = astResults.get(file);
+      const error = outcome?.ok === false ? outcome.error : undefined;
+      for (const func of functions) {
+        esbmcResults.push(
+          error instanceof InvalidASTError
+            ? createASTInvalidResult(file, func, error.problems, error.backend)
+            : createErrorResult(file, func, "AST generation failed")
+        );
+      }
+      continue;
+    }
+
+    const dependencies = getDependencyASTs(
+      dependenciesByFile.get(file) ?? [],
+      astMap
+    );
+    let mockError: string | undefined;
+    for (const contract of [file, ...(dependenciesByFile.get(file) ?? [])]) {
+      const outcome = mocks.get(contract);
+      if (outcome?.ok === false) {
+        mockError = `Failed to prepare the mocks called from ${contract}: ${outcome.error}`;
+        break;
+      }
+      for (const mock of outcome?.value ?? []) {
+        if (!dependencies.includes(mock)) {
+          dependencies.push(mock);
+        }
+      }
+    }
+    if (mockError) {
+      for (const func of functions) {
+        esbmcResults.push(createErrorResult(file, func, mockError));
+      }
+      continue;
+    }
+
+    // A stub needs a return type; calls without one are not stubbed, and
+    // the functions reaching them cannot be verified
+    let untypedCalls: Map<string, string[]>;
+    try {
+      untypedCalls = findUntypedExternalCalls(
+        readFile(file),
+        file,
+        settings.stubs,
+        config.deployer.address
+      );
+    } catch (error) {
+      Logger.error(`Failed to find the external calls in ${file}: ${error}`);
+      for (const func of functions) {
+        esbmcResults.push(
+          createErrorResult(
+            file,
+            func,
+            `Failed to find the external calls: ${error}`
+          )
+        );
+      }
+      continue;
+    }
+    for (const func of functions) {
+      const untyped = untypedCalls.get(func);
+      if (untyped) {
+        const message = `No return type known for external call(s) ${untyped.join(
+          ", "
+        )}; declare them under external_calls in the config file`;
+        Logger.error(`Cannot verify ${func} in ${file}: ${message}`);
+        esbmcResults.push(createErrorResult(file, func, message));
+        continue;
+      }
+      jobs.push({ file, func, ast, dependencies });
+    }
+  }
+
+  // Functions are verified in parallel, each with its own log, and their
+  // results are kept in job order
+  Logger.info(
+    `Verifying ${jobs.length} functions, up to ${config.maxParallel} at a time`
+  );
+  const outcomes = await runWithConcurrency(
+    jobs,
+    config.maxParallel,
+    ({ file, func, ast, dependencies }) =>
+      Logger.buffered(() =>
+        runESBMCWithEscalation(
+          file,
+          ast.astFile,
+          func,
+          config.esbmcOptions,
+          config.esbmcContainerRepo,
+          config.containerVersion,
+          project,
+          dependencies,
+          config.limits,
+          config.escalation
+        )
+      )
+  );
+  outcomes.forEach((outcome, i) => {
+    if (outcome.ok) {
+      esbmcResults.push({ ...outcome.value, astBackend: jobs[i].ast.backend });
+    } else {
+      Logger.error(
+        `Failed to verify function ${jobs[i].func}: ${outcome.error}`
+      );
+      esbmcResults.push(
+        createErrorResult(jobs[i].file, jobs[i].func, outcome.error)
+      );
+    }
+  });
+
+  return esbmcResults;
+}
+
+/**
+ * Annotate uses of keywords that the contract's Clarity version does not
+ * have. Contracts without a known version are not checked.
+ * @param file Path of the contract
+ * @param config Action configuration
+ * @param project Clarinet project, if the contract belongs to one
+ */
+function reportKeywordDiagnostics(
+  file: string,
+  config: ActionConfig,
+  project?: ClarinetProject
+): void {
+  const { clarityVersion } = resolveContractLanguage(
+    getContractInfo(file, project),
+    config.clarityVersion,
+    config.epoch
+  );
+  if (clarityVersion === undefined) {
+    return;
+  }
+
+  try {
+    for (const diagnostic of findKeywordDiagnostics(
+      readFile(file),
+      clarityVersion
+    )) {
+      Logger.warning(diagnostic.message, {
+        title: `Keyword not available in Clarity ${clarityVersion}`,
+        file,
+        startLine: diagnostic.line,
+        startColumn: diagnostic.column,
+      });
+    }
+  } catch (error) {
+    Logger.warning(`Failed to check the keywords of ${file}: ${error}`);
+  }
+}
+
+/**
+ * Gather what is needed to stub calls out of a project's contracts: the
+ * stub settings, the names of the local contracts, and the traits defined
+ * and implemented by local contracts and by downloaded Clarinet
+ * requirements
+ * @param contractFiles Paths of the local contracts, keyed by name
+ * @param config Action configuration
+ * @param project Clarinet project, if the contracts belong to one
+ * @returns Stub context
+ */
+function getExternalCallStubs(
+  contractFiles: Map<string, string>,
+  config: ActionConfig,
+  project?: ClarinetProject
+): ExternalCallStubs {
+  const sources = new Map<string, string>();
+  for (const [name, file] of contractFiles) {
+    sources.set(`${config.deployer.address}.${name}`, file);
+  }
+  if (project) {
+    for (const [principal, file] of getRequirementFiles(project)) {
+      sources.set(principal, file);
+    }
+  }
+
+  // Calls to a fixed contract take their return types from the traits
+  // it implements, unless the config file declares them
+  const traits: ExternalCallStubs["traits"] = {};
+  const implementedTraits: ExternalCallStubs["implementedTraits"] = {};
+  for (const [principal, file] of sources) {
+    try {
+      const content = readFile(file);
+      Object.assign(traits, parseTraitDefinitions(content, principal));
+      implementedTraits[principal] = parseImplementedTraits(content, principal);
+    } catch (error) {
+      Logger.warning(`Failed to read traits from ${file}: ${error}`);
+    }
+  }
+
+  return {
+    config: config.externalCalls,
+    localContracts: Array.from(contractFiles.keys()),
+    traits,
+    implementedTraits,
+  };
+}
+
+/**
+ * Generate ASTs for the mocks standing in for external contracts that
+ * the given contracts call. Each mock is deployed under the principal of
+ * the contract it replaces, and is generated once however many contracts
+ * call it.
+ * @param files Paths of the contracts whose calls are mocked
+ * @param settings AST generation settings of the calling contracts
+ * @returns Mock contracts needed by each contract, keyed by its path, or
+ * the error that kept them from being prepared
+ */
+async function generateMockASTs(
+  files: string[],
+  settings: ASTGenerationSettings
+): Promise<Map<string, TaskResult<ContractAST[]>>> {
+  const prepared = new Map<string, ContractAST | undefined>();
+  const mocksByFile = new Map<string, TaskResult<ContractAST[]>>();
+
+  for (const file of files) {
+    try {
+      const mocks: ContractAST[] = [];
+      for (const { principal, mock } of findMockedContracts(
+        readFile(file),
+        settings.stubs,
+        settings.deployer.address
+      )) {
+        if (!prepared.has(principal)) {
+          prepared.set(
+            principal,
+            await generateMockAST(principal, mock, settings)
+          );
+        }
+        const contract = prepared.get(principal);
+        if (contract) {
+          mocks.push(contract);
+        }
+      }
+      mocksByFile.set(file, { ok: true, value: mocks });
+    } catch (error) {
+      Logger.error(`Failed to prepare the mocks called from ${file}: ${error}`);
+      mocksByFile.set(file, { ok: false, error });
+    }
+  }
+
+  return mocksByFile;
+}
+
+/**
+ * Generate and validate the AST of a mock contract
+ * @param principal Principal of the contract the mock replaces
+ * @param mock Path of the mock contract
+ * @param settings AST generation settings of the calling contracts
+ * @returns The mock with its AST, or undefined if it could not be generated
+ * @throws Error if the principal is not a valid contract principal
+ */
+async function generateMockAST(
+  principal: string,
+  mock: string,
+  settings: ASTGenerationSettings
+): Promise<ContractAST | undefined> {
+  const target = decodePrincipal(principal);
+  try {
+    const ast = await generateAST(
+      mock,
+      { ...settings, deployer: target },
+      undefined,
+      target.contractName
+    );
+    Logger.info(`Mocking ${principal} with ${mock}`);
+    return { clarityFile: mock, astFile: ast.astFile };
+  } catch (error) {
+    Logger.warning(
+      `Failed to prepare mock ${mock} for ${principal}, calls to it stay opaque: ${error}`
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Collect the ASTs of a contract's dependencies. A dependency whose AST
+ * is missing or invalid is left out, so calls into it stay opaque.
+ * @param dependencies Paths of the dependencies
+ * @param astMap Generated ASTs keyed by contract path
+ * @returns Dependencies with valid ASTs
+ */
+function getDependencyASTs(
+  dependencies: string[],
+  astMap: Map<string, GeneratedAST>
+): ContractAST[] {
+  const contracts: ContractAST[] = [];
+  for (const dependency of dependencies) {
+    const ast = astMap.get(dependency);
+    if (!ast) {
+      Logger.warning(`No AST for dependency ${dependency}, leaving it out`);
+      continue;
+    }
+    contracts.push({ clarityFile: dependency, astFile: ast.astFile });
+  }
+  return contracts;
+}
+
+/**
+ * Group changed functions by the Clarinet project their file belongs to
+ * @param changedFunctions Array of changed functions
+ * @param projects Clarinet projects in the workspace
+ * @returns Map of projects to their changed functions, in project order;
+ * functions outside every project are keyed by undefined
+ */
+function groupFunctionsByProject(
+  changedFunctions: ChangedFunction[],
+  projects: ClarinetProject[]
+): Map<ClarinetProject | undefined, ChangedFunction[]> {
+  const functionsByProject = new Map<
+    ClarinetProject | undefined,
+    ChangedFunction[]
+  >();
+
+  for (const project of [...projects, undefined]) {
+    const functions = changedFunctions.filter(
+      (f) => findProjectForFile(f.file, projects) === project
+    );
+    if (functions.length > 0) {
+      functionsByProject.set(project, functions);
+    }
+  }
+
+  return functionsByProject;
+}
+
 /**
  * Group changed functions by file
  * @param changedFunctions Array of changed functions
@@ -0,0 +1,300 @@
+import {
+  ChangedFunction,
+  ClarityContract,
+  ClarityDefinition,
+  ClarityFunction,
+  DefinitionType,
+  StateAccess,
+} from "../types";
+import { isAtom, parseSExpressions, SExpr } from "./sexpr";
+
+/**
+ * Map of function names to the names of the functions they call
+ */
+export type CallGraph = Map<string, Set<string>>;
+
+/**
+ * Definitions whose value a function can read or write
+ */
+export const STATE_DEFINITIONS: DefinitionType[] = [
+  "define-map",
+  "define-data-var",
+  "define-constant",
+  "define-fungible-token",
+  "define-non-fungible-token",
+];
+
+/**
+ * Native functions that modify the state named by their first argument
+ */
+const WRITE_OPERATIONS = new Set([
+  "var-set",
+  "map-set",
+  "map-insert",
+  "map-delete",
+  "ft-mint?",
+  "ft-burn?",
+  "ft-transfer?",
+  "nft-mint?",
+  "nft-burn?",
+  "nft-transfer?",
+]);
+
+/**
+ * Get the body expressions of a definition, without the define keyword
+ * and the name or function signature
+ * @param definition Definition to inspect
+ * @returns Body expressions
+ */
+function getDefinitionBody(definition: ClarityDefinition): SExpr[] {
+  const [expr] = parseSExpressions(definition.content);
+  return expr?.kind === "list" ? expr.items.slice(2) : [];
+}
+
+/**
+ * Walk every expression in the body of a definition
+ * @param definition Definition to inspect
+ * @param callback Called for each nested expression
+ */
+function walkDefinitionBody(
+  definition: ClarityDefinition,
+  callback: (expr: SExpr) => void
+): void {
+  const visit = (expr: SExpr): void => {
+    callback(expr);
+    if (expr.kind === "list" || expr.kind === "tuple") {
+      expr.items.forEach(visit);
+    }
+  };
+
+  getDefinitionBody(definition).forEach(visit);
+}
+
+/**
+ * Collect every identifier used in the body of a function, or in the
+ * value of a constant, variable, map or token
+ * @param definition Definition to inspect
+ * @returns Set of atom texts found in the body
+ */
+export function collectReferences(definition: ClarityDefinition): Set<string> {
+  const references = new Set<string>();
+  walkDefinitionBody(definition, (expr) => {
+    if (expr.kind === "atom") {
+      references.add(expr.text);
+    }
+  });
+  return references;
+}
+
+/**
+ * Find the maps, variables, constants and tokens a function reads or writes
+ * @param func Function to inspect
+ * @param definitions Definitions of the contract
+ * @returns State accesses keyed by definition name
+ */
+export function collectStateAccesses(
+  func: ClarityFunction,
+  definitions: ClarityDefinition[]
+): Map<string, StateAccess> {
+  const state = new Map(
+    definitions
+      .filter((d) => STATE_DEFINITIONS.includes(d.type))
+      .map((d) => [d.name, d])
+  );
+  const accesses = new Map<string, StateAccess>();
+
+  const record = (name: string, access: "read" | "write"): void => {
+    const definition = state.get(name);
+    if (!definition) return;
+
+    const existing = accesses.get(name);
+    accesses.set(name, {
+      name,
+      type: definition.type,
+      access: existing && existing.access !== access ? "read-write" : access,
+    });
+  };
+
+  // Writes are recognised by their operation, so record them before
+  // walking the atoms; a write target is not also counted as a read.
+  const writeTargets = new Set<SExpr>();
+  walkDefinitionBody(func, (expr) => {
+    if (expr.kind !== "list") return;
+    const [operation, target] = expr.items;
+    if (isAtom(operation) && WRITE_OPERATIONS.has(operation.text)) {
+      if (isAtom(target)) {
+        record(target.text, "write");
+        writeTargets.add(target);
+      }
+    }
+  });
+
+  walkDefinitionBody(func, (expr) => {
+    if (isAtom(expr) && !writeTargets.has(expr)) {
+      record(expr.text, "read");
+    }
+  });
+
+  return accesses;
+}
+
+/**
+ * Extend changed state definitions with the definitions whose value
+ * depends on them, such as a constant computed from a changed constant
+ * or a variable initialised with one, repeating until no more are found
+ * @param changedDefinitions State definitions whose text changed
+ * @param definitions Definitions of the contract
+ * @returns For each changed or dependent definition, the chain of
+ * definitions from itself to the changed definition it depends on
+ */
+export function findDependentDefinitions(
+  changedDefinitions: ClarityDefinition[],
+  definitions: ClarityDefinition[]
+): Map<string, string[]> {
+  const chains = new Map(changedDefinitions.map((d) => [d.name, [d.name]]));
+  const state = definitions.filter((d) => STATE_DEFINITIONS.includes(d.type));
+
+  let grown = true;
+  while (grown) {
+    grown = false;
+    for (const definition of state) {
+      if (chains.has(definition.name)) continue;
+      const dependency = Array.from(collectReferences(definition)).find(
+        (name) => chains.has(name)
+      );
+      if (dependency) {
+        chains.set(definition.name, [
+          definition.name,
+          ...(chains.get(dependency) ?? []),
+        ]);
+        grown = true;
+      }
+    }
+  }
+
+  return chains;
+}
+
+/**
+ * Build a call graph for the functions of a contract. Any reference to
+ * another function counts as a call, which also covers functions passed
+ * to `map`, `fold` and `filter`.
+ * @param functions Functions of a single contract
+ * @returns Call graph keyed by function name
+ */
+export function buildCallGraph(functions: ClarityFunction[]): CallGraph {
+  const names = new Set(functions.map((f) => f.name));
+  const graph: CallGraph = new Map();
+
+  for (const func of functions) {
+    const callees = new Set<string>();
+    for (const reference of collectReferences(func)) {
+      if (names.has(reference) && reference !== func.name) {
+        callees.add(reference);
+      }
+    }
+    graph.set(func.name, callees);
+  }
+
+  return graph;
+}
+
+/**
+ * Find functions affected by a change without their own text changing:
+ * functions that use a changed map, variable, constant or token, or one
+ * whose value depends on a changed one, and functions that transitively
+ * call a changed or affected function.
+ * Each impacted function records the chain that links it to the change,
+ * so reviewers can see why it is being verified.
+ * @param changedFunctions Functions whose own text changed
+ * @param headContract Contract model of the head version
+ * @param changedDefinitions State definitions whose text changed
+ * @returns Impacted functions that are not already in the changed set
+ */
+export function findImpactedFunctions(
+  changedFunctions: ChangedFunction[],
+  headContract: ClarityContract,
+  changedDefinitions: ClarityDefinition[] = []
+): ChangedFunction[] {
+  const headFunctions = headContract.functions;
+  const graph = buildCallGraph(headFunctions);
+
+  // Invert the graph so we can walk from callees to callers
+  const callers = new Map<string, string[]>();
+  for (const [caller, callees] of graph.entries()) {
+    for (const callee of callees) {
+      if (!callers.has(callee)) {
+        callers.set(callee, []);
+      }
+      callers.get(callee)?.push(caller);
+    }
+  }
+
+  // Breadth-first search so each function gets its shortest chain
+  const visited = new Map<
+    string,
+    { chain: string[]; changedState?: StateAccess }
+  >();
+  const queue: string[] = [];
+  const impacted: ChangedFunction[] = [];
+
+  const enqueue = (
+    func: ClarityFunction,
+    chain: string[],
+    changedState?: StateAccess
+  ): void => {
+    visited.set(func.name, { chain, changedState });
+    queue.push(func.name);
+    impacted.push({
+      ...func,
+      changeType: "impacted",
+      impactedBy: chain,
+      changedState,
+    });
+  };
+
+  for (const func of changedFunctions) {
+    if (!visited.has(func.name)) {
+      visited.set(func.name, { chain: [] });
+      queue.push(func.name);
+    }
+  }
+
+  // Functions using changed state, or state derived from it, are
+  // impacted directly; the shortest chain to a changed definition is kept
+  const stateChains = findDependentDefinitions(
+    changedDefinitions,
+    headContract.definitions
+  );
+  for (const func of headFunctions) {
+    if (visited.has(func.name)) continue;
+    const accesses = collectStateAccesses(func, headContract.definitions);
+    let used: StateAccess | undefined;
+    let usedChain: string[] = [];
+    for (const access of accesses.values()) {
+      const chain = stateChains.get(access.name);
+      if (chain && (!used || chain.length < usedChain.length)) {
+        used = access;
+        usedChain = chain;
+      }
+    }
+    if (used) {
+      enqueue(func, usedChain, used);
+    }
+  }
+
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+    const { chain, changedState } = visited.get(current) ?? { chain: [] };
+
+    for (const caller of callers.get(current) ?? []) {
+      if (visited.has(caller)) continue;
+      const func = headFunctions.find((f) => f.name === caller);
+      if (func) {
+        enqueue(func, [current, ...chain], changedState);
+      }
+    }
+  }
+
+  return impacted;
+}
@@ -0,0 +1,271 @@
+import { ContractInfo, KeywordDiagnostic } from "../types";
+import { isAtom, parseSExpressions, SExpr, SExprAtom } from "./sexpr";
+
+/**
+ * Clarity versions the keyword tables know about
+ */
+export const CLARITY_VERSIONS = [1, 2, 3];
+
+/**
+ * Known Stacks epochs, oldest first
+ */
+export const EPOCHS = [
+  "2.0",
+  "2.05",
+  "2.1",
+  "2.2",
+  "2.3",
+  "2.4",
+  "2.5",
+  "3.0",
+  "3.1",
+];
+
+/**
+ * Epoch in which each Clarity version became available
+ */
+const VERSION_EPOCHS: Record<number, string> = {
+  1: "2.0",
+  2: "2.1",
+  3: "3.0",
+};
+
+/**
+ * Clarity versions in which each keyword exists. `block-height` was
+ * replaced by `stacks-block-height` and `tenure-height` in Clarity 3.
+ */
+export const KEYWORD_VERSIONS: Record<
+  string,
+  { since: number; until?: number }
+> = {
+  "block-height": { since: 1, until: 2 },
+  "burn-block-height": { since: 1 },
+  "chain-id": { since: 2 },
+  "contract-caller": { since: 1 },
+  "is-in-mainnet": { since: 2 },
+  "is-in-regtest": { since: 1 },
+  "stacks-block-height": { since: 3 },
+  "stx-liquid-supply": { since: 1 },
+  "tenure-height": { since: 3 },
+  "tx-sender": { since: 1 },
+  "tx-sponsor?": { since: 2 },
+};
+
+/**
+ * Forms that bind the names in their second element, so an atom with a
+ * keyword's name there is a declaration rather than a use of the keyword
+ */
+const BINDING_FORMS = [
+  "define-constant",
+  "define-data-var",
+  "define-map",
+  "define-fungible-token",
+  "define-non-fungible-token",
+  "define-public",
+  "define-read-only",
+  "define-private",
+];
+
+/**
+ * Order two epochs. `latest` is later than every numbered epoch.
+ * @param a First epoch
+ * @param b Second epoch
+ * @returns Negative, zero or positive, as for Array.prototype.sort
+ */
+export function compareEpochs(a: string, b: string): number {
+  const rank = (epoch: string): number =>
+    epoch === "latest" ? Infinity : parseFloat(epoch);
+  return rank(a) - rank(b);
+}
+
+/**
+ * Get the newest Clarity version an epoch supports, which is what Clarinet
+ * uses for contracts that do not set one
+ * @param epoch Stacks epoch
+ * @returns Clarity version
+ */
+export function getDefaultClarityVersion(epoch: string): number {
+  return Math.max(
+    ...CLARITY_VERSIONS.filter(
+      (version) => compareEpochs(VERSION_EPOCHS[version], epoch) <= 0
+    )
+  );
+}
+
+/**
+ * Fill in a contract's Clarity version and epoch from defaults and from
+ * each other: a contract with only an epoch gets the newest version of
+ * that epoch, and one with only a version gets the epoch that introduced
+ * it. Contracts with neither are left without, and are not checked
+ * against any version.
+ * @param contract Contract settings from Clarinet.toml or the file name
+ * @param clarityVersion Version for contracts that do not set one
+ * @param epoch Epoch for contracts that do not set one
+ * @returns Contract with its language settings filled in
+ */
+export function resolveContractLanguage(
+  contract: ContractInfo,
+  clarityVersion?: number,
+  epoch?: string
+): ContractInfo {
+  const resolvedEpoch = contract.epoch ?? epoch;
+  const resolvedVersion =
+    contract.clarityVersion ??
+    clarityVersion ??
+    (resolvedEpoch !== undefined
+      ? getDefaultClarityVersion(resolvedEpoch)
+      : undefined);
+
+  return {
+    ...contract,
+    ...(resolvedVersion !== undefined && { clarityVersion: resolvedVersion }),
+    ...((resolvedEpoch ?? resolvedVersion) !== undefined && {
+      epoch: resolvedEpoch ?? VERSION_EPOCHS[resolvedVersion as number],
+    }),
+  };
+}
+
+/**
+ * Check if a keyword exists in a Clarity version
+ * @param keyword Keyword name
+ * @param clarityVersion Clarity version
+ * @returns True if the keyword may be used; names that are not keywords
+ * are always allowed
+ */
+export function isKeywordAvailable(
+  keyword: string,
+  clarityVersion: number
+): boolean {
+  const versions = KEYWORD_VERSIONS[keyword];
+  return (
+    !versions ||
+    (clarityVersion >= versions.since &&
+      (versions.until === undefined || clarityVersion <= versions.until))
+  );
+}
+
+/**
+ * Collect the names a contract declares: definitions, function arguments
+ * and `let` and `match` bindings. Before a keyword was introduced, its
+ * name could be used for these.
+ * @param exprs Top-level expressions
+ * @returns Declared names
+ */
+function collectDeclaredNames(exprs: SExpr[]): Set<string> {
+  const names = new Set<string>();
+  const add = (expr: SExpr | undefined): void => {
+    if (isAtom(expr)) {
+      names.add(expr.text);
+    }
+  };
+
+  const visit = (expr: SExpr): void => {
+    if (expr.kind !== "list" && expr.kind !== "tuple") {
+      return;
+    }
+
+    const [head, second, ...rest] = expr.items;
+    if (expr.kind === "list" && isAtom(head)) {
+      if (BINDING_FORMS.includes(head.text)) {
+        if (second?.kind === "list") {
+          // Function signature: the name, then (argument type) pairs
+          add(second.items[0]);
+          second.items
+            .slice(1)
+            .forEach((param) => param.kind === "list" && add(param.items[0]));
+        } else {
+          add(second);
+        }
+      } else if (head.text === "let" && second?.kind === "list") {
+        second.items.forEach(
+          (binding) => binding.kind === "list" && add(binding.items[0])
+        );
+      } else if (head.text === "match") {
+        // (match opt name some-branch none-branch) or
+        // (match resp ok-name ok-branch err-name err-branch)
+        add(rest[0]);
+        if (rest.length === 4) {
+          add(rest[2]);
+        }
+      }
+    }
+    expr.items.forEach(visit);
+  };
+
+  exprs.forEach(visit);
+  return names;
+}
+
+/**
+ * Find keywords a contract uses that its Clarity version does not have,
+ * such as `block-height` in Clarity 3 or `tenure-height` in Clarity 2
+ * @param content Clarity source of the contract
+ * @param clarityVersion Clarity version of the contract
+ * @returns Diagnostics in source order
+ */
+export function findKeywordDiagnostics(
+  content: string,
+  clarityVersion: number
+): KeywordDiagnostic[] {
+  const exprs = parseSExpressions(content);
+  const declared = collectDeclaredNames(exprs);
+  const diagnostics: KeywordDiagnostic[] = [];
+
+  const visit = (expr: SExpr): void => {
+    // Tuple member names are not keywords, in literals, in (tuple ...)
+    // and in (get member tuple)
+    if (expr.kind === "tuple") {
+      expr.items.filter((_, i) => i % 2 === 1).forEach(visit);
+      return;
+    }
+    if (expr.kind === "list") {
+      const [head, ...operands] = expr.items;
+      if (isAtom(head, "tuple")) {
+        operands.forEach(
+          (pair) => pair.kind === "list" && pair.items.slice(1).forEach(visit)
+        );
+      } else if (isAtom(head, "get")) {
+        operands.slice(1).forEach(visit);
+      } else {
+        expr.items.forEach(visit);
+      }
+      return;
+    }
+    if (
+      !isAtom(expr) ||
+      isKeywordAvailable(expr.text, clarityVersion) ||
+      declared.has(expr.text)
+    ) {
+      return;
+    }
+
+    diagnostics.push({
+      keyword: expr.text,
+      line: expr.startLine,
+      column: expr.startColumn,
+      message: describeUnavailableKeyword(expr, clarityVersion),
+    });
+  };
+
+  exprs.forEach(visit);
+  return diagnostics;
+}
+
+/**
+ * Explain why a keyword cannot be used in a Clarity version
+ * @param atom Keyword atom
+ * @param clarityVersion Clarity version of the contract
+ * @returns Diagnostic message
+ */
+function describeUnavailableKeyword(
+  atom: SExprAtom,
+  clarityVersion: number
+): string {
+  const { since, until } = KEYWORD_VERSIONS[atom.text];
+  if (until !== undefined && clarityVersion > until) {
+    return atom.text === "block-height"
+      ? `block-height is not available in Clarity ${clarityVersion}; use stacks-block-height or tenure-height`
+      : `${atom.text} was removed after Clarity ${until}`;
+  }
+  return `${atom.text} requires Clarity ${since} or later, but the contract uses Clarity ${clarityVersion}`;
+}
@@ -0,0 +1,116 @@
+import { isAtom, parseSExpressions, SExpr } from "./sexpr";
+
+/**
+ * Forms whose argument at the given position names another contract
+ */
+const CONTRACT_REFERENCES: Record<string, number> = {
+  "contract-call?": 1,
+  "use-trait": 2,
+  "impl-trait": 1,
+};
+
+/**
+ * Get the contract a principal literal refers to, if it is one deployed
+ * alongside the contract being read: `.name`, `.name.trait`, or the same
+ * with the deployer's address in front
+ * @param text Principal literal
+ * @param deployerAddress Address the local contracts are deployed from
+ * @returns Contract name, or undefined for other contracts and values
+ */
+function getLocalContractName(
+  text: string,
+  deployerAddress: string
+): string | undefined {
+  const match = /^'?([0-9A-Za-z]*)\.([a-zA-Z][a-zA-Z0-9_-]*)(\.[^.]+)?$/.exec(
+    text
+  );
+  if (!match) {
+    return undefined;
+  }
+
+  const [, address, name] = match;
+  return address === "" || address.toUpperCase() === deployerAddress
+    ? name
+    : undefined;
+}
+
+/**
+ * Find the local contracts a contract depends on: targets of
+ * `contract-call?` and contracts whose traits it uses or implements.
+ * Calls through a trait reference are resolved at run time and are not
+ * included.
+ * @param content Clarity source of the contract
+ * @param deployerAddress Address the local contracts are deployed from
+ * @returns Contract names, in order of first reference
+ */
+export function findContractDependencies(
+  content: string,
+  deployerAddress: string
+): string[] {
+  const names = new Set<string>();
+
+  const visit = (expr: SExpr): void => {
+    if (expr.kind !== "list" && expr.kind !== "tuple") {
+      return;
+    }
+
+    const [head] = expr.items;
+    if (
+      expr.kind === "list" &&
+      isAtom(head) &&
+      head.text in CONTRACT_REFERENCES
+    ) {
+      const target = expr.items[CONTRACT_REFERENCES[head.text]];
+      const name =
+        target && isAtom(target)
+          ? getLocalContractName(target.text, deployerAddress)
+          : undefined;
+      if (name) {
+        names.add(name);
+      }
+    }
+    expr.items.forEach(visit);
+  };
+
+  parseSExpressions(content).forEach(visit);
+  return Array.from(names);
+}
+
+/**
+ * Resolve every local contract a contract depends on, directly or through
+ * other dependencies. References to contracts that are not in the index,
+ * such as requirements deployed elsewhere, are left out.
+ * @param file Path of the contract
+ * @param contractFiles Paths of the local contracts, keyed by name
+ * @param readContract Reads the source of a contract
+ * @param deployerAddress Address the local contracts are deployed from
+ * @returns Paths of the dependencies in breadth-first order, without the
+ * contract itself
+ */
+export function resolveDependencyClosure(
+  file: string,
+  contractFiles: Map<string, string>,
+  readContract: (file: string) => string,
+  deployerAddress: string
+): string[] {
+  const seen = new Set([file]);
+  const pending = [file];
+
+  // Contracts are appended while walking, which gives breadth-first order
+  for (let i = 0; i < pending.length; i++) {
+    const names = findContractDependencies(
+      readContract(pending[i]),
+      deployerAddress
+    );
+
+    for (const name of names) {
+      const dependency = contractFiles.get(name);
+      if (dependency && !seen.has(dependency)) {
+        seen.add(dependency);
+        pending.push(dependency);
+      }
+    }
+  }
+
+  return pending.slice(1);
+}
@@ -1,7 +1,26 @@
 import * as path from "path";
 import { exec } from "@actions/exec";
-import { ClarityFunction, ChangedFunction } from "../types";
+import {
+  ClarityContract,
+  ClarityDefinition,
+  ClarityFunction,
+  ChangedFunction,
+  DefinitionType,
+  DetectionOptions,
+  DiffHunk,
+  FunctionDefinitionType,
+  GitComparison,
+  ModifiedFile,
+} from "../types";
 import { Logger } from "../utils";
+import {
+  isAtom,
+  normalizeClarity,
+  parseSExpressions,
+  SExprList,
+  tokenizeClarity,
+} from "./sexpr";
+import { findImpactedFunctions, STATE_DEFINITIONS } from "./call-graph";
 
 /**
  * Get the content of a file at a specific Git reference
@@ -132,7 +151,12 @@ export async function fetchGitRefIfNeeded(gitRef: string): Promise<boolean> {
       ignoreReturnCode: true,
     };
 
-    const exitCode = await exec("git", ["fetch", "origin", gitRef], options);
+    // Store branches as remote-tracking refs so they can be resolved
+    // later, even in single-branch clones; commit SHAs are fetched as is
+    const refspec = /^[0-9a-f]{40}$/i.test(gitRef)
+      ? gitRef
+      : `+${gitRef}:refs/remotes/origin/${gitRef}`;
+    const exitCode = await exec("git", ["fetch", "origin", refspec], options);
     if (exitCode === 0) {
       Logger.info(`Successfully fetched '${gitRef}'`);
       return true;
@@ -148,7 +172,7 @@ export async function fetchGitRefIfNeeded(gitRef: string): Promise<boolean> {
       return true;
     }
 
-    Logger.warning(`Failed to fetch '${gitRef}', will try to continue anyway`);
+    Logger.warning(`Failed to fetch '${gitRef}'`);
     return false;
   } catch (error) {
     Logger.warning(`Error fetching '${gitRef}': ${error}`);
@@ -156,18 +180,241 @@ export async function fetchGitRefIfNeeded(gitRef: string): Promise<boolean> {
   }
 }
 
+/**
+ * Default upper bound on how far a shallow clone is deepened
+ */
+export const DEFAULT_MAX_FETCH_DEPTH = 1000;
+
+/**
+ * Number of commits fetched by the first deepening step
+ */
+const INITIAL_DEEPEN_STEP = 50;
+
+/**
+ * Run a git command and capture its trimmed output
+ * @param args Git arguments
+ * @returns Command output, or undefined if the command failed
+ */
+async function gitOutput(args: string[]): Promise<string | undefined> {
+  let output = "";
+  const options = {
+    listeners: {
+      stdout: (data: Buffer) => {
+        output += data.toString();
+      },
+      stderr: (data: Buffer) => {
+        Logger.debug(`Git ${args[0]} stderr: ${data.toString()}`);
+      },
+    },
+    ignoreReturnCode: true,
+    silent: true,
+  };
+
+  try {
+    const exitCode = await exec("git", args, options);
+    return exitCode === 0 ? output.trim() : undefined;
+  } catch (error) {
+    Logger.debug(`git ${args.join(" ")} failed: ${error}`);
+    return undefined;
+  }
+}
+
+/**
+ * Resolve a Git reference to a commit SHA, trying the origin/ prefix for
+ * branches that only exist on the remote
+ * @param gitRef Git reference
+ * @returns Commit SHA, or undefined if the reference cannot be resolved
+ */
+export async function resolveSha(gitRef: string): Promise<string | undefined> {
+  for (const candidate of [gitRef, `origin/${gitRef}`]) {
+    const sha = await gitOutput([
+      "rev-parse",
+      "--verify",
+      "--quiet",
+      `${candidate}^{commit}`,
+    ]);
+    if (sha) {
+      return sha;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the merge base of two commits
+ * @param baseSha Base commit
+ * @param headSha Head commit
+ * @returns Merge base SHA, or undefined if the histories are not connected
+ */
+export async function getMergeBase(
+  baseSha: string,
+  headSha: string
+): Promise<string | undefined> {
+  return gitOutput(["merge-base", baseSha, headSha]);
+}
+
+/**
+ * Check if the repository is a shallow clone
+ * @returns True if the repository is shallow
+ */
+export async function isShallowRepository(): Promise<boolean> {
+  return (await gitOutput(["rev-parse", "--is-shallow-repository"])) === "true";
+}
+
+/**
+ * Fetch more history of a shallow clone until the merge base of base and
+ * head is reachable. Each step doubles the amount of history fetched.
+ * @param baseSha Base commit
+ * @param headSha Head commit
+ * @param maxDepth Maximum number of commits to deepen by in total
+ * @returns Merge base SHA, or undefined if it is still not reachable
+ */
+export async function deepenUntilMergeBase(
+  baseSha: string,
+  headSha: string,
+  maxDepth: number
+): Promise<string | undefined> {
+  let fetched = 0;
+  let step = INITIAL_DEEPEN_STEP;
+
+  while (fetched < maxDepth && (await isShallowRepository())) {
+    step = Math.min(step, maxDepth - fetched);
+    Logger.info(
+      `Shallow clone: fetching ${step} more commit(s) of history to find the merge base`
+    );
+
+    const fetchedHistory = await gitOutput([
+      "fetch",
+      "--no-tags",
+      `--deepen=${step}`,
+      "origin",
+      baseSha,
+      headSha,
+    ]);
+    if (fetchedHistory === undefined) {
+      Logger.warning("Failed to deepen the shallow clone");
+      return undefined;
+    }
+    fetched += step;
+
+    const mergeBase = await getMergeBase(baseSha, headSha);
+    if (mergeBase) {
+      Logger.info(`Found merge base after fetching ${fetched} more commit(s)`);
+      return mergeBase;
+    }
+    step *= 2;
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve the commits to compare. Changes are taken from the merge base of
+ * base and head, so a base branch that moved on does not show up as
+ * changes made by the head. Shallow clones are deepened as needed.
+ * Throws if base and head have no merge base.
+ * @param baseRef Base Git reference
+ * @param headRef Head Git reference
+ * @param maxFetchDepth Maximum number of commits to deepen a shallow clone by
+ * @returns Resolved commits
+ */
+export async function resolveComparison(
+  baseRef: string,
+  headRef: string,
+  maxFetchDepth = DEFAULT_MAX_FETCH_DEPTH
+): Promise<GitComparison> {
+  await fetchGitRefIfNeeded(baseRef);
+  await fetchGitRefIfNeeded(headRef);
+
+  const baseSha = await resolveSha(baseRef);
+  if (!baseSha) {
+    throw new Error(unresolvedRefMessage("base", baseRef));
+  }
+  const headSha = await resolveSha(headRef);
+  if (!headSha) {
+    throw new Error(unresolvedRefMessage("head", headRef));
+  }
+
+  let mergeBaseSha = await getMergeBase(baseSha, headSha);
+  if (!mergeBaseSha && (await isShallowRepository())) {
+    mergeBaseSha = await deepenUntilMergeBase(baseSha, headSha, maxFetchDepth);
+  }
+
+  if (!mergeBaseSha) {
+    // More history only helps while the clone is still shallow; in a
+    // complete repository the two refs share no history at all
+    if (await isShallowRepository()) {
+      throw new Error(
+        `No common ancestor of ${baseRef} and ${headRef} found in the shallow clone, even after fetching ${maxFetchDepth} more commits. ` +
+          `Set 'fetch-depth: 0' in actions/checkout or raise the 'max_fetch_depth' input.`
+      );
+    }
+    throw new Error(
+      `${baseRef} and ${headRef} have no common ancestor: their histories are unrelated, so there is no merge base to diff from. ` +
+        `Compare refs that share history, e.g. by setting 'base_ref'.`
+    );
+  }
+
+  return { baseSha, headSha, mergeBaseSha };
+}
+
+/**
+ * Build the error message for a reference that could not be resolved
+ * @param name Which side of the comparison the reference is
+ * @param gitRef The reference
+ * @returns Actionable error message
+ */
+function unresolvedRefMessage(name: string, gitRef: string): string {
+  return `Could not resolve ${name} reference '${gitRef}'. Make sure it exists and is fetched, e.g. with 'fetch-depth: 0' in actions/checkout.`;
+}
+
+/**
+ * Parse the output of `git diff --name-status -M`
+ * @param output Command output
+ * @returns Array of modified files
+ */
+export function parseNameStatus(output: string): ModifiedFile[] {
+  const files: ModifiedFile[] = [];
+
+  for (const line of output.split("\n")) {
+    const [status, ...paths] = line.trim().split("\t");
+    if (!status || paths.length === 0) continue;
+
+    switch (status[0]) {
+      case "A":
+      case "C": // A copy is a new file as far as verification is concerned
+        files.push({ path: paths[paths.length - 1], status: "added" });
+        break;
+      case "D":
+        files.push({ path: paths[0], status: "deleted" });
+        break;
+      case "R":
+        files.push({
+          path: paths[1] ?? paths[0],
+          status: "renamed",
+          previousPath: paths[0],
+        });
+        break;
+      default:
+        files.push({ path: paths[0], status: "modified" });
+    }
+  }
+
+  return files;
+}
+
 /**
  * Get modified files between two Git references
  * @param baseRef Base Git reference
  * @param headRef Head Git reference
  * @param contractsDir Directories to search for contracts
- * @returns Array of modified file paths
+ * @returns Array of modified files, with renames detected by Git
  */
 export async function getModifiedFiles(
   baseRef: string,
   headRef: string,
   contractsDir: string[]
-): Promise<string[]> {
+): Promise<ModifiedFile[]> {
   let output = "";
 
   try {
@@ -201,10 +448,10 @@ export async function getModifiedFiles(
     let exitCode = 0;
 
     // First try: direct diff between refs
-    Logger.info(`Running git diff --name-only ${baseRef} ${headRef}`);
+    Logger.info(`Running git diff --name-status -M ${baseRef} ${headRef}`);
     exitCode = await exec(
       "git",
-      ["diff", "--name-only", baseRef, headRef],
+      ["diff", "--name-status", "-M", baseRef, headRef],
       options
     );
 
@@ -214,7 +461,13 @@ export async function getModifiedFiles(
       output = ""; // Clear previous output
       exitCode = await exec(
         "git",
-        ["diff", "--name-only", `origin/${baseRef}`, `origin/${headRef}`],
+        [
+          "diff",
+          "--name-status",
+          "-M",
+          `origin/${baseRef}`,
+          `origin/${headRef}`,
+        ],
         options
       );
     }
@@ -225,7 +478,7 @@ export async function getModifiedFiles(
       output = ""; // Clear previous output
       exitCode = await exec(
         "git",
-        ["diff", "--name-only", baseRef, headRef, "--"],
+        ["diff", "--name-status", "-M", baseRef, headRef, "--"],
         options
       );
     }
@@ -239,20 +492,26 @@ export async function getModifiedFiles(
     }
 
     // Filter files by directory and extension
-    const files = output
-      .split("\n")
-      .map((file) => file.trim())
-      .filter((file) => file.endsWith(".clar"))
-      .filter((file) => {
-        // Check if file is in one of the contract directories
-        return contractsDir.some((dir) => {
-          const relativePath = path.relative(dir, file);
-          return (
-            !relativePath.startsWith("..") && !path.isAbsolute(relativePath)
-          );
-        });
+    const inContractsDir = (file: string): boolean =>
+      contractsDir.some((dir) => {
+        const relativePath = path.relative(dir, file);
+        return !relativePath.startsWith("..") && !path.isAbsolute(relativePath);
       });
 
+    const files = parseNameStatus(output)
+      .filter((file) => file.path.endsWith(".clar"))
+      .filter(
+        (file) =>
+          inContractsDir(file.path) ||
+          (file.previousPath !== undefined && inContractsDir(file.previousPath))
+      );
+
+    for (const file of files) {
+      if (file.status === "renamed") {
+        Logger.info(`Detected rename of ${file.previousPath} to ${file.path}`);
+      }
+    }
+
     Logger.info(`Found ${files.length} modified .clar files`);
     return files;
   } catch (error) {
@@ -261,6 +520,172 @@ export async function getModifiedFiles(
   }
 }
 
+/**
+ * Parse the hunk headers of a unified diff
+ * @param output Output of `git diff -U0`
+ * @returns Array of diff hunks
+ */
+export function parseDiffHunks(output: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  const hunkRegex = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+  for (const line of output.split("\n")) {
+    const match = line.match(hunkRegex);
+    if (match) {
+      hunks.push({
+        baseStart: parseInt(match[1], 10),
+        baseCount: match[2] !== undefined ? parseInt(match[2], 10) : 1,
+        headStart: parseInt(match[3], 10),
+        headCount: match[4] !== undefined ? parseInt(match[4], 10) : 1,
+      });
+    }
+  }
+
+  return hunks;
+}
+
+/**
+ * Get the changed line ranges of a file between two Git references
+ * @param baseRef Base Git reference
+ * @param headRef Head Git reference
+ * @param file Modified file
+ * @returns Diff hunks, or undefined if the diff could not be computed
+ */
+export async function getDiffHunks(
+  baseRef: string,
+  headRef: string,
+  file: ModifiedFile
+): Promise<DiffHunk[] | undefined> {
+  let output = "";
+
+  try {
+    const options = {
+      listeners: {
+        stdout: (data: Buffer) => {
+          output += data.toString();
+        },
+        stderr: (data: Buffer) => {
+          Logger.debug(`Git diff stderr: ${data.toString()}`);
+        },
+      },
+      ignoreReturnCode: true,
+      silent: true,
+    };
+
+    const paths = file.previousPath
+      ? [file.previousPath, file.path]
+      : [file.path];
+    const exitCode = await exec(
+      "git",
+      ["diff", "-U0", "-M", baseRef, headRef, "--", ...paths],
+      options
+    );
+
+    if (exitCode !== 0) {
+      Logger.warning(`Failed to get diff hunks for ${file.path}`);
+      return undefined;
+    }
+
+    return parseDiffHunks(output);
+  } catch (error) {
+    Logger.warning(`Failed to get diff hunks for ${file.path}: ${error}`);
+    return undefined;
+  }
+}
+
+const FUNCTION_DEFINITIONS: FunctionDefinitionType[] = [
+  "define-public",
+  "define-private",
+  "define-read-only",
+];
+
+const OTHER_DEFINITIONS: DefinitionType[] = [
+  "define-map",
+  "define-data-var",
+  "define-constant",
+  "define-fungible-token",
+  "define-non-fungible-token",
+  "define-trait",
+  "impl-trait",
+  "use-trait",
+];
+
+/**
+ * Check if a definition is a function definition
+ * @param definition Definition to check
+ * @returns True if the definition is a public, private or read-only function
+ */
+export function isFunctionDefinition(
+  definition: ClarityDefinition
+): definition is ClarityFunction {
+  return (FUNCTION_DEFINITIONS as DefinitionType[]).includes(definition.type);
+}
+
+/**
+ * Get the name of a top-level definition
+ * @param type Definition keyword
+ * @param expr The definition expression
+ * @returns Definition name, or undefined if the definition is malformed
+ */
+function getDefinitionName(
+  type: DefinitionType,
+  expr: SExprList
+): string | undefined {
+  const target = expr.items[1];
+
+  // Functions are named by the head of their signature:
+  // (define-public (name (arg type)...) body)
+  if ((FUNCTION_DEFINITIONS as DefinitionType[]).includes(type)) {
+    const name = target?.kind === "list" ? target.items[0] : undefined;
+    return isAtom(name) ? name.text : undefined;
+  }
+
+  return isAtom(target) ? target.text : undefined;
+}
+
+/**
+ * Parse all top-level definitions from a Clarity contract
+ * @param content File content
+ * @param filePath Path to the file
+ * @returns Contract model with every definition and the functions among them
+ */
+export function parseClarityContract(
+  content: string,
+  filePath: string
+): ClarityContract {
+  const definitions: ClarityDefinition[] = [];
+
+  for (const expr of parseSExpressions(content)) {
+    if (expr.kind !== "list") continue;
+
+    const keyword = expr.items[0];
+    const type = [...FUNCTION_DEFINITIONS, ...OTHER_DEFINITIONS].find((t) =>
+      isAtom(keyword, t)
+    );
+    if (!type) continue;
+
+    const name = getDefinitionName(type, expr);
+    if (!name) continue;
+
+    definitions.push({
+      name,
+      type,
+      startLine: expr.startLine,
+      startColumn: expr.startColumn,
+      endLine: expr.endLine,
+      endColumn: expr.endColumn,
+      content: content.slice(expr.startOffset, expr.endOffset),
+      file: filePath,
+    });
+  }
+
+  return {
+    file: filePath,
+    definitions,
+    functions: definitions.filter(isFunctionDefinition),
+  };
+}
+
 /**
  * Parse Clarity functions from a file content
  * @param content File content
@@ -271,102 +696,60 @@ export function parseClarityFunctions(
   content: string,
   filePath: string
 ): ClarityFunction[] {
-  const functions: ClarityFunction[] = [];
-  const lines = content.split("\n");
-
-  // Regular expressions for function definitions
-  const functionRegex = /\(define-(public|private|read-only)\s+\(([^)]+)/;
-
-  let inFunction = false;
-  let currentFunction: Partial<ClarityFunction> = {};
-  let openParens = 0;
-  let functionContent = "";
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-
-    if (!inFunction) {
-      // Check if line contains a function definition
-      const match = line.match(functionRegex);
-      if (match) {
-        inFunction = true;
-        openParens = 1; // Count the opening parenthesis of the define
-
-        currentFunction = {
-          type: match[1] as
-            | "define-public"
-            | "define-private"
-            | "define-read-only",
-          name: match[2].trim().split(" ")[0], // Extract function name
-          startLine: i + 1,
-          file: filePath,
-          content: line,
-        };
-
-        functionContent = line;
-
-        // Count additional opening parentheses in the current line
-        if (match.index !== undefined) {
-          for (let j = match.index + 1; j < line.length; j++) {
-            if (line[j] === "(") openParens++;
-            if (line[j] === ")") openParens--;
-          }
-        }
+  return parseClarityContract(content, filePath).functions;
+}
 
-        // If function definition is complete in a single line
-        if (openParens === 0) {
-          inFunction = false;
-          currentFunction.endLine = i + 1;
-          currentFunction.content = functionContent;
-          functions.push(currentFunction as ClarityFunction);
-        }
-      }
-    } else {
-      // Already inside a function, continue collecting content
-      functionContent += "\n" + line;
-
-      // Count parentheses to determine when the function ends
-      for (let j = 0; j < line.length; j++) {
-        if (line[j] === "(") openParens++;
-        if (line[j] === ")") openParens--;
-      }
+const DEFAULT_DETECTION_OPTIONS: DetectionOptions = {
+  ignoreFormatting: true,
+};
 
-      // If all parentheses are closed, the function is complete
-      if (openParens === 0) {
-        inFunction = false;
-        currentFunction.endLine = i + 1;
-        currentFunction.content = functionContent;
-        functions.push(currentFunction as ClarityFunction);
-      }
-    }
-  }
+/**
+ * Minimum token similarity for a deleted and an added function to be
+ * treated as a rename
+ */
+const RENAME_SIMILARITY_THRESHOLD = 0.8;
 
-  return functions;
+/**
+ * Check if two versions of a definition differ
+ * @param base Definition from base branch
+ * @param head Definition from head branch
+ * @param options Detection options
+ * @returns True if the definitions differ
+ */
+export function definitionChanged(
+  base: ClarityDefinition,
+  head: ClarityDefinition,
+  options: DetectionOptions = DEFAULT_DETECTION_OPTIONS
+): boolean {
+  if (!options.ignoreFormatting) {
+    return base.content !== head.content;
+  }
+  return normalizeClarity(base.content) !== normalizeClarity(head.content);
 }
 
 /**
  * Compare functions from base and head to identify changes
  * @param baseFunctions Functions from base branch
  * @param headFunctions Functions from head branch
+ * @param options Detection options
  * @returns Array of changed functions
  */
 export function compareAndIdentifyChanges(
   baseFunctions: ClarityFunction[],
-  headFunctions: ClarityFunction[]
+  headFunctions: ClarityFunction[],
+  options: DetectionOptions = DEFAULT_DETECTION_OPTIONS
 ): ChangedFunction[] {
   const changedFunctions: ChangedFunction[] = [];
+  const deleted: ClarityFunction[] = [];
+  const added: ClarityFunction[] = [];
 
   // Find modified and deleted functions
   for (const baseFunc of baseFunctions) {
     const headFunc = headFunctions.find((f) => f.name === baseFunc.name);
 
     if (!headFunc) {
-      // Function was deleted
-      changedFunctions.push({
-        ...baseFunc,
-        changeType: "deleted",
-      });
-    } else if (baseFunc.content !== headFunc.content) {
+      deleted.push(baseFunc);
+    } else if (definitionChanged(baseFunc, headFunc, options)) {
       // Function was modified
       changedFunctions.push({
         ...headFunc,
@@ -380,30 +763,307 @@ export function compareAndIdentifyChanges(
     const baseFunc = baseFunctions.find((f) => f.name === headFunc.name);
 
     if (!baseFunc) {
-      // Function was added
+      added.push(headFunc);
+    }
+  }
+
+  changedFunctions.push(...classifyUnpairedFunctions(deleted, added));
+
+  return changedFunctions;
+}
+
+/**
+ * Classify functions that only exist in one of the two versions. A
+ * deletion and an addition with (nearly) the same body is a rename.
+ * @param deleted Functions only present in the base version
+ * @param added Functions only present in the head version
+ * @param changedLines Changed lines of head functions, if known
+ * @returns Renamed, deleted and added functions
+ */
+function classifyUnpairedFunctions(
+  deleted: ClarityFunction[],
+  added: ClarityFunction[],
+  changedLines = new Map<ClarityFunction, number[]>()
+): ChangedFunction[] {
+  const changedFunctions: ChangedFunction[] = [];
+
+  const renames = matchRenamedFunctions(deleted, added);
+  for (const [baseFunc, headFunc] of renames) {
+    changedFunctions.push({
+      ...headFunc,
+      changeType: "renamed",
+      previousName: baseFunc.name,
+      changedLines: changedLines.get(headFunc),
+    });
+  }
+
+  for (const baseFunc of deleted) {
+    if (!renames.has(baseFunc)) {
+      changedFunctions.push({ ...baseFunc, changeType: "deleted" });
+    }
+  }
+
+  const renamedTo = new Set(renames.values());
+  for (const headFunc of added) {
+    if (!renamedTo.has(headFunc)) {
       changedFunctions.push({
         ...headFunc,
         changeType: "added",
+        changedLines: changedLines.get(headFunc),
+      });
+    }
+  }
+
+  return changedFunctions;
+}
+
+/**
+ * Get the significant tokens of a function with its own name masked out,
+ * so that a renamed function compares equal to its previous version
+ * @param func Function to tokenize
+ * @returns Tokens without comments
+ */
+function getRenameTokens(func: ClarityFunction): string[] {
+  return tokenizeClarity(func.content)
+    .filter((token) => token.kind !== "comment")
+    .map((token) =>
+      token.kind === "atom" && token.text === func.name ? "\0" : token.text
+    );
+}
+
+/**
+ * Compute how similar two token sequences are, based on their longest
+ * common subsequence
+ * @param a First token sequence
+ * @param b Second token sequence
+ * @returns Similarity between 0 (nothing in common) and 1 (identical)
+ */
+export function tokenSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) {
+    return 1;
+  }
+
+  let previous = new Array<number>(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const current = new Array<number>(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      current[j] =
+        a[i - 1] === b[j - 1]
+          ? previous[j - 1] + 1
+          : Math.max(previous[j], current[j - 1]);
+    }
+    previous = current;
+  }
+
+  return (2 * previous[b.length]) / (a.length + b.length);
+}
+
+/**
+ * Pair deleted functions with added functions that have an identical or
+ * near-identical body. Candidates are matched greedily, most similar first.
+ * @param deleted Functions only present in the base version
+ * @param added Functions only present in the head version
+ * @returns Map of base functions to the head functions they were renamed to
+ */
+export function matchRenamedFunctions(
+  deleted: ClarityFunction[],
+  added: ClarityFunction[]
+): Map<ClarityFunction, ClarityFunction> {
+  const candidates: {
+    baseFunc: ClarityFunction;
+    headFunc: ClarityFunction;
+    similarity: number;
+  }[] = [];
+
+  for (const baseFunc of deleted) {
+    const baseTokens = getRenameTokens(baseFunc);
+    for (const headFunc of added) {
+      if (headFunc.type !== baseFunc.type) continue;
+
+      const headTokens = getRenameTokens(headFunc);
+      // The similarity can never exceed the ratio of the lengths
+      const shorter = Math.min(baseTokens.length, headTokens.length);
+      const longer = Math.max(baseTokens.length, headTokens.length);
+      if ((2 * shorter) / (shorter + longer) < RENAME_SIMILARITY_THRESHOLD) {
+        continue;
+      }
+
+      const similarity = tokenSimilarity(baseTokens, headTokens);
+      if (similarity >= RENAME_SIMILARITY_THRESHOLD) {
+        candidates.push({ baseFunc, headFunc, similarity });
+      }
+    }
+  }
+
+  const renames = new Map<ClarityFunction, ClarityFunction>();
+  const matched = new Set<ClarityFunction>();
+  candidates.sort((a, b) => b.similarity - a.similarity);
+  for (const { baseFunc, headFunc } of candidates) {
+    if (renames.has(baseFunc) || matched.has(headFunc)) continue;
+    renames.set(baseFunc, headFunc);
+    matched.add(headFunc);
+  }
+
+  return renames;
+}
+
+/**
+ * Map diff hunks onto the functions of the head version
+ * @param hunks Diff hunks of the file
+ * @param headFunctions Functions from head branch
+ * @returns Map of touched functions to their changed lines
+ */
+export function mapHunksToFunctions(
+  hunks: DiffHunk[],
+  headFunctions: ClarityFunction[]
+): Map<ClarityFunction, number[]> {
+  const touched = new Map<ClarityFunction, number[]>();
+
+  const mark = (func: ClarityFunction, line: number): void => {
+    const lines = touched.get(func) ?? [];
+    if (!lines.includes(line)) {
+      lines.push(line);
+    }
+    touched.set(func, lines);
+  };
+
+  for (const hunk of hunks) {
+    for (const func of headFunctions) {
+      if (hunk.headCount > 0) {
+        const first = Math.max(hunk.headStart, func.startLine);
+        const last = Math.min(
+          hunk.headStart + hunk.headCount - 1,
+          func.endLine
+        );
+        for (let line = first; line <= last; line++) {
+          mark(func, line);
+        }
+      } else if (
+        // Pure deletion between headStart and the following line
+        hunk.headStart >= func.startLine &&
+        hunk.headStart < func.endLine
+      ) {
+        mark(func, hunk.headStart + 1);
+      }
+    }
+  }
+
+  for (const lines of touched.values()) {
+    lines.sort((a, b) => a - b);
+  }
+
+  return touched;
+}
+
+/**
+ * Pair base and head functions by name. Duplicate names are paired in
+ * order of appearance.
+ * @param baseFunctions Functions from base branch
+ * @param headFunctions Functions from head branch
+ * @returns Map of head functions to their base counterparts
+ */
+function pairFunctionsByName(
+  baseFunctions: ClarityFunction[],
+  headFunctions: ClarityFunction[]
+): Map<ClarityFunction, ClarityFunction> {
+  const pairs = new Map<ClarityFunction, ClarityFunction>();
+  const remaining = [...baseFunctions];
+
+  for (const headFunc of headFunctions) {
+    const index = remaining.findIndex((f) => f.name === headFunc.name);
+    if (index !== -1) {
+      pairs.set(headFunc, remaining[index]);
+      remaining.splice(index, 1);
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Identify changed functions by mapping diff hunks onto the function spans
+ * of the head version. Only functions touched by a hunk are compared, and
+ * each one records exactly which of its lines changed.
+ * @param baseFunctions Functions from base branch
+ * @param headFunctions Functions from head branch
+ * @param hunks Diff hunks of the file
+ * @param options Detection options
+ * @returns Array of changed functions
+ */
+export function identifyChangesFromHunks(
+  baseFunctions: ClarityFunction[],
+  headFunctions: ClarityFunction[],
+  hunks: DiffHunk[],
+  options: DetectionOptions = DEFAULT_DETECTION_OPTIONS
+): ChangedFunction[] {
+  const touched = mapHunksToFunctions(hunks, headFunctions);
+  const pairs = pairFunctionsByName(baseFunctions, headFunctions);
+  const pairedBase = new Set(pairs.values());
+
+  const changedFunctions: ChangedFunction[] = [];
+  const added: ClarityFunction[] = [];
+
+  for (const headFunc of headFunctions) {
+    const baseFunc = pairs.get(headFunc);
+    const changedLines = touched.get(headFunc);
+
+    if (!baseFunc) {
+      added.push(headFunc);
+    } else if (changedLines && definitionChanged(baseFunc, headFunc, options)) {
+      changedFunctions.push({
+        ...headFunc,
+        changeType: "modified",
+        changedLines,
       });
     }
   }
 
+  const deleted = baseFunctions.filter((f) => !pairedBase.has(f));
+  changedFunctions.push(...classifyUnpairedFunctions(deleted, added, touched));
+
   return changedFunctions;
 }
 
+/**
+ * Find state definitions (maps, variables, constants and tokens) that
+ * exist in both versions but whose definition changed
+ * @param baseDefinitions Definitions from base branch
+ * @param headDefinitions Definitions from head branch
+ * @param options Detection options
+ * @returns Head versions of the changed definitions
+ */
+export function findChangedStateDefinitions(
+  baseDefinitions: ClarityDefinition[],
+  headDefinitions: ClarityDefinition[],
+  options: DetectionOptions = DEFAULT_DETECTION_OPTIONS
+): ClarityDefinition[] {
+  return headDefinitions.filter((headDef) => {
+    if (!STATE_DEFINITIONS.includes(headDef.type)) return false;
+
+    const baseDef = baseDefinitions.find(
+      (d) => d.name === headDef.name && d.type === headDef.type
+    );
+    return (
+      baseDef !== undefined && definitionChanged(baseDef, headDef, options)
+    );
+  });
+}
+
 /**
  * Detect changed functions in Clarity contracts
  * @param baseRef Base Git reference
  * @param headRef Head Git reference
  * @param contractsDir Directories containing Clarity contracts
  * @param excludedContracts Contracts to exclude
+ * @param options Detection options
  * @returns Array of changed functions
  */
 export async function detectChangedFunctions(
   baseRef: string,
   headRef: string,
   contractsDir: string[],
-  excludedContracts: string[]
+  excludedContracts: string[],
+  options: DetectionOptions = DEFAULT_DETECTION_OPTIONS
 ): Promise<ChangedFunction[]> {
   Logger.info("Detecting changed Clarity functions...");
 
@@ -416,7 +1076,7 @@ export async function detectChangedFunctions(
       const regex = new RegExp(
         pattern.replace(/\./g, "\\.").replace(/\*/g, ".*")
       );
-      return regex.test(file);
+      return regex.test(file.path);
     });
   });
 
@@ -425,11 +1085,15 @@ export async function detectChangedFunctions(
   // Detect changed functions in each file
   const changedFunctions: ChangedFunction[] = [];
 
-  for (const file of filteredFiles) {
+  for (const modifiedFile of filteredFiles) {
+    const file = modifiedFile.path;
     Logger.debug(`Analyzing changes in ${file}`);
 
-    // Get file content from base and head
-    const baseContent = await getFileContent(baseRef, file);
+    // Get file content from base and head, following renames
+    const baseContent = await getFileContent(
+      baseRef,
+      modifiedFile.previousPath ?? file
+    );
     const headContent = await getFileContent(headRef, file);
 
     // If file is new, all functions are added
@@ -456,13 +1120,52 @@ export async function detectChangedFunctions(
       continue;
     }
 
-    // Parse functions from both versions
-    const baseFunctions = parseClarityFunctions(baseContent, file);
-    const headFunctions = parseClarityFunctions(headContent, file);
+    // Parse both versions of the contract
+    const baseContract = parseClarityContract(baseContent, file);
+    const headContract = parseClarityContract(headContent, file);
 
-    // Compare functions to identify changes
-    const changes = compareAndIdentifyChanges(baseFunctions, headFunctions);
+    // Map the diff hunks onto the head functions, falling back to
+    // comparing whole function bodies if the diff is unavailable
+    const hunks = await getDiffHunks(baseRef, headRef, modifiedFile);
+    const changes = (
+      hunks
+        ? identifyChangesFromHunks(
+            baseContract.functions,
+            headContract.functions,
+            hunks,
+            options
+          )
+        : compareAndIdentifyChanges(
+            baseContract.functions,
+            headContract.functions,
+            options
+          )
+    ).map((func) => ({ ...func, previousFile: modifiedFile.previousPath }));
     changedFunctions.push(...changes);
+
+    // Maps, variables and constants can change without any function
+    // changing, which affects every function that uses them
+    const changedDefinitions = findChangedStateDefinitions(
+      baseContract.definitions,
+      headContract.definitions,
+      options
+    );
+    for (const definition of changedDefinitions) {
+      Logger.info(`${definition.type} ${definition.name} changed in ${file}`);
+    }
+
+    // Callers of changed functions may break too, so verify them as well
+    const impacted = findImpactedFunctions(
+      changes,
+      headContract,
+      changedDefinitions
+    );
+    if (impacted.length > 0) {
+      Logger.info(
+        `${impacted.length} function(s) in ${file} depend on changed definitions`
+      );
+      changedFunctions.push(...impacted);
+    }
   }
 
   Logger.info(`Detected ${changedFunctions.length} changed functions`);
@@ -0,0 +1,280 @@
+import { SourceSpan } from "../types";
+
+/**
+ * Kinds of tokens produced by the Clarity tokenizer
+ */
+export type TokenKind =
+  | "lparen"
+  | "rparen"
+  | "lbrace"
+  | "rbrace"
+  | "colon"
+  | "comma"
+  | "string"
+  | "atom"
+  | "comment";
+
+/**
+ * A single token of Clarity source. Offsets index into the original
+ * content, with `endOffset` pointing one past the last character.
+ */
+export interface Token extends SourceSpan {
+  kind: TokenKind;
+  text: string;
+  startOffset: number;
+  endOffset: number;
+}
+
+/**
+ * An atom (identifier, literal, keyword) or string literal
+ */
+export interface SExprAtom extends SourceSpan {
+  kind: "atom" | "string";
+  text: string;
+  startOffset: number;
+  endOffset: number;
+}
+
+/**
+ * A parenthesised list or a brace-delimited tuple literal
+ */
+export interface SExprList extends SourceSpan {
+  kind: "list" | "tuple";
+  items: SExpr[];
+  startOffset: number;
+  endOffset: number;
+}
+
+export type SExpr = SExprAtom | SExprList;
+
+interface Position {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+const PUNCTUATION: Record<string, TokenKind> = {
+  "(": "lparen",
+  ")": "rparen",
+  "{": "lbrace",
+  "}": "rbrace",
+  ":": "colon",
+  ",": "comma",
+};
+
+/**
+ * Check if a character ends an atom
+ * @param ch Character to check
+ * @returns True if the character is whitespace, punctuation, a quote or a comment start
+ */
+function isDelimiter(ch: string): boolean {
+  return /\s/.test(ch) || ch in PUNCTUATION || ch === '"' || ch === ";";
+}
+
+/**
+ * Split Clarity source into tokens. String literals (including `u"..."`
+ * UTF-8 strings with escapes) and `;;` comments are kept as single tokens,
+ * so parentheses inside them never affect nesting. Both LF and CRLF line
+ * endings are supported.
+ * @param content Clarity source
+ * @returns Array of tokens, including comments
+ */
+export function tokenizeClarity(content: string): Token[] {
+  const tokens: Token[] = [];
+  const length = content.length;
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+
+  // Move past the current character, keeping line and column in sync.
+  // A carriage return has no width so CRLF and LF files share positions.
+  const advance = (): void => {
+    const ch = content[offset];
+    if (ch === "\n") {
+      line++;
+      column = 1;
+    } else if (ch !== "\r") {
+      column++;
+    }
+    offset++;
+  };
+
+  while (offset < length) {
+    const ch = content[offset];
+
+    if (/\s/.test(ch)) {
+      advance();
+      continue;
+    }
+
+    const start: Position = { line, column, offset };
+    let last: Position = start;
+    const consume = (): void => {
+      last = { line, column, offset };
+      advance();
+    };
+
+    let kind: TokenKind;
+    if (ch === ";") {
+      kind = "comment";
+      while (
+        offset < length &&
+        content[offset] !== "\n" &&
+        content[offset] !== "\r"
+      ) {
+        consume();
+      }
+    } else if (ch in PUNCTUATION) {
+      kind = PUNCTUATION[ch];
+      consume();
+    } else if (ch === '"' || (ch === "u" && content[offset + 1] === '"')) {
+      kind = "string";
+      if (ch === "u") consume();
+      consume(); // opening quote
+      while (offset < length) {
+        const c = content[offset];
+        consume();
+        if (c === "\\" && offset < length) {
+          consume(); // escaped character
+        } else if (c === '"') {
+          break;
+        }
+      }
+    } else {
+      kind = "atom";
+      while (offset < length && !isDelimiter(content[offset])) {
+        consume();
+      }
+    }
+
+    tokens.push({
+      kind,
+      text: content.slice(start.offset, offset),
+      startLine: start.line,
+      startColumn: start.column,
+      endLine: last.line,
+      endColumn: last.column,
+      startOffset: start.offset,
+      endOffset: offset,
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Build S-expressions from a token stream. Comments and tuple separators
+ * (`:` and `,`) are dropped. The reader is lenient so that a half-written
+ * contract still yields something useful: unmatched closing brackets are
+ * ignored and lists left open at the end of input are closed at the last
+ * token.
+ * @param tokens Tokens from tokenizeClarity
+ * @returns Top-level expressions in source order
+ */
+export function readSExpressions(tokens: Token[]): SExpr[] {
+  const topLevel: SExpr[] = [];
+  const stack: SExprList[] = [];
+  let lastToken: Token | undefined;
+
+  const append = (expr: SExpr): void => {
+    if (stack.length > 0) {
+      stack[stack.length - 1].items.push(expr);
+    } else {
+      topLevel.push(expr);
+    }
+  };
+
+  const close = (list: SExprList, end: Token): void => {
+    list.endLine = end.endLine;
+    list.endColumn = end.endColumn;
+    list.endOffset = end.endOffset;
+    append(list);
+  };
+
+  for (const token of tokens) {
+    switch (token.kind) {
+      case "comment":
+      case "colon":
+      case "comma":
+        continue;
+      case "lparen":
+      case "lbrace":
+        stack.push({
+          kind: token.kind === "lparen" ? "list" : "tuple",
+          items: [],
+          startLine: token.startLine,
+          startColumn: token.startColumn,
+          endLine: token.endLine,
+          endColumn: token.endColumn,
+          startOffset: token.startOffset,
+          endOffset: token.endOffset,
+        });
+        break;
+      case "rparen":
+      case "rbrace": {
+        const list = stack.pop();
+        if (list) {
+          close(list, token);
+        }
+        break;
+      }
+      default:
+        append({
+          kind: token.kind,
+          text: token.text,
+          startLine: token.startLine,
+          startColumn: token.startColumn,
+          endLine: token.endLine,
+          endColumn: token.endColumn,
+          startOffset: token.startOffset,
+          endOffset: token.endOffset,
+        });
+    }
+    lastToken = token;
+  }
+
+  for (let list = stack.pop(); list && lastToken; list = stack.pop()) {
+    close(list, lastToken);
+  }
+
+  return topLevel;
+}
+
+/**
+ * Parse Clarity source into S-expressions
+ * @param content Clarity source
+ * @returns Top-level expressions in source order
+ */
+export function parseSExpressions(content: string): SExpr[] {
+  return readSExpressions(tokenizeClarity(content));
+}
+
+/**
+ * Reduce Clarity source to its significant tokens, so that two versions
+ * differing only in comments, indentation or line breaks compare equal
+ * @param content Clarity source
+ * @returns Space-separated token stream without comments
+ */
+export function normalizeClarity(content: string): string {
+  return tokenizeClarity(content)
+    .filter((token) => token.kind !== "comment")
+    .map((token) => token.text)
+    .join(" ");
+}
+
+/**
+ * Check if an expression is an atom, optionally with the given text
+ * @param expr Expression to check
+ * @param text Expected atom text
+ * @returns True if the expression is a matching atom
+ */
+export function isAtom(
+  expr: SExpr | undefined,
+  text?: string
+): expr is SExprAtom {
+  return (
+    expr !== undefined &&
+    expr.kind === "atom" &&
+    (text === undefined || expr.text === text)
+  );
+}
@@ -1,6 +1,42 @@
 import * as path from "path";
-import { ESBMCResult, SARIFReport, SARIFRule, SARIFResult } from "../types";
+import {
+  ChangedFunction,
+  ESBMCResult,
+  VerificationStatus,
+  ProjectVerification,
+  SARIFLocation,
+  SARIFReport,
+  SARIFRule,
+  SARIFResult,
+} from "../types";
 import { Logger, writeFile } from "../utils";
+import { AST_INVALID } from "../ast/validator";
+import { TIMEOUT } from "../esbmc/runner";
+import { countStatuses, isInconclusive } from "../esbmc/status";
+
+/**
+ * SARIF message prefix of each status that produces results
+ */
+const RESULT_MESSAGES: Record<VerificationStatus, string> = {
+  verified: "Verification succeeded",
+  falsified: "Verification failed",
+  unknown: "Verification inconclusive",
+  timeout: "Verification inconclusive",
+  error: "Verification error",
+  skipped: "Verification skipped",
+};
+
+/**
+ * Summary label of each status
+ */
+const STATUS_LABELS: Record<VerificationStatus, string> = {
+  verified: "Successfully verified",
+  falsified: "Verification failed",
+  unknown: "Inconclusive",
+  timeout: "Timed out",
+  error: "Errors",
+  skipped: "Skipped",
+};
 
 /**
  * Define SARIF rules based on ESBMC verification checks
@@ -53,6 +89,24 @@ function defineRules(): SARIFRule[] {
         text: "An error occurred during the execution of the Clarity contract.",
       },
     },
+    {
+      id: "clarity-verify-ast-invalid",
+      shortDescription: {
+        text: "Invalid AST for Clarity contract",
+      },
+      help: {
+        text: "The generated AST of the Clarity contract is malformed, so the contract could not be verified.",
+      },
+    },
+    {
+      id: "clarity-verify-timeout",
+      shortDescription: {
+        text: "Verification of Clarity function timed out",
+      },
+      help: {
+        text: "ESBMC was stopped at its time limit before reaching a result, so the function is neither verified nor falsified. Raise function_timeout, or verify the function with a smaller bound.",
+      },
+    },
     {
       id: "clarity-verify-unknown-error",
       shortDescription: {
@@ -77,28 +131,111 @@ function mapTitleToRuleId(title: string): string {
     "arithmetic underflow": "clarity-verify-underflow",
     "division by zero": "clarity-verify-division-by-zero",
     "execution-error": "clarity-verify-execution-error",
+    [AST_INVALID]: "clarity-verify-ast-invalid",
+    [TIMEOUT]: "clarity-verify-timeout",
   };
 
   return titleMap[title] || "clarity-verify-unknown-error";
 }
 
+/**
+ * Collapse sorted line numbers into contiguous ranges
+ * @param lines Sorted line numbers
+ * @returns Array of [first, last] ranges
+ */
+function toLineRanges(lines: number[]): [number, number][] {
+  const ranges: [number, number][] = [];
+  for (const line of lines) {
+    const last = ranges[ranges.length - 1];
+    if (last && line === last[1] + 1) {
+      last[1] = line;
+    } else {
+      ranges.push([line, line]);
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Format line numbers for display, e.g. "lines 3-5, 9"
+ * @param lines Sorted line numbers
+ * @returns Formatted line ranges
+ */
+export function formatLineRanges(lines: number[]): string {
+  const ranges = toLineRanges(lines).map(([first, last]) =>
+    first === last ? `${first}` : `${first}-${last}`
+  );
+  return `${lines.length === 1 ? "line" : "lines"} ${ranges.join(", ")}`;
+}
+
 /**
  * Convert ESBMC results to SARIF results
  * @param esbmcResults Array of ESBMC results
+ * @param changedFunctions Functions selected for verification
  * @returns Array of SARIF results
  */
-function convertToSARIFResults(esbmcResults: ESBMCResult[]): SARIFResult[] {
+function convertToSARIFResults(
+  esbmcResults: ESBMCResult[],
+  changedFunctions: ChangedFunction[]
+): SARIFResult[] {
   const sarifResults: SARIFResult[] = [];
 
   for (const result of esbmcResults) {
-    if (!result.verified) {
+    if (result.status !== "verified" && result.status !== "skipped") {
+      const func = changedFunctions.find(
+        (f) =>
+          f.file === result.clarityFile &&
+          f.name === result.functionName &&
+          f.changeType !== "deleted"
+      );
+
+      // Point reviewers at the lines this pull request changed
+      const relatedLocations: SARIFLocation[] = toLineRanges(
+        func?.changedLines ?? []
+      ).map(([first, last], index) => ({
+        id: index + 1,
+        message: {
+          text: "Changed in this pull request",
+        },
+        physicalLocation: {
+          artifactLocation: {
+            uri: result.clarityFile,
+          },
+          region: {
+            startLine: first,
+            endLine: last,
+          },
+        },
+      }));
+
       for (const failure of result.failures) {
         const ruleId = mapTitleToRuleId(failure.title);
 
+        // Without a failing line, highlight the whole function instead
+        const region =
+          failure.lineNumber > 0 || !func
+            ? {
+                startLine: failure.lineNumber > 0 ? failure.lineNumber : 1,
+                startColumn: 1,
+              }
+            : {
+                startLine: func.startLine,
+                startColumn: func.startColumn,
+                endLine: func.endLine,
+                endColumn: func.endColumn + 1,
+              };
+
         sarifResults.push({
           ruleId,
+          // Only counterexamples are failures; the rest is inconclusive
+          ...(result.status !== "falsified" && {
+            kind: "open",
+            level: "none",
+          }),
           message: {
-            text: `Verification failed in function '${failure.functionName}': ${failure.failingCode}`,
+            text: `${RESULT_MESSAGES[result.status]} in function '${
+              failure.functionName
+            }': ${failure.failingCode}`,
           },
           locations: [
             {
@@ -106,13 +243,17 @@ function convertToSARIFResults(esbmcResults: ESBMCResult[]): SARIFResult[] {
                 artifactLocation: {
                   uri: result.clarityFile,
                 },
-                region: {
-                  startLine: failure.lineNumber > 0 ? failure.lineNumber : 1,
-                  startColumn: 1,
-                },
+                region,
               },
             },
           ],
+          ...(relatedLocations.length > 0 && { relatedLocations }),
+          properties: {
+            status: result.status,
+            ...(result.astBackend && { astBackend: result.astBackend }),
+            ...(result.command && { command: result.command }),
+            ...(result.attempts && { attempts: result.attempts }),
+          },
         });
       }
     }
@@ -122,34 +263,61 @@ function convertToSARIFResults(esbmcResults: ESBMCResult[]): SARIFResult[] {
 }
 
 /**
- * Generate SARIF report from ESBMC results
- * @param esbmcResults Array of ESBMC results
+ * Generate SARIF report from ESBMC results, with one run per Clarinet
+ * project so Code Scanning keeps each project's alerts in its own category
+ * @param verifications Changed functions and results, grouped by project
  * @returns SARIF report
  */
-export function generateSARIF(esbmcResults: ESBMCResult[]): SARIFReport {
+export function generateSARIF(
+  verifications: ProjectVerification[]
+): SARIFReport {
   Logger.info("Generating SARIF report from ESBMC results");
 
   const sarifReport: SARIFReport = {
     version: "2.1.0",
     $schema:
       "https://raw.githubusercontent.com/oasis-tcs/sarif-spec/master/Schemata/sarif-schema-2.1.0.json",
-    runs: [
-      {
-        tool: {
-          driver: {
-            name: "ESBMC Clarity Formal Verification",
-            version: "1.0.0",
-            rules: defineRules(),
-          },
+    runs: verifications.map((verification) => ({
+      tool: {
+        driver: {
+          name: "ESBMC Clarity Formal Verification",
+          version: "1.0.0",
+          rules: defineRules(),
         },
-        results: convertToSARIFResults(esbmcResults),
       },
-    ],
+      ...(verification.project && {
+        automationDetails: {
+          id: `clarity-verify/${verification.project.name}/`,
+        },
+      }),
+      results: convertToSARIFResults(
+        verification.esbmcResults,
+        verification.changedFunctions
+      ),
+      properties: {
+        astBackends: getASTBackends(verification.esbmcResults),
+      },
+    })),
   };
 
   return sarifReport;
 }
 
+/**
+ * Record which backend produced the AST of each verified contract
+ * @param esbmcResults Array of ESBMC results
+ * @returns AST backend keyed by contract file
+ */
+function getASTBackends(esbmcResults: ESBMCResult[]): Record<string, string> {
+  const backends: Record<string, string> = {};
+  for (const result of esbmcResults) {
+    if (result.astBackend) {
+      backends[result.clarityFile] = result.astBackend;
+    }
+  }
+  return backends;
+}
+
 /**
  * Write SARIF report to file
  * @param sarifReport SARIF report
@@ -172,40 +340,218 @@ export function writeSARIFReport(
 }
 
 /**
- * Generate summary of verification results
- * @param esbmcResults Array of ESBMC results
+ * Describe why a function was selected for verification
+ * @param func Changed function
+ * @returns Human-readable reason
+ */
+export function describeChangeReason(func: ChangedFunction): string {
+  let reason = describeChangeType(func);
+  if (func.changedLines?.length) {
+    reason += `, ${formatLineRanges(func.changedLines)}`;
+  }
+  return func.previousFile
+    ? `${reason} (file moved from \`${func.previousFile}\`)`
+    : reason;
+}
+
+/**
+ * Describe the kind of change that selected a function
+ * @param func Changed function
+ * @returns Human-readable change description
+ */
+function describeChangeType(func: ChangedFunction): string {
+  if (func.changeType === "renamed") {
+    return `renamed from \`${func.previousName}\``;
+  }
+
+  if (func.changeType !== "impacted" || !func.impactedBy?.length) {
+    return func.changeType;
+  }
+
+  const names = func.impactedBy.map((name) => `\`${name}\``);
+  if (!func.changedState) {
+    return `impacted: calls ${names.join(" → ")}, which changed`;
+  }
+
+  // The chain ends with the state definition rather than a function,
+  // possibly followed by the definitions its value depends on
+  const usedIndex = func.impactedBy.lastIndexOf(func.changedState.name);
+  const calls = names.slice(0, usedIndex);
+  const [definition, ...dependencies] = names.slice(usedIndex);
+  const verb = {
+    read: "reads",
+    write: "writes",
+    "read-write": "reads and writes",
+  }[func.changedState.access];
+  const usage =
+    dependencies.length > 0
+      ? `${verb} ${definition}, which depends on ${dependencies.join(
+          " → "
+        )}, whose definition changed`
+      : `${verb} ${definition}, whose definition changed`;
+  return calls.length > 0
+    ? `impacted: calls ${calls.join(" → ")}, which ${usage}`
+    : `impacted: ${usage}`;
+}
+
+/**
+ * Generate summary of verification results. With several Clarinet
+ * projects, the scope and failures are listed per project.
+ * @param verifications Changed functions and results, grouped by project
  * @returns Summary text
  */
-export function generateSummary(esbmcResults: ESBMCResult[]): string {
-  const totalFunctions = esbmcResults.length;
-  const verifiedFunctions = esbmcResults.filter((r) => r.verified).length;
-  const failedFunctions = totalFunctions - verifiedFunctions;
+export function generateSummary(verifications: ProjectVerification[]): string {
+  const esbmcResults = verifications.flatMap((v) => v.esbmcResults);
+  const counts = countStatuses(esbmcResults);
 
   let summary = `# Clarity Smart Contract Verification Summary\n\n`;
-  summary += `- Total functions verified: ${totalFunctions}\n`;
-  summary += `- Successfully verified: ${verifiedFunctions}\n`;
-  summary += `- Verification failed: ${failedFunctions}\n\n`;
-
-  if (failedFunctions > 0) {
-    summary += `## Failed Verifications\n\n`;
-
-    for (const result of esbmcResults) {
-      if (!result.verified) {
-        summary += `### Function: \`${
-          result.functionName
-        }\` in \`${path.basename(result.clarityFile)}\`\n\n`;
-
-        for (const failure of result.failures) {
-          summary += `- **${failure.title}** at line ${
-            failure.lineNumber > 0 ? failure.lineNumber : "unknown"
-          }\n`;
-          summary += `  \`${failure.failingCode}\`\n\n`;
-        }
-      }
-    }
+  summary += `- Total functions verified: ${esbmcResults.length}\n`;
+  summary += summarizeCounts(counts);
+  summary += `\n`;
+
+  if (verifications.length === 1) {
+    summary += summarizeVerification(verifications[0], "##");
   } else {
+    for (const verification of verifications) {
+      const name = verification.project?.name ?? "Other contracts";
+      summary += `## Project: ${name}\n\n`;
+      summary += `- Functions verified: ${verification.esbmcResults.length}\n`;
+      summary += summarizeCounts(countStatuses(verification.esbmcResults));
+      summary += `\n`;
+      summary += summarizeVerification(verification, "###");
+    }
+  }
+
+  if (esbmcResults.every((r) => r.status === "verified")) {
     summary += `All functions were successfully verified! 🎉\n`;
   }
 
   return summary;
 }
+
+/**
+ * Describe the scope and failures of one project's verification
+ * @param verification Changed functions and results of the project
+ * @param heading Markdown heading prefix for the sections
+ * @returns Summary text
+ */
+function summarizeVerification(
+  verification: ProjectVerification,
+  heading: string
+): string {
+  const { changedFunctions, esbmcResults } = verification;
+  let summary = "";
+
+  if (changedFunctions.length > 0) {
+    summary += `${heading} Verification Scope\n\n`;
+
+    for (const func of changedFunctions) {
+      summary += `- \`${func.name}\` in \`${path.basename(
+        func.file
+      )}\`: ${describeChangeReason(func)}\n`;
+    }
+    summary += `\n`;
+  }
+
+  const failedResults = esbmcResults.filter((r) => r.status === "falsified");
+  if (failedResults.length > 0) {
+    summary += `${heading} Failed Verifications\n\n`;
+
+    for (const result of failedResults) {
+      summary += `${heading}# Function: \`${
+        result.functionName
+      }\` in \`${path.basename(result.clarityFile)}\`\n\n`;
+      summary += describeAttempts(result, "\n\n");
+
+      for (const failure of result.failures) {
+        summary += `- **${failure.title}** at line ${
+          failure.lineNumber > 0 ? failure.lineNumber : "unknown"
+        }\n`;
+        summary += `  \`${failure.failingCode}\`\n\n`;
+      }
+    }
+  }
+
+  summary += listResults(
+    esbmcResults.filter((r) => isInconclusive(r.status)),
+    `${heading} Inconclusive Verifications`,
+    "ESBMC did not reach a verdict, or was stopped at its time limit:"
+  );
+  summary += listResults(
+    esbmcResults.filter((r) => r.status === "error"),
+    `${heading} Verification Errors`,
+    "These functions could not be verified because of an error in the tooling, not in the contract:"
+  );
+  summary += listResults(
+    esbmcResults.filter((r) => r.status === "skipped"),
+    `${heading} Skipped`,
+    "These functions were not verified:"
+  );
+
+  return summary;
+}
+
+/**
+ * List the number of verified and falsified functions, and of functions
+ * with any other status that occurs
+ * @param counts Number of results keyed by status
+ * @returns Markdown list lines
+ */
+function summarizeCounts(counts: Record<VerificationStatus, number>): string {
+  return (Object.keys(STATUS_LABELS) as VerificationStatus[])
+    .filter(
+      (status) =>
+        status === "verified" || status === "falsified" || counts[status] > 0
+    )
+    .map((status) => `- ${STATUS_LABELS[status]}: ${counts[status]}\n`)
+    .join("");
+}
+
+/**
+ * List results that have no counterexample to show, with the reason each
+ * has the status it has
+ * @param results Results to list
+ * @param title Section heading
+ * @param intro Sentence introducing the list
+ * @returns Summary text, empty if there are no results
+ */
+function listResults(
+  results: ESBMCResult[],
+  title: string,
+  intro: string
+): string {
+  if (results.length === 0) {
+    return "";
+  }
+
+  let summary = `${title}\n\n${intro}\n\n`;
+  for (const result of results) {
+    const reason = result.failures[0]?.failingCode ?? result.rawOutput;
+    summary += `- \`${result.functionName}\` in \`${path.basename(
+      result.clarityFile
+    )}\`: ${reason}${describeAttempts(result, "", " ")}\n`;
+  }
+  return `${summary}\n`;
+}
+
+/**
+ * Describe the attempts made on a function whose result was escalated
+ * @param result ESBMC result
+ * @param suffix Text to end the description with
+ * @param prefix Text to start the description with
+ * @returns Description, empty if ESBMC ran only once
+ */
+function describeAttempts(
+  result: ESBMCResult,
+  suffix: string,
+  prefix = ""
+): string {
+  if (!result.attempts || result.attempts.length < 2) {
+    return "";
+  }
+
+  const attempts = result.attempts
+    .map((a) => `${a.description}: ${a.status} in ${a.durationSeconds}s`)
+    .join(", ");
+  return `${prefix}(after ${result.attempts.length} attempts: ${attempts})${suffix}`;
+}
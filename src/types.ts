@@ -3,33 +3,593 @@
  */
 
 /**
- * Represents a function in a Clarity smart contract
+ * A region of source text. Lines and columns are 1-based and the end
+ * position is inclusive (it points at the last character of the region).
  */
-export interface ClarityFunction {
-  name: string;
-  type: "define-public" | "define-private" | "define-read-only";
+export interface SourceSpan {
   startLine: number;
+  startColumn: number;
   endLine: number;
+  endColumn: number;
+}
+
+/**
+ * Keywords that define a Clarity function
+ */
+export type FunctionDefinitionType =
+  | "define-public"
+  | "define-private"
+  | "define-read-only";
+
+/**
+ * Keywords of all top-level Clarity definitions
+ */
+export type DefinitionType =
+  | FunctionDefinitionType
+  | "define-map"
+  | "define-data-var"
+  | "define-constant"
+  | "define-fungible-token"
+  | "define-non-fungible-token"
+  | "define-trait"
+  | "impl-trait"
+  | "use-trait";
+
+/**
+ * Represents a top-level definition in a Clarity smart contract.
+ * For `impl-trait` the name is the implemented trait reference and for
+ * `use-trait` it is the local alias.
+ */
+export interface ClarityDefinition extends SourceSpan {
+  name: string;
+  type: DefinitionType;
   content: string;
   file: string;
 }
 
+/**
+ * Represents a function in a Clarity smart contract
+ */
+export interface ClarityFunction extends ClarityDefinition {
+  type: FunctionDefinitionType;
+}
+
+/**
+ * Represents the top-level structure of a Clarity contract
+ */
+export interface ClarityContract {
+  file: string;
+  definitions: ClarityDefinition[];
+  functions: ClarityFunction[];
+}
+
+/**
+ * Describes how a function uses a map, data variable, constant or token
+ */
+export interface StateAccess {
+  name: string;
+  type: DefinitionType;
+  access: "read" | "write" | "read-write";
+}
+
+/**
+ * Identity and language settings of a contract
+ */
+export interface ContractInfo {
+  /** Contract name used on chain, e.g. in `.name` references */
+  name: string;
+  /** Path of the source file, relative to the workspace */
+  path: string;
+  clarityVersion?: number;
+  epoch?: string;
+}
+
+/**
+ * A keyword used in a Clarity version that does not have it
+ */
+export interface KeywordDiagnostic {
+  keyword: string;
+  line: number;
+  column: number;
+  message: string;
+}
+
+/**
+ * A Clarinet project described by a Clarinet.toml manifest
+ */
+export interface ClarinetProject {
+  name: string;
+  /** Directory containing Clarinet.toml, relative to the workspace */
+  root: string;
+  manifestPath: string;
+  contracts: ContractInfo[];
+  /**
+   * Sources of the requirements the deployment plans emulate, keyed by
+   * contract principal. They are deployed by someone else, so they are
+   * never verified or listed among the contracts.
+   */
+  requirements: Record<string, string>;
+}
+
+/**
+ * Contracts published by a Clarinet deployment plan
+ */
+export interface DeploymentPlan {
+  /** Contracts of the project */
+  contracts: ContractInfo[];
+  /** Sources of emulated requirements, keyed by contract principal */
+  requirements: Record<string, string>;
+}
+
+/**
+ * A Clarity type as written in .clarast files: `[name, internal name,
+ * size]`, followed for composite types by their components:
+ * - `optional` and `list`: `[element]`
+ * - `response`: `[ok, err]`
+ * - `tuple`: `[[member, type], ...]`, or in map declarations
+ *   `[[type, member, size], ...]`
+ * - `map` (map declarations only): the key type, then the value type
+ */
+export type ClarastType =
+  | [string, string, string]
+  | [string, string, string, ClarastType[]]
+  | [string, string, string, [string, ClarastType][]]
+  | ["map", "map", string, ClarastType, ClarastType];
+
+/**
+ * Source region of a .clarast expression. Lines and columns are 1-based
+ * and inclusive; synthetic expressions use all zeros.
+ */
+export interface ClarastSpan {
+  end_column: number;
+  end_line: number;
+  start_column: number;
+  start_line: number;
+}
+
+/**
+ * Kinds of .clarast expression nodes
+ */
+export type ClarastExpressionType =
+  | "map_declaration"
+  | "variable_declaration"
+  | "constant_declaration"
+  | "ft_declaration"
+  | "nft_declaration"
+  | "function_declaration"
+  | "function_argument"
+  | "let_variable_declaration"
+  | "match_binding"
+  | "native_function"
+  | "user_function"
+  | "response_expression"
+  | "optional_expression"
+  | "tuple_object"
+  | "tuple_key"
+  | "variable"
+  | "keyword"
+  | "lit_bool"
+  | "lit_none"
+  | "lit_uint"
+  | "lit_int"
+  | "lit_buff"
+  | "lit_principal"
+  | "lit_ascii"
+  | "lit_utf8";
+
+/**
+ * An expression node of a .clarast file. `cid` is the id of the
+ * declaration an identifier refers to, or the node's own id.
+ */
+export interface ClarastExpression {
+  args?: ClarastExpression[];
+  id: number;
+  type: ClarastExpressionType;
+  value?: ClarastExpression;
+  span: ClarastSpan;
+  body?: ClarastExpression[];
+  identifier: string;
+  return_type?: ClarastType;
+  cid: number;
+  objtype?: ClarastType;
+}
+
+/**
+ * A value the verified transaction may see any value of, such as the
+ * result of a stubbed call
+ */
+export interface FreeInput {
+  /** Argument name; sites asking for the same name share one argument */
+  name: string;
+  type: ClarastType;
+}
+
+/**
+ * An expression in a function body to replace by one built from free
+ * inputs
+ */
+export interface FreeInputSite {
+  /** Function the expression is in */
+  functionName: string;
+  node: ClarastExpression;
+  inputs: FreeInput[];
+  /**
+   * Build the replacement from references to the inputs, in the order of
+   * `inputs`; nextId gives ids for any further nodes it creates
+   */
+  build: (
+    references: ClarastExpression[],
+    nextId: () => number
+  ) => ClarastExpression;
+}
+
+/**
+ * Kinds of top-level definitions in the `expressions` list
+ */
+export type ClarastDeclarationKind =
+  | "map"
+  | "data_var"
+  | "constant"
+  | "fungible_token"
+  | "non_fungible_token"
+  | "public"
+  | "read_only"
+  | "private";
+
+/**
+ * Names of the top-level definitions, by declaration type
+ */
+export interface ClarastVars {
+  variable_declaration: string[];
+  function_declaration: string[];
+  map_declaration: string[];
+  constant_declaration?: string[];
+  ft_declaration?: string[];
+  nft_declaration?: string[];
+}
+
+/**
+ * A decoded Stacks principal. Contract principals carry the name of the
+ * contract after the address.
+ */
+export interface StacksPrincipal {
+  /** c32check address in canonical form, e.g. `SP…` */
+  address: string;
+  version: number;
+  hash160: number[];
+  contractName?: string;
+}
+
+/**
+ * Identity of the contract being verified. `issuer_raw` is the deployer
+ * as a c32 version byte and a 20-byte hash.
+ */
+export interface ClarastIdentifier {
+  contract_name: string;
+  issuer_principal: string;
+  issuer_raw: [number, number[]];
+  clarity_version?: number;
+  epoch?: string;
+}
+
+/**
+ * Declared type and initial value of a top-level definition
+ */
+export interface ClarastConstValue {
+  type: ClarastType | { keytype: ClarastType; valtype: ClarastType };
+  value: ClarastExpression | null;
+}
+
+/**
+ * Contents of a .clarast file, the contract representation read by the
+ * ESBMC Clarity frontend
+ */
+export interface ClarastAST {
+  vars: ClarastVars;
+  identifier: ClarastIdentifier;
+  types: ClarastType[];
+  /** Top-level definitions as `[kind, declaration]` pairs, in source order */
+  expressions: [ClarastDeclarationKind, ClarastExpression][];
+  backfill: Record<string, unknown>;
+  const_values: Record<string, ClarastConstValue>;
+  exported_functions: string[];
+  /** Declaration id of every top-level definition, by name */
+  globals: Record<string, number>;
+  private_functions: string[];
+  /** Chain state before the verified transaction, as Clarity literals */
+  previous_block: Record<string, string>;
+  /** Values of Clarity keywords such as `block-height`, as literals */
+  stacks_keywords: Record<string, string>;
+}
+
 /**
  * Represents a changed function detected in a pull request
  */
 export interface ChangedFunction extends ClarityFunction {
-  changeType: "added" | "modified" | "deleted";
+  changeType: "added" | "modified" | "deleted" | "renamed" | "impacted";
+  /** For renamed functions, the name in the base version */
+  previousName?: string;
+  /** Path of the contract in the base version, if the file was moved */
+  previousFile?: string;
+  /** Lines of the head version changed within this function */
+  changedLines?: number[];
+  /**
+   * For impacted functions, the chain of calls leading to the changed
+   * definition, ending with the definition itself. For changed state,
+   * the used definition is followed by the definitions its value depends
+   * on, down to the one whose text changed.
+   */
+  impactedBy?: string[];
+  /**
+   * For functions impacted by a changed state definition, how the last
+   * function in the chain uses the first definition in it
+   */
+  changedState?: StateAccess;
+}
+
+/**
+ * The commits a verification run compares. Changes are diffed from the
+ * merge base so that commits on the base branch that are not part of the
+ * change are ignored.
+ */
+export interface GitComparison {
+  baseSha: string;
+  headSha: string;
+  mergeBaseSha: string;
+}
+
+/**
+ * Represents a Clarity file changed between two Git references
+ */
+export interface ModifiedFile {
+  path: string;
+  status: "added" | "modified" | "deleted" | "renamed";
+  /** For renamed files, the path in the base version */
+  previousPath?: string;
+}
+
+/**
+ * A hunk of a unified diff. A count of zero means the hunk only removes
+ * (head) or only adds (base) lines, and the start then refers to the line
+ * just before the change.
+ */
+export interface DiffHunk {
+  baseStart: number;
+  baseCount: number;
+  headStart: number;
+  headCount: number;
+}
+
+/**
+ * Options controlling how changes between two versions are detected
+ */
+export interface DetectionOptions {
+  /** Ignore changes to comments and whitespace */
+  ignoreFormatting: boolean;
+}
+
+/**
+ * Ways of producing a .clarast file: the AST generator container image, or
+ * the generator built into the action
+ */
+export type ASTBackend = "container" | "builtin";
+
+/**
+ * Settings that determine how contract ASTs are generated
+ */
+export interface ASTGenerationSettings {
+  backend: ASTBackend;
+  containerRepo: string;
+  containerVersion: string;
+  chain: ChainContext;
+  deployer: StacksPrincipal;
+  stubs: ExternalCallStubs;
+  /** Time and memory limits of the AST generator container */
+  limits: ContainerLimits;
+  /** Clarity version of contracts that do not set one */
+  clarityVersion?: number;
+  /** Epoch of contracts that do not set one */
+  epoch?: string;
+  /** Restore ASTs from and save them to the Actions cache */
+  cache?: boolean;
+}
+
+/**
+ * A generated AST file and the backend that produced it
+ */
+export interface GeneratedAST {
+  astFile: string;
+  backend: ASTBackend;
+}
+
+/**
+ * Named networks whose chain state contracts can be verified against
+ */
+export type NetworkPreset = "mainnet" | "testnet" | "devnet";
+
+/**
+ * Chain state written to the `stacks_keywords` and `previous_block`
+ * sections of a .clarast file
+ */
+export interface ChainContext {
+  network: NetworkPreset;
+  stacksKeywords: Record<string, string>;
+  nondeterministicBlockHeight: boolean;
+}
+
+/**
+ * How calls into contracts outside the repository are modelled: any
+ * well-typed response, any ok response, or a mock contract from the
+ * repository deployed in their place
+ */
+export type StubStrategy = "nondet" | "always-ok" | "mock";
+
+/**
+ * Stub settings of one external contract
+ */
+export interface ExternalContractStub {
+  strategy: StubStrategy;
+  /** Clarity file deployed in place of the contract, for `mock` */
+  mock?: string;
+  /** Declared return types of the functions called on the contract */
+  functions: Record<string, ClarastType>;
+}
+
+/**
+ * Stub settings for external calls, with per-contract settings keyed by
+ * contract principal
+ */
+export interface ExternalCallConfig {
+  strategy: StubStrategy;
+  contracts: Record<string, ExternalContractStub>;
+}
+
+/**
+ * Everything needed to stub the external calls of one project's contracts
+ */
+export interface ExternalCallStubs {
+  config: ExternalCallConfig;
+  /** Names of the contracts deployed alongside the verified contracts */
+  localContracts: string[];
+  /** Return types of trait functions, by trait principal and function */
+  traits: Record<string, Record<string, ClarastType>>;
+  /** Traits implemented by known contracts, by contract principal */
+  implementedTraits: Record<string, string[]>;
+}
+
+/**
+ * Contents of the optional YAML config file
+ */
+export interface VerificationConfigFile {
+  deployer?: string;
+  clarity_version?: number;
+  epoch?: string | number;
+  external_calls?: {
+    strategy?: string;
+    contracts?: Record<
+      string,
+      { strategy?: string; mock?: string; functions?: Record<string, string> }
+    >;
+  };
+  chain?: {
+    network?: string;
+    nondeterministic_block_height?: boolean;
+    overrides?: Record<string, string>;
+  };
+  esbmc?: {
+    profile?: string;
+    options?: Record<string, string | boolean>;
+  };
+}
+
+/**
+ * A contract passed to ESBMC together with its generated AST
+ */
+export interface ContractAST {
+  clarityFile: string;
+  astFile: string;
 }
 
 /**
  * Represents the result of an ESBMC verification run
  */
 export interface ESBMCResult {
-  verified: boolean;
+  status: VerificationStatus;
   failures: FailureDetails[];
   rawOutput: string;
   clarityFile: string;
   functionName: string;
+  astBackend?: ASTBackend;
+  /** ESBMC command line the result came from */
+  command?: string;
+  /** Every ESBMC run made for the function, when results were escalated */
+  attempts?: ESBMCAttempt[];
+}
+
+/**
+ * One ESBMC run of a function
+ */
+export interface ESBMCAttempt {
+  description: string;
+  command: string;
+  status: VerificationStatus;
+  durationSeconds: number;
+}
+
+/**
+ * ESBMC options to retry an inconclusive function with
+ */
+export interface EscalationStep {
+  description: string;
+  options: ESBMCOptions;
+}
+
+/**
+ * When and for how long inconclusive functions are retried
+ */
+export interface EscalationPolicy {
+  /** Wall-clock budget in seconds for all attempts on one function */
+  budgetSeconds: number;
+}
+
+/**
+ * Named ESBMC flag sets
+ */
+export type ESBMCProfile =
+  | "quick-bmc"
+  | "k-induction"
+  | "incremental-bmc"
+  | "exhaustive";
+
+/**
+ * ESBMC options keyed by flag name without the leading dashes: `true` for
+ * switches, otherwise the option's value
+ */
+export type ESBMCOptions = Record<string, string | true>;
+
+/**
+ * Outcome of verifying one function:
+ * - `verified`: ESBMC proved every property
+ * - `falsified`: ESBMC found a counterexample
+ * - `unknown`: ESBMC finished without a verdict, e.g. k-induction was
+ *   inconclusive or a bounded run found no counterexample
+ * - `timeout`: ESBMC was stopped at its time limit
+ * - `error`: the AST or the ESBMC run failed
+ * - `skipped`: the function was not run, e.g. because it was deleted
+ */
+export type VerificationStatus =
+  | "verified"
+  | "falsified"
+  | "unknown"
+  | "timeout"
+  | "error"
+  | "skipped";
+
+/**
+ * Limits on a container run
+ */
+export interface ContainerLimits {
+  /** Wall-clock limit in seconds */
+  timeoutSeconds?: number;
+  /** Memory limit in Docker's format, e.g. `4g` */
+  memory?: string;
+}
+
+/**
+ * Outcome of a task that may fail, such as one run by the worker pool
+ */
+export type TaskResult<R> =
+  | { ok: true; value: R }
+  | { ok: false; error: unknown };
+
+/**
+ * Changed functions and verification results for one Clarinet project.
+ * Contracts outside every project are grouped without a project.
+ */
+export interface ProjectVerification {
+  project?: ClarinetProject;
+  changedFunctions: ChangedFunction[];
+  esbmcResults: ESBMCResult[];
 }
 
 /**
@@ -47,14 +607,29 @@ export interface FailureDetails {
  */
 export interface ActionConfig {
   contractsDir: string[];
-  esbmcFlags: string;
+  esbmcProfile: ESBMCProfile;
+  esbmcOptions: ESBMCOptions;
   excludedContracts: string[];
   failOnIssue: boolean;
+  failOn: VerificationStatus[];
+  ignoreFormatting: boolean;
+  maxFetchDepth: number;
+  maxParallel: number;
+  limits: ContainerLimits;
+  escalation?: EscalationPolicy;
   baseRef: string;
   headRef: string;
   containerVersion: string;
+  astBackend: ASTBackend;
+  astCache: boolean;
   astContainerRepo: string;
   esbmcContainerRepo: string;
+  clarinetProjects: ClarinetProject[];
+  chainContext: ChainContext;
+  deployer: StacksPrincipal;
+  externalCalls: ExternalCallConfig;
+  clarityVersion?: number;
+  epoch?: string;
 }
 
 /**
@@ -70,6 +645,9 @@ export interface SARIFReport {
  * SARIF Run structure
  */
 export interface SARIFRun {
+  automationDetails?: {
+    id: string;
+  };
   tool: {
     driver: {
       name: string;
@@ -78,6 +656,7 @@ export interface SARIFRun {
     };
   };
   results: SARIFResult[];
+  properties?: Record<string, unknown>;
 }
 
 /**
@@ -93,23 +672,39 @@ export interface SARIFRule {
   };
 }
 
+/**
+ * SARIF Location structure
+ */
+export interface SARIFLocation {
+  id?: number;
+  message?: {
+    text: string;
+  };
+  physicalLocation: {
+    artifactLocation: {
+      uri: string;
+    };
+    region: {
+      startLine: number;
+      startColumn?: number;
+      endLine?: number;
+      endColumn?: number;
+    };
+  };
+}
+
 /**
  * SARIF Result structure
  */
 export interface SARIFResult {
   ruleId: string;
+  /** `open` for inconclusive results, which also have level `none` */
+  kind?: "fail" | "open";
+  level?: "error" | "warning" | "note" | "none";
   message: {
     text: string;
   };
-  locations: {
-    physicalLocation: {
-      artifactLocation: {
-        uri: string;
-      };
-      region: {
-        startLine: number;
-        startColumn?: number;
-      };
-    };
-  }[];
+  locations: SARIFLocation[];
+  relatedLocations?: SARIFLocation[];
+  properties?: Record<string, unknown>;
 }
@@ -1,26 +1,69 @@
 import * as core from "@actions/core";
 import * as exec from "@actions/exec";
+import { AsyncLocalStorage } from "async_hooks";
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
+import { ContainerLimits, TaskResult } from "../types";
+
+/**
+ * Log calls held back while a buffered task runs
+ */
+const logBuffers = new AsyncLocalStorage<Array<() => void>>();
 
 /**
  * Logger utility for consistent logging
  */
 export class Logger {
   static debug(message: string): void {
-    core.debug(message);
+    Logger.write(() => core.debug(message));
   }
 
   static info(message: string): void {
-    core.info(message);
+    Logger.write(() => core.info(message));
+  }
+
+  static warning(
+    message: string,
+    properties?: core.AnnotationProperties
+  ): void {
+    Logger.write(() => core.warning(message, properties));
+  }
+
+  static error(message: string, properties?: core.AnnotationProperties): void {
+    Logger.write(() => core.error(message, properties));
+  }
+
+  /**
+   * Run a task with its log held back, then write the log out in one
+   * piece so it does not interleave with tasks running alongside it
+   * @param task Task to run
+   * @returns Result of the task
+   */
+  static async buffered<T>(task: () => Promise<T>): Promise<T> {
+    const buffer: Array<() => void> = [];
+    try {
+      return await logBuffers.run(buffer, task);
+    } finally {
+      buffer.forEach((write) => write());
+    }
   }
 
-  static warning(message: string): void {
-    core.warning(message);
+  /**
+   * Check if the current task's log is being held back
+   * @returns True inside Logger.buffered
+   */
+  static isBuffered(): boolean {
+    return logBuffers.getStore() !== undefined;
   }
 
-  static error(message: string): void {
-    core.error(message);
+  private static write(log: () => void): void {
+    const buffer = logBuffers.getStore();
+    if (buffer) {
+      buffer.push(log);
+    } else {
+      log();
+    }
   }
 
   static group(name: string): void {
@@ -32,19 +75,117 @@ export class Logger {
   }
 }
 
+/**
+ * Thrown when a container exits with an error or is killed for exceeding
+ * its time or memory limit. Holds the output written before it stopped.
+ */
+export class ContainerError extends Error {
+  constructor(
+    readonly reason: "exit-code" | "timeout" | "memory",
+    message: string,
+    readonly output: string = ""
+  ) {
+    super(message);
+    this.name = "ContainerError";
+  }
+}
+
+/**
+ * Number of containers started, used to give each a unique name
+ */
+let containerCount = 0;
+
+/**
+ * Images already pulled by this run
+ */
+const pulledImages = new Map<string, Promise<void>>();
+
+/**
+ * Pull a Docker image unless it is already present, once per run
+ * @param imageRef Image reference, e.g. `repo:tag`
+ */
+async function pullImage(imageRef: string): Promise<void> {
+  let pulled = pulledImages.get(imageRef);
+  if (!pulled) {
+    pulled = (async () => {
+      const present = await exec.exec(
+        "docker",
+        ["image", "inspect", imageRef],
+        {
+          silent: true,
+          ignoreReturnCode: true,
+        }
+      );
+      if (present === 0) {
+        return;
+      }
+      Logger.info(`Pulling image ${imageRef}`);
+      const exitCode = await exec.exec("docker", ["pull", imageRef], {
+        silent: Logger.isBuffered(),
+        ignoreReturnCode: true,
+      });
+      if (exitCode !== 0) {
+        throw new Error(
+          `Failed to pull image ${imageRef}: exit code ${exitCode}`
+        );
+      }
+    })();
+    pulledImages.set(imageRef, pulled);
+    pulled.catch(() => pulledImages.delete(imageRef));
+  }
+  return pulled;
+}
+
+/**
+ * Delay between attempts to kill a container
+ */
+const KILL_RETRY_MS = 1000;
+
+/**
+ * Kill a container, retrying until the kill succeeds or the container
+ * exits by itself. The kill fails while Docker is still creating the
+ * container, so one attempt is not enough.
+ * @param name Container name
+ * @param hasExited Returns true once the container's command has returned
+ * @returns True if the container was killed, false if it exited first
+ */
+async function killContainer(
+  name: string,
+  hasExited: () => boolean
+): Promise<boolean> {
+  while (!hasExited()) {
+    const exitCode = await exec
+      .exec("docker", ["kill", name], { silent: true, ignoreReturnCode: true })
+      .catch((error) => {
+        Logger.warning(`Failed to kill container ${name}: ${error}`);
+        return -1;
+      });
+    if (exitCode === 0) {
+      return true;
+    }
+    await new Promise((resolve) => setTimeout(resolve, KILL_RETRY_MS));
+  }
+  return false;
+}
+
 /**
  * Execute a command in a Docker container
  * @param image Docker image to use
  * @param tag Image tag or digest
  * @param command Command to execute
  * @param workDir Working directory to mount
+ * @param mounts Further directories to mount at the same path
+ * @param limits Wall-clock and memory limits; the container is killed
+ * when it exceeds them
  * @returns Command output
  */
 export async function runInContainer(
   image: string,
   tag: string,
   command: string,
-  workDir: string = process.cwd()
+  workDir: string = process.cwd(),
+  mounts: string[] = [],
+  limits: ContainerLimits = {}
 ): Promise<string> {
   const imageRef = `${image}:${tag}`;
   Logger.debug(`Running command in container ${imageRef}: ${command}`);
@@ -52,8 +193,13 @@ export async function runInContainer(
   let output = "";
   let errorOutput = "";
 
+  // Output echoed as it arrives would interleave with other tasks, so
+  // buffered tasks log it once the command is done
+  const silent = Logger.isBuffered();
   const options: exec.ExecOptions = {
     cwd: workDir,
+    silent,
+    ignoreReturnCode: true,
     listeners: {
       stdout: (data: Buffer) => {
         output += data.toString();
@@ -64,15 +210,77 @@ export async function runInContainer(
     },
   };
 
-  const dockerCommand = `docker run --rm -v "${workDir}:${workDir}" -w "${workDir}" ${imageRef} ${command}`;
+  // Named so the container itself, not just the docker client, can be
+  // killed when it runs out of time
+  const name = `clarity-verify-${process.pid}-${++containerCount}`;
+  const volumes = [workDir, ...mounts]
+    .map((dir) => `-v "${dir}:${dir}"`)
+    .join(" ");
+  const memory = limits.memory
+    ? `--memory ${limits.memory} --memory-swap ${limits.memory} `
+    : "";
+  const dockerCommand = `docker run --rm --name ${name} ${memory}${volumes} -w "${workDir}" ${imageRef} ${command}`;
+
+  // Pull before the clock starts so a slow download does not count
+  // against the limit, or leave no container to kill when it runs out.
+  // Runs without a limit pull too, so a missing image always fails as
+  // a pull error rather than as the command's exit code.
+  await pullImage(imageRef);
 
+  let finished = false;
+  let killed: Promise<boolean> = Promise.resolve(false);
+  const timer = limits.timeoutSeconds
+    ? setTimeout(() => {
+        Logger.warning(
+          `Killing container ${name} after ${limits.timeoutSeconds}s`
+        );
+        killed = killContainer(name, () => finished);
+      }, limits.timeoutSeconds * 1000)
+    : undefined;
+
+  let exitCode: number;
   try {
-    await exec.exec("sh", ["-c", dockerCommand], options);
-    return output;
+    exitCode = await exec.exec("sh", ["-c", dockerCommand], options);
   } catch (error) {
     Logger.error(`Error running command in container: ${errorOutput}`);
     throw new Error(`Failed to run command in container: ${error}`);
+  } finally {
+    finished = true;
+    clearTimeout(timer);
+  }
+
+  // Only a container that was actually stopped counts as timed out; one
+  // that exited by itself while being killed ran to completion
+  const timedOut = await killed;
+  if (silent) {
+    Logger.info(output);
+  }
+  if (timedOut) {
+    throw new ContainerError(
+      "timeout",
+      `Command did not finish within ${limits.timeoutSeconds}s`,
+      output
+    );
+  }
+  // Docker's OOM killer ends the container with SIGKILL
+  if (exitCode === 137 && limits.memory) {
+    throw new ContainerError(
+      "memory",
+      `Command exceeded the ${limits.memory} memory limit`,
+      output
+    );
   }
+  if (exitCode !== 0) {
+    if (errorOutput) {
+      Logger.error(`Error running command in container: ${errorOutput}`);
+    }
+    throw new ContainerError(
+      "exit-code",
+      `Failed to run command in container: exit code ${exitCode}`,
+      output
+    );
+  }
+  return output;
 }
 
 /**
@@ -194,3 +402,61 @@ export function parseListInput(value: string): string[] {
     .map((s) => s.trim())
     .filter((s) => s !== "");
 }
+
+/**
+ * Parse a comma or newline separated list of key=value pairs
+ * @param value String to parse
+ * @returns Values keyed by their trimmed keys
+ */
+export function parseKeyValueInput(value: string): Record<string, string> {
+  const pairs: Record<string, string> = {};
+  for (const entry of parseListInput(value)) {
+    const separator = entry.indexOf("=");
+    if (separator <= 0) {
+      throw new Error(`Invalid entry '${entry}', expected key=value`);
+    }
+    pairs[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+  }
+  return pairs;
+}
+
+/**
+ * Get the number of tasks the runner can usefully run at once
+ * @returns Available parallelism, at least 1
+ */
+export function getDefaultParallelism(): number {
+  return Math.max(1, os.availableParallelism());
+}
+
+/**
+ * Run a task for each item, with at most `limit` tasks running at once.
+ * A task that throws does not stop the others.
+ * @param items Items to run the task for
+ * @param limit Maximum number of tasks running at once
+ * @param task Task to run for each item
+ * @returns Outcome of each task, in the order of the items
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<TaskResult<R>[]> {
+  const results: TaskResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  // Each worker takes the next item as soon as its current task is done
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { ok: true, value: await task(items[index], index) };
+      } catch (error) {
+        results[index] = { ok: false, error };
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}